@@ -1,6 +1,9 @@
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { useState, useEffect } from 'react';
+import { createBrowserRouter, createRoutesFromElements, RouterProvider, Route, Navigate, Outlet } from 'react-router-dom';
+import { QueryClientProvider } from '@tanstack/react-query';
 import AdminLayout from './components/AdminLayout';
+import AuthProvider from './components/AuthProvider';
+import RequireAuth from './components/RequireAuth';
+import RequirePermission from './components/RequirePermission';
 import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import Products from './pages/Products';
@@ -13,49 +16,101 @@ import Reviews from './pages/Reviews';
 import Policies from './pages/Policies';
 import Settings from './pages/Settings';
 import HeroSlides from './pages/HeroSlides';
+import StyleLibrary from './pages/StyleLibrary';
+import FabricLibrary from './pages/FabricLibrary';
+import DimensionTemplates from './pages/DimensionTemplates';
 import { Toaster } from 'sonner';
+import { queryClient } from './lib/queries';
 
-function App() {
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-
-  useEffect(() => {
-    // Check if user is logged in
-    const loggedIn = localStorage.getItem('isLoggedIn') === 'true';
-    setIsLoggedIn(loggedIn);
-  }, []);
-
-  if (!isLoggedIn) {
-    return (
-      <Router>
-        <Routes>
-          <Route path="*" element={<Login onLogin={() => setIsLoggedIn(true)} />} />
-        </Routes>
-        <Toaster position="top-right" />
-      </Router>
-    );
-  }
+// A data router, so editors can block navigation while they have unsaved changes.
+const router = createBrowserRouter(
+  createRoutesFromElements(
+    <>
+      <Route path="/login" element={<Login />} />
+      <Route
+        element={
+          <RequireAuth>
+            <AdminLayout>
+              <Outlet />
+            </AdminLayout>
+          </RequireAuth>
+        }
+      >
+        <Route path="/" element={<Navigate to="/dashboard" />} />
+        <Route
+          path="/dashboard"
+          element={<RequirePermission permission="dashboard.view"><Dashboard /></RequirePermission>}
+        />
+        <Route
+          path="/products"
+          element={<RequirePermission permission="catalog.view"><Products /></RequirePermission>}
+        />
+        <Route
+          path="/products/new"
+          element={<RequirePermission permission="catalog.edit"><ProductForm /></RequirePermission>}
+        />
+        <Route
+          path="/products/edit/:id"
+          element={<RequirePermission permission="catalog.edit"><ProductForm /></RequirePermission>}
+        />
+        <Route
+          path="/style-library"
+          element={<RequirePermission permission="catalog.view"><StyleLibrary /></RequirePermission>}
+        />
+        <Route
+          path="/fabric-library"
+          element={<RequirePermission permission="catalog.view"><FabricLibrary /></RequirePermission>}
+        />
+        <Route
+          path="/dimension-templates"
+          element={<RequirePermission permission="catalog.view"><DimensionTemplates /></RequirePermission>}
+        />
+        <Route
+          path="/categories"
+          element={<RequirePermission permission="catalog.view"><Categories /></RequirePermission>}
+        />
+        <Route
+          path="/collections"
+          element={<RequirePermission permission="catalog.view"><Collections /></RequirePermission>}
+        />
+        <Route
+          path="/filters"
+          element={<RequirePermission permission="catalog.view"><Filters /></RequirePermission>}
+        />
+        <Route
+          path="/orders"
+          element={<RequirePermission permission="orders.view"><Orders /></RequirePermission>}
+        />
+        <Route
+          path="/reviews"
+          element={<RequirePermission permission="reviews.view"><Reviews /></RequirePermission>}
+        />
+        <Route
+          path="/policies"
+          element={<RequirePermission permission="settings.manage"><Policies /></RequirePermission>}
+        />
+        <Route
+          path="/settings"
+          element={<RequirePermission permission="settings.manage"><Settings /></RequirePermission>}
+        />
+        <Route
+          path="/hero-slides"
+          element={<RequirePermission permission="catalog.view"><HeroSlides /></RequirePermission>}
+        />
+      </Route>
+      <Route path="*" element={<Navigate to="/dashboard" replace />} />
+    </>
+  )
+);
 
+function App() {
   return (
-    <Router>
-      <AdminLayout>
-        <Routes>
-          <Route path="/" element={<Navigate to="/dashboard" />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          <Route path="/products" element={<Products />} />
-          <Route path="/products/new" element={<ProductForm />} />
-          <Route path="/products/edit/:id" element={<ProductForm />} />
-          <Route path="/categories" element={<Categories />} />
-          <Route path="/collections" element={<Collections />} />
-          <Route path="/filters" element={<Filters />} />
-          <Route path="/orders" element={<Orders />} />
-          <Route path="/reviews" element={<Reviews />} />
-          <Route path="/policies" element={<Policies />} />
-          <Route path="/settings" element={<Settings />} />
-          <Route path="/hero-slides" element={<HeroSlides />} />
-        </Routes>
-      </AdminLayout>
-      <Toaster position="top-right" />
-    </Router>
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>
+        <RouterProvider router={router} />
+        <Toaster position="top-right" />
+      </AuthProvider>
+    </QueryClientProvider>
   );
 }
 
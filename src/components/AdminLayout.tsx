@@ -1,5 +1,5 @@
 import type { ReactNode } from 'react';
-import { Link, useLocation } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { 
   LayoutDashboard, 
   ShoppingBag, 
@@ -12,23 +12,37 @@ import {
   Truck,
   Star,
   Image,
+  Shapes,
+  SwatchBook,
+  Ruler,
 } from 'lucide-react';
 import { cn } from '../lib/utils';
+import { useAuth } from '../lib/auth';
+import { ROLE_LABELS, type Permission } from '../lib/permissions';
+import { useConfirmLeave } from '../lib/unsavedChanges';
+import UnsavedChangesProvider from './UnsavedChangesProvider';
+import UploadQueueProvider from './UploadQueueProvider';
 
-const sidebarLinks = [
-  { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
-  { name: 'Products', href: '/products', icon: ShoppingBag },
-  { name: 'Categories', href: '/categories', icon: Layers },
-  { name: 'Collections', href: '/collections', icon: Folder },
-  { name: 'Hero Slider', href: '/hero-slides', icon: Image },
-  { name: 'Orders', href: '/orders', icon: ShoppingCart },
-  { name: 'Reviews', href: '/reviews', icon: Star },
-  { name: 'Delivery & Returns', href: '/policies', icon: Truck },
-  { name: 'Settings', href: '/settings', icon: Settings },
+const sidebarLinks: { name: string; href: string; icon: typeof LayoutDashboard; permission: Permission }[] = [
+  { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard, permission: 'dashboard.view' },
+  { name: 'Products', href: '/products', icon: ShoppingBag, permission: 'catalog.view' },
+  { name: 'Style Library', href: '/style-library', icon: Shapes, permission: 'catalog.view' },
+  { name: 'Fabric Library', href: '/fabric-library', icon: SwatchBook, permission: 'catalog.view' },
+  { name: 'Dimension Templates', href: '/dimension-templates', icon: Ruler, permission: 'catalog.view' },
+  { name: 'Categories', href: '/categories', icon: Layers, permission: 'catalog.view' },
+  { name: 'Collections', href: '/collections', icon: Folder, permission: 'catalog.view' },
+  { name: 'Hero Slider', href: '/hero-slides', icon: Image, permission: 'catalog.view' },
+  { name: 'Orders', href: '/orders', icon: ShoppingCart, permission: 'orders.view' },
+  { name: 'Reviews', href: '/reviews', icon: Star, permission: 'reviews.view' },
+  { name: 'Delivery & Returns', href: '/policies', icon: Truck, permission: 'settings.manage' },
+  { name: 'Settings', href: '/settings', icon: Settings, permission: 'settings.manage' },
 ];
 
 const Sidebar = () => {
   const location = useLocation();
+  const navigate = useNavigate();
+  const { user, roles, can, logout } = useAuth();
+  const confirmLeave = useConfirmLeave();
 
   return (
     <div className="flex h-full w-64 flex-col bg-espresso text-ivory">
@@ -37,7 +51,7 @@ const Sidebar = () => {
       </div>
       <div className="flex-1 overflow-y-auto py-4">
         <nav className="space-y-1 px-3">
-          {sidebarLinks.map((link) => {
+          {sidebarLinks.filter((link) => can(link.permission)).map((link) => {
             const Icon = link.icon;
             const isActive = location.pathname === link.href;
             return (
@@ -59,11 +73,19 @@ const Sidebar = () => {
         </nav>
       </div>
       <div className="border-t border-white/10 p-4">
+        {user?.username && (
+          <p className="mb-2 truncate px-3 text-xs text-ivory/50">
+            Signed in as {user.username}
+            {roles.length > 0 && ` · ${roles.map((role) => ROLE_LABELS[role]).join(', ')}`}
+          </p>
+        )}
         <button 
-          onClick={() => {
-            localStorage.removeItem('isLoggedIn');
-            window.location.href = '/';
-          }}
+          onClick={() =>
+            confirmLeave(() => {
+              logout();
+              navigate('/login', { replace: true });
+            })
+          }
           className="flex w-full items-center rounded-md px-3 py-2 text-sm font-medium text-ivory/70 hover:bg-white/5 hover:text-ivory transition-colors"
         >
           <LogOut className="mr-3 h-5 w-5 shrink-0" />
@@ -75,26 +97,34 @@ const Sidebar = () => {
 };
 
 const AdminLayout = ({ children }: { children: ReactNode }) => {
+  const { can } = useAuth();
+
   return (
-    <div className="flex h-screen bg-background overflow-hidden">
-      <Sidebar />
-      <div className="flex flex-1 flex-col overflow-hidden">
-        <header className="flex h-16 items-center justify-between border-b bg-white px-8">
-          <h1 className="text-lg font-medium text-espresso">Admin Panel</h1>
-          <div className="flex items-center space-x-4">
-            <Link to="/products/new">
-              <button className="inline-flex items-center rounded-md bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary/90 transition-colors">
-                <PlusCircle className="mr-2 h-4 w-4" />
-                New Product
-              </button>
-            </Link>
+    <UnsavedChangesProvider>
+      <UploadQueueProvider>
+        <div className="flex h-screen bg-background overflow-hidden">
+          <Sidebar />
+          <div className="flex flex-1 flex-col overflow-hidden">
+            <header className="flex h-16 items-center justify-between border-b bg-white px-8">
+              <h1 className="text-lg font-medium text-espresso">Admin Panel</h1>
+              <div className="flex items-center space-x-4">
+                {can('catalog.edit') && (
+                  <Link to="/products/new">
+                    <button className="inline-flex items-center rounded-md bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary/90 transition-colors">
+                      <PlusCircle className="mr-2 h-4 w-4" />
+                      New Product
+                    </button>
+                  </Link>
+                )}
+              </div>
+            </header>
+            <main className="flex-1 overflow-y-auto bg-gray-50/50 p-8">
+              {children}
+            </main>
           </div>
-        </header>
-        <main className="flex-1 overflow-y-auto bg-gray-50/50 p-8">
-          {children}
-        </main>
-      </div>
-    </div>
+        </div>
+      </UploadQueueProvider>
+    </UnsavedChangesProvider>
   );
 };
 
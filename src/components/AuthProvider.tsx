@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { toast } from 'sonner';
+import {
+  AuthContext,
+  IDLE_TIMEOUT_MS,
+  clearCredentials,
+  readSession,
+  storeCredentials,
+  type AuthTokens,
+} from '../lib/auth';
+import { apiGet } from '../lib/api';
+import { queryClient } from '../lib/queries';
+import { resolvePermissions, resolveRoles, type AdminProfile, type Permission } from '../lib/permissions';
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'] as const;
+
+const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState(() => {
+    const current = readSession();
+    // Drop leftovers (dead tokens, the old isLoggedIn flag) so nothing reads them later.
+    if (!current) clearCredentials();
+    return current;
+  });
+
+  // Profile is keyed by the signed-in user so a stale one is never applied to the next login.
+  const sessionKey = session ? `${session.user.id ?? ''}:${session.user.username}` : null;
+  // `failed` keeps protected pages blocked until a retry loads the profile.
+  const [profile, setProfile] = useState<{ key: string; data: AdminProfile | null; failed?: boolean } | null>(null);
+  const [profileAttempt, setProfileAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!sessionKey) return;
+    let cancelled = false;
+    const loadProfile = async () => {
+      try {
+        const data = await apiGet<AdminProfile>('/admin/me/');
+        if (!cancelled) setProfile({ key: sessionKey, data });
+      } catch {
+        if (cancelled) return;
+        setProfile({ key: sessionKey, data: null, failed: true });
+        toast.error('Failed to load your permissions');
+      }
+    };
+    loadProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionKey, profileAttempt]);
+
+  const retryPermissions = useCallback(() => {
+    setProfile(null);
+    setProfileAttempt((prev) => prev + 1);
+  }, []);
+
+  const login = useCallback((tokens: AuthTokens, username: string, remember: boolean) => {
+    storeCredentials(tokens, username, remember);
+    setSession(readSession());
+  }, []);
+
+  const logout = useCallback(() => {
+    clearCredentials();
+    // Cached catalog data belongs to the previous user; never show it to the next one.
+    queryClient.clear();
+    setSession(null);
+  }, []);
+
+  // Sign out as soon as the last usable token expires, even if the page sits idle.
+  useEffect(() => {
+    if (!session?.expiresAt) return;
+    const timer = window.setTimeout(() => {
+      const next = readSession();
+      if (!next) clearCredentials();
+      setSession(next);
+    }, Math.max(session.expiresAt - Date.now(), 0));
+    return () => window.clearTimeout(timer);
+  }, [session?.expiresAt]);
+
+  // Shared workshop machines: a session that wasn't remembered ends after a stretch of inactivity.
+  const isIdleTracked = Boolean(session) && !session?.remember;
+  useEffect(() => {
+    if (!isIdleTracked) return;
+    let lastActivity = Date.now();
+    const onActivity = () => {
+      lastActivity = Date.now();
+    };
+    const timer = window.setInterval(() => {
+      if (Date.now() - lastActivity < IDLE_TIMEOUT_MS) return;
+      logout();
+      toast.info('You were signed out after a period of inactivity.');
+    }, 15 * 1000);
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, onActivity, { passive: true }));
+    return () => {
+      window.clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, onActivity));
+    };
+  }, [isIdleTracked, logout]);
+
+  // Keep tabs in sync when another tab logs in or out.
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.storageArea !== localStorage) return;
+      setSession(readSession());
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
+
+  const activeProfile = profile && profile.key === sessionKey ? profile.data : null;
+  const isLoadingPermissions = Boolean(sessionKey) && profile?.key !== sessionKey;
+  const permissionsFailed = Boolean(profile?.failed) && profile?.key === sessionKey;
+
+  const value = useMemo(() => {
+    const permissions = resolvePermissions(activeProfile);
+    return {
+      session,
+      user: session?.user ?? null,
+      isAuthenticated: Boolean(session),
+      roles: resolveRoles(activeProfile),
+      permissions,
+      isLoadingPermissions,
+      permissionsFailed,
+      retryPermissions,
+      can: (permission: Permission) => permissions.has(permission),
+      login,
+      logout,
+    };
+  }, [session, activeProfile, isLoadingPermissions, permissionsFailed, retryPermissions, login, logout]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
@@ -0,0 +1,95 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { emptyDimensionRule } from '../lib/dimensionRules';
+import type { DimensionRule } from '../lib/types';
+import { cn } from '../lib/utils';
+
+type DimensionRulesEditorProps = {
+  rules: DimensionRule[];
+  onChange: (rules: DimensionRule[]) => void;
+  // Size columns a rule can be limited to.
+  columns: string[];
+  measurements: string[];
+  // Rules currently triggered by the product's styles, highlighted in the list.
+  activeRules?: DimensionRule[];
+};
+
+const DimensionRulesEditor = ({ rules, onChange, columns, measurements, activeRules = [] }: DimensionRulesEditorProps) => {
+  const updateRule = (index: number, changes: Partial<DimensionRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const toggleSize = (index: number, size: string) => {
+    const sizes = rules[index].sizes;
+    updateRule(index, { sizes: sizes.includes(size) ? sizes.filter((s) => s !== size) : [...sizes, size] });
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.map((rule, index) => (
+        <div
+          key={index}
+          className={cn('space-y-2 rounded-md border p-3', activeRules.includes(rule) && 'border-primary/40 bg-primary/5')}
+        >
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>If a style or option mentioning</span>
+            <Input
+              value={rule.match}
+              onChange={(e) => updateRule(index, { match: e.target.value })}
+              placeholder="e.g. wingback"
+              className="h-8 w-36"
+            />
+            <span>is offered, add</span>
+            <Input
+              type="number"
+              step="0.1"
+              value={rule.amount_cm}
+              onChange={(e) => updateRule(index, { amount_cm: Number(e.target.value) })}
+              className="h-8 w-20"
+            />
+            <span>cm to</span>
+            <Input
+              value={rule.measurement}
+              onChange={(e) => updateRule(index, { measurement: e.target.value })}
+              placeholder="e.g. Width"
+              list="dimension-rule-measurements"
+              className="h-8 w-36"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="ml-auto"
+              onClick={() => onChange(rules.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+          {columns.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+              <span>Sizes:</span>
+              {columns.map((size) => (
+                <label key={size} className="flex items-center gap-1">
+                  <input type="checkbox" checked={rule.sizes.includes(size)} onChange={() => toggleSize(index, size)} />
+                  {size}
+                </label>
+              ))}
+              {rule.sizes.length === 0 && <span className="italic">none ticked, so all sizes</span>}
+            </div>
+          )}
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...rules, { ...emptyDimensionRule, sizes: [] }])}>
+        <Plus className="h-4 w-4 mr-2" /> Add Rule
+      </Button>
+      <datalist id="dimension-rule-measurements">
+        {measurements.map((measurement) => (
+          <option key={measurement} value={measurement} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default DimensionRulesEditor;
@@ -0,0 +1,10 @@
+import type { ApiFieldErrors } from '../lib/api';
+
+// Renders the backend's messages for one field, e.g. <FieldError errors={fieldErrors} name="slug" />.
+const FieldError = ({ errors, name }: { errors: ApiFieldErrors; name: string }) => {
+  const messages = errors[name];
+  if (!messages || messages.length === 0) return null;
+  return <p className="text-xs text-destructive">{messages.join(' ')}</p>;
+};
+
+export default FieldError;
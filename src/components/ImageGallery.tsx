@@ -0,0 +1,253 @@
+import { useState, type DragEvent } from 'react';
+import { AlertTriangle, GripVertical, ImagePlus, Star, Trash2, Upload } from 'lucide-react';
+import { Button } from './ui/button';
+import { cn } from '../lib/utils';
+
+export type GalleryImage = {
+  // The field array id, stable across reorders.
+  id: string;
+  url: string;
+  color_name: string;
+};
+
+type ImageGalleryProps = {
+  images: GalleryImage[];
+  // Colour and fabric colour names an image can be bound to.
+  colorOptions: string[];
+  onMove: (from: number, to: number) => void;
+  onRemove: (indexes: number[]) => void;
+  onSetColor: (index: number, colorName: string) => void;
+  onReplace: (index: number, file: File) => void;
+  // `colorName` is set when the files were dropped on a colour group.
+  onDropFiles: (files: FileList, colorName?: string) => void;
+};
+
+const UNBOUND = '';
+
+// Dragged thumbnails carry their index; files dragged in from the desktop carry `Files` instead.
+const DRAG_TYPE = 'application/x-gallery-index';
+
+const ImageGallery = ({ images, colorOptions, onMove, onRemove, onSetColor, onReplace, onDropFiles }: ImageGalleryProps) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [groupByColor, setGroupByColor] = useState(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const visibleSelection = images.filter((image) => selected.has(image.id));
+  const missingColors = colorOptions.filter((name) => !images.some((image) => image.url && image.color_name === name));
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleRemoveSelected = () => {
+    if (!confirm(`Remove ${visibleSelection.length} image${visibleSelection.length === 1 ? '' : 's'}?`)) return;
+    onRemove(images.flatMap((image, index) => (selected.has(image.id) ? [index] : [])));
+    setSelected(new Set());
+  };
+
+  const handleDragOver = (event: DragEvent, target: string) => {
+    if (!event.dataTransfer.types.includes(DRAG_TYPE) && !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setDropTarget(target);
+  };
+
+  // Dropping on a thumbnail reorders; dropping on a colour group binds the image (or new files) to that colour.
+  const handleDrop = (event: DragEvent, onImageDrop: (from: number) => void, colorName?: string) => {
+    event.preventDefault();
+    // Thumbnails sit inside the drop zone; without this a file dropped on one is uploaded twice.
+    event.stopPropagation();
+    setDropTarget(null);
+    if (event.dataTransfer.files.length > 0) {
+      onDropFiles(event.dataTransfer.files, colorName);
+      return;
+    }
+    const from = Number(event.dataTransfer.getData(DRAG_TYPE));
+    if (Number.isInteger(from)) onImageDrop(from);
+  };
+
+  const renderThumbnail = (image: GalleryImage, index: number, canReorder: boolean) => (
+    <div
+      key={image.id}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_TYPE, String(index));
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onDragOver={canReorder ? (e) => handleDragOver(e, image.id) : undefined}
+      onDragLeave={() => setDropTarget(null)}
+      onDrop={canReorder ? (e) => handleDrop(e, (from) => from !== index && onMove(from, index)) : undefined}
+      className={cn(
+        'group relative w-36 space-y-1 rounded-md border bg-white p-1.5',
+        selected.has(image.id) && 'border-primary ring-2 ring-primary/30',
+        dropTarget === image.id && 'border-dashed border-primary'
+      )}
+    >
+      <div className="relative h-32 w-full overflow-hidden rounded bg-gray-100">
+        {image.url ? (
+          <img src={image.url} alt={`Image ${index + 1}`} className="h-full w-full object-cover" />
+        ) : (
+          <label className="flex h-full w-full cursor-pointer flex-col items-center justify-center gap-1 text-xs text-muted-foreground">
+            <Upload className="h-5 w-5" />
+            Upload
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onReplace(index, file);
+              }}
+            />
+          </label>
+        )}
+        <input
+          type="checkbox"
+          className="absolute left-1.5 top-1.5 h-4 w-4"
+          checked={selected.has(image.id)}
+          onChange={() => toggleSelected(image.id)}
+          aria-label={`Select image ${index + 1}`}
+        />
+        {index === 0 ? (
+          <span className="absolute right-1.5 top-1.5 rounded bg-primary px-1.5 py-0.5 text-[10px] font-medium text-white">
+            Primary
+          </span>
+        ) : (
+          <button
+            type="button"
+            title="Set as primary"
+            className="absolute right-1.5 top-1.5 rounded bg-white/90 p-1 opacity-0 shadow group-hover:opacity-100"
+            onClick={() => onMove(index, 0)}
+          >
+            <Star className="h-3.5 w-3.5" />
+          </button>
+        )}
+        {canReorder && <GripVertical className="absolute bottom-1.5 left-1.5 h-4 w-4 cursor-grab text-white drop-shadow" />}
+      </div>
+      <select
+        className="w-full rounded border border-input bg-white px-1 py-0.5 text-xs"
+        value={image.color_name || UNBOUND}
+        onChange={(e) => onSetColor(index, e.target.value)}
+        title="Shown when this colour is selected on the storefront"
+      >
+        <option value={UNBOUND}>No color binding</option>
+        {colorOptions.map((name) => (
+          <option key={name} value={name}>
+            {name}
+          </option>
+        ))}
+        {image.color_name && !colorOptions.includes(image.color_name) && (
+          <option value={image.color_name}>{image.color_name} (removed)</option>
+        )}
+      </select>
+      <div className="flex items-center justify-between">
+        <label className="cursor-pointer text-[11px] text-muted-foreground hover:text-foreground">
+          Replace
+          <input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onReplace(index, file);
+            }}
+          />
+        </label>
+        <button type="button" title="Remove image" onClick={() => onRemove([index])}>
+          <Trash2 className="h-3.5 w-3.5 text-destructive" />
+        </button>
+      </div>
+    </div>
+  );
+
+  const groups = [UNBOUND, ...colorOptions];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={groupByColor} onChange={(e) => setGroupByColor(e.target.checked)} />
+          Group by colour
+        </label>
+        {visibleSelection.length > 0 && (
+          <>
+            <span className="text-muted-foreground">{visibleSelection.length} selected</span>
+            <Button type="button" variant="outline" size="sm" className="text-destructive" onClick={handleRemoveSelected}>
+              <Trash2 className="h-4 w-4 mr-1" /> Remove selected
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setSelected(new Set())}>
+              Clear selection
+            </Button>
+          </>
+        )}
+        {missingColors.length > 0 && (
+          <span className="flex items-center gap-1 text-amber-700">
+            <AlertTriangle className="h-4 w-4" />
+            No photos for {missingColors.join(', ')}
+          </span>
+        )}
+      </div>
+
+      {groupByColor ? (
+        <div className="space-y-3">
+          {groups.map((group) => {
+            const members = images.map((image, index) => ({ image, index })).filter(({ image }) => image.color_name === group);
+            const targetKey = `group:${group}`;
+            return (
+              <div
+                key={targetKey}
+                onDragOver={(e) => handleDragOver(e, targetKey)}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(e) => handleDrop(e, (from) => onSetColor(from, group), group)}
+                className={cn(
+                  'rounded-md border p-3',
+                  group && members.length === 0 && 'border-amber-300 bg-amber-50',
+                  dropTarget === targetKey && 'border-dashed border-primary bg-primary/5'
+                )}
+              >
+                <p className="mb-2 text-sm font-medium">
+                  {group || 'Not bound to a colour'}
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    {members.length === 0
+                      ? group
+                        ? 'no photos yet, drag one here'
+                        : 'none'
+                      : `${members.length} image${members.length === 1 ? '' : 's'}`}
+                  </span>
+                </p>
+                <div className="flex flex-wrap gap-3">{members.map(({ image, index }) => renderThumbnail(image, index, false))}</div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div
+          className={cn('flex flex-wrap gap-3 rounded-md', dropTarget === 'files' && 'bg-primary/5 outline-dashed outline-primary')}
+          onDragOver={(e) => {
+            if (e.dataTransfer.types.includes('Files')) handleDragOver(e, 'files');
+          }}
+          onDrop={(e) => {
+            if (e.dataTransfer.files.length > 0) handleDrop(e, () => undefined);
+          }}
+        >
+          {images.map((image, index) => renderThumbnail(image, index, true))}
+          {images.length === 0 && (
+            <div className="flex h-32 w-full flex-col items-center justify-center gap-1 rounded-md border border-dashed text-sm text-muted-foreground">
+              <ImagePlus className="h-6 w-6" />
+              Drop images here or use the upload button above.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageGallery;
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { productDetailQuery, useAllProducts } from '../lib/queries';
+import {
+  IMPORT_SECTION_KEYS,
+  MERGE_STRATEGY_LABELS,
+  describeSection,
+  extractSection,
+  mergeSection,
+  sectionLabel,
+  sectionSize,
+  type ImportSectionKey,
+  type ImportSectionValues,
+  type MergeStrategy,
+} from '../lib/productSections';
+
+type ImportSectionsDialogProps = {
+  // Snapshot of the editor's current values, used for the preview counts and the merge.
+  current: ImportSectionValues;
+  initialSections?: ImportSectionKey[];
+  excludeProductId?: number;
+  onApply: (updates: Partial<ImportSectionValues>, sourceName: string) => void;
+  onClose: () => void;
+};
+
+const PREVIEW_LIMIT = 8;
+
+const defaultStrategy = (key: ImportSectionKey): MergeStrategy => (key === 'faqs' ? 'dedupe' : 'append');
+
+const truncate = (value: string) => (value.length > 160 ? `${value.slice(0, 157)}...` : value);
+
+const ImportSectionsDialog = ({ current, initialSections = [], excludeProductId, onApply, onClose }: ImportSectionsDialogProps) => {
+  const { data: products = [], isLoading: isLoadingProducts } = useAllProducts();
+  const [sourceId, setSourceId] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Set<ImportSectionKey>>(() => new Set(initialSections));
+  const [strategies, setStrategies] = useState<Partial<Record<ImportSectionKey, MergeStrategy>>>({});
+
+  const { data: source, isFetching } = useQuery({
+    ...productDetailQuery(sourceId ?? 0),
+    enabled: sourceId !== null,
+    meta: { errorMessage: 'Failed to load that product' },
+  });
+
+  const strategyFor = (key: ImportSectionKey) => strategies[key] ?? defaultStrategy(key);
+  const incoming = source && source.id === sourceId ? source : null;
+
+  const toggleSection = (key: ImportSectionKey) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const buildUpdates = () => {
+    if (!incoming) return {};
+    const updates: Partial<ImportSectionValues> = {};
+    IMPORT_SECTION_KEYS.filter((key) => selected.has(key)).forEach(<K extends ImportSectionKey>(key: K) => {
+      const value = extractSection(incoming, key);
+      if (sectionSize(key, value) === 0) return;
+      updates[key] = mergeSection(key, current[key], value, strategyFor(key));
+    });
+    return updates;
+  };
+
+  const handleApply = () => {
+    if (!incoming) return;
+    onApply(buildUpdates(), incoming.name);
+  };
+
+  const selectedWithData = incoming
+    ? IMPORT_SECTION_KEYS.filter((key) => selected.has(key) && sectionSize(key, extractSection(incoming, key)) > 0)
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Import sections from another product</CardTitle>
+          <Button type="button" variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4 overflow-y-auto">
+          <div className="flex items-center gap-3">
+            <select
+              className="h-10 flex-1 rounded-md border border-input bg-background px-3 text-sm"
+              value={sourceId ?? ''}
+              onChange={(e) => setSourceId(e.target.value ? Number(e.target.value) : null)}
+              disabled={isLoadingProducts}
+            >
+              <option value="">{isLoadingProducts ? 'Loading products...' : 'Select product to import from'}</option>
+              {products
+                .filter((p) => p.id !== excludeProductId)
+                .map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name} (#{p.id})
+                  </option>
+                ))}
+            </select>
+            {(isLoadingProducts || isFetching) && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </div>
+
+          <div className="divide-y rounded-md border">
+            {IMPORT_SECTION_KEYS.map((key) => {
+              const value = incoming ? extractSection(incoming, key) : null;
+              const size = value ? sectionSize(key, value) : 0;
+              const isText = typeof current[key] === 'string';
+              const isChecked = selected.has(key);
+              const strategy = strategyFor(key);
+              const preview = value ? describeSection(key, value) : [];
+              const merged = value && isChecked && size > 0 ? mergeSection(key, current[key], value, strategy) : null;
+
+              return (
+                <div key={key} className="space-y-2 p-3">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex flex-1 items-center gap-2 text-sm font-medium">
+                      <input type="checkbox" checked={isChecked} onChange={() => toggleSection(key)} />
+                      {sectionLabel(key)}
+                      {incoming && (
+                        <span className="text-xs font-normal text-muted-foreground">
+                          {size === 0 ? 'nothing to import' : isText ? 'has text' : `${size} item${size === 1 ? '' : 's'}`}
+                        </span>
+                      )}
+                    </label>
+                    <select
+                      className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                      value={strategy}
+                      onChange={(e) => setStrategies((prev) => ({ ...prev, [key]: e.target.value as MergeStrategy }))}
+                      disabled={!isChecked}
+                    >
+                      {(Object.keys(MERGE_STRATEGY_LABELS) as MergeStrategy[]).map((option) => (
+                        <option key={option} value={option}>
+                          {MERGE_STRATEGY_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                    {merged !== null && !isText && (
+                      <span className="text-xs text-muted-foreground">
+                        {sectionSize(key, current[key])} → {sectionSize(key, merged)}
+                      </span>
+                    )}
+                  </div>
+                  {isChecked && preview.length > 0 && (
+                    <ul className="ml-6 space-y-0.5 text-xs text-muted-foreground">
+                      {preview.slice(0, PREVIEW_LIMIT).map((line, index) => (
+                        <li key={index} className="whitespace-pre-line">
+                          {truncate(line)}
+                        </li>
+                      ))}
+                      {preview.length > PREVIEW_LIMIT && <li>and {preview.length - PREVIEW_LIMIT} more</li>}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleApply} disabled={selectedWithData.length === 0}>
+              Import {selectedWithData.length} section{selectedWithData.length === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ImportSectionsDialog;
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { isMattressProduct } from '../lib/mattresses';
+import type { Product } from '../lib/types';
+
+type MattressPickerProps = {
+  products: Product[];
+  isLoading?: boolean;
+  // Already linked on this product, shown as such rather than offered again.
+  linkedIds: number[];
+  excludeProductId?: number;
+  onSelect: (product: Product) => void;
+  onClose: () => void;
+};
+
+const RESULT_LIMIT = 50;
+
+const MattressPicker = ({ products, isLoading = false, linkedIds, excludeProductId, onSelect, onClose }: MattressPickerProps) => {
+  const [search, setSearch] = useState('');
+  const [showAll, setShowAll] = useState(false);
+
+  const query = search.trim().toLowerCase();
+  const results = products
+    .filter((product) => product.id !== excludeProductId)
+    .filter((product) => showAll || isMattressProduct(product))
+    .filter((product) => !query || product.name.toLowerCase().includes(query) || String(product.id) === query);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-xl max-h-[90vh] flex flex-col">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Link a mattress product</CardTitle>
+          <Button type="button" variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3 overflow-y-auto">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              autoFocus
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name or ID"
+              className="pl-9"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+            Include products outside mattress categories
+          </label>
+          <div className="divide-y rounded-md border">
+            {results.slice(0, RESULT_LIMIT).map((product) => {
+              const isLinked = linkedIds.includes(product.id);
+              return (
+                <div key={product.id} className="flex items-center gap-3 p-2">
+                  {product.images?.[0]?.url ? (
+                    <img src={product.images[0].url} alt="" className="h-10 w-10 rounded object-cover" />
+                  ) : (
+                    <div className="h-10 w-10 rounded bg-gray-100" />
+                  )}
+                  <div className="flex-1 text-sm">
+                    <p className="font-medium">{product.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      #{product.id} · £{Number(product.price).toFixed(2)}
+                      {product.category_name ? ` · ${product.category_name}` : ''}
+                    </p>
+                  </div>
+                  <Button type="button" size="sm" variant="outline" disabled={isLinked} onClick={() => onSelect(product)}>
+                    {isLinked ? 'Linked' : 'Link'}
+                  </Button>
+                </div>
+              );
+            })}
+            {results.length === 0 && (
+              <p className="p-3 text-sm text-muted-foreground">
+                {isLoading
+                  ? 'Loading products...'
+                  : showAll
+                    ? 'No products match.'
+                    : 'No mattress products match. Try including other products.'}
+              </p>
+            )}
+            {results.length > RESULT_LIMIT && (
+              <p className="p-2 text-xs text-muted-foreground">
+                Showing {RESULT_LIMIT} of {results.length}. Narrow the search to see the rest.
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MattressPicker;
@@ -0,0 +1,122 @@
+import { useMemo, useState } from 'react';
+import { useWatch, type Control } from 'react-hook-form';
+import { AlertTriangle } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { buildPriceMatrix, MAX_MATRIX_ROWS } from '../lib/priceMatrix';
+import type { ProductFormValues } from '../lib/productSchema';
+
+type PriceMatrixProps = {
+  control: Control<ProductFormValues>;
+};
+
+const formatPrice = (value: number) => `${value < 0 ? '-' : ''}£${Math.abs(value).toFixed(2)}`;
+
+const PriceMatrix = ({ control }: PriceMatrixProps) => {
+  const [price, discount, sizes, styles, mattresses] = useWatch({
+    control,
+    name: ['price', 'discount_percentage', 'sizes', 'styles', 'mattresses'],
+  });
+  const [onlyFlagged, setOnlyFlagged] = useState(false);
+
+  const matrix = useMemo(
+    () => buildPriceMatrix({ price, discount_percentage: discount, sizes, styles, mattresses }),
+    [price, discount, sizes, styles, mattresses]
+  );
+
+  const flaggedCount = matrix.rows.filter((row) => row.flags.length > 0).length;
+  const rows = onlyFlagged ? matrix.rows.filter((row) => row.flags.length > 0) : matrix.rows;
+  const prices = matrix.rows.map((row) => row.price);
+  const styleGroups = Array.from(new Set(matrix.rows.flatMap((row) => row.styles.map((pick) => pick.group))));
+  const hasSizes = matrix.rows.some((row) => row.size);
+  const hasDiscount = matrix.rows.some((row) => row.fullPrice !== null);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+        <span>
+          {matrix.total} combination{matrix.total === 1 ? '' : 's'}
+        </span>
+        <span>
+          {formatPrice(Math.min(...prices))} – {formatPrice(Math.max(...prices))}
+        </span>
+        {flaggedCount > 0 ? (
+          <span className="flex items-center gap-1 text-destructive">
+            <AlertTriangle className="h-4 w-4" />
+            {flaggedCount} need{flaggedCount === 1 ? 's' : ''} a look
+          </span>
+        ) : (
+          <span className="text-green-700">No suspicious prices</span>
+        )}
+        <label className="ml-auto flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={onlyFlagged} onChange={(e) => setOnlyFlagged(e.target.checked)} />
+          Only show flagged
+        </label>
+      </div>
+      {matrix.truncated && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {MAX_MATRIX_ROWS} combinations. Fewer style options per size keeps the list manageable.
+        </p>
+      )}
+
+      <div className="max-h-[480px] overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {hasSizes && <TableHead>Size</TableHead>}
+              {styleGroups.map((group) => (
+                <TableHead key={group}>{group}</TableHead>
+              ))}
+              <TableHead>Mattress</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              {hasDiscount && <TableHead className="text-right">Before discount</TableHead>}
+              <TableHead>Check</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => {
+              const hasError = row.flags.some((flag) => flag.level === 'error');
+              return (
+                <TableRow
+                  key={index}
+                  className={hasError ? 'bg-red-50' : row.flags.length > 0 ? 'bg-amber-50' : undefined}
+                >
+                  {hasSizes && <TableCell>{row.size}</TableCell>}
+                  {styleGroups.map((group) => (
+                    <TableCell key={group}>
+                      {row.styles.find((pick) => pick.group === group)?.option || (
+                        <span className="text-muted-foreground">n/a</span>
+                      )}
+                    </TableCell>
+                  ))}
+                  <TableCell>{row.mattress}</TableCell>
+                  <TableCell className={`text-right font-medium ${hasError ? 'text-destructive' : ''}`}>
+                    {formatPrice(row.price)}
+                  </TableCell>
+                  {hasDiscount && (
+                    <TableCell className="text-right text-muted-foreground">
+                      {row.fullPrice !== null ? formatPrice(row.fullPrice) : ''}
+                    </TableCell>
+                  )}
+                  <TableCell className="text-xs">
+                    {row.flags.map((flag) => (
+                      <span
+                        key={flag.message}
+                        className={`mr-1 inline-block rounded px-1.5 py-0.5 ${
+                          flag.level === 'error' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-900'
+                        }`}
+                      >
+                        {flag.message}
+                      </span>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default PriceMatrix;
@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { apiDelete, apiPatch } from '../lib/api';
+import { useAuth } from '../lib/auth';
+import { describeBulkError, discountPatch, priceChangePatch, runBulk, type BulkFailure, type BulkProgress } from '../lib/bulkActions';
+import { useCategories, useCollections, useInvalidate } from '../lib/queries';
+import type { Product } from '../lib/types';
+
+type BulkAction =
+  | ''
+  | 'delete'
+  | 'in_stock'
+  | 'is_bestseller'
+  | 'is_new'
+  | 'move'
+  | 'price_change'
+  | 'discount'
+  | 'collection';
+
+type BulkResult = {
+  label: string;
+  total: number;
+  failures: BulkFailure[];
+};
+
+type ProductBulkActionsProps = {
+  selected: Product[];
+  onClearSelection: () => void;
+  // Receives the ids that failed so the caller can keep just those selected for a retry.
+  onComplete: (failedIds: number[]) => void;
+};
+
+const ProductBulkActions = ({ selected, onClearSelection, onComplete }: ProductBulkActionsProps) => {
+  const { can } = useAuth();
+  const invalidate = useInvalidate();
+  const { data: categories = [] } = useCategories();
+  const { data: collections = [] } = useCollections();
+  const [action, setAction] = useState<BulkAction>('');
+  const [flagValue, setFlagValue] = useState('true');
+  const [categoryId, setCategoryId] = useState('');
+  const [subcategoryId, setSubcategoryId] = useState('');
+  const [percent, setPercent] = useState('');
+  const [collectionId, setCollectionId] = useState('');
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [result, setResult] = useState<BulkResult | null>(null);
+
+  const subcategories = categories.find((c) => String(c.id) === categoryId)?.subcategories || [];
+  const isRunning = progress !== null && result === null;
+  const count = selected.length;
+
+  const finish = async (label: string, failures: BulkFailure[]) => {
+    setResult({ label, total: selected.length, failures });
+    await invalidate('products');
+    onComplete(failures.map((f) => f.id));
+  };
+
+  const run = async (label: string, worker: (product: Product) => Promise<unknown>) => {
+    setResult(null);
+    const failures = await runBulk(selected, worker, setProgress);
+    await finish(label, failures);
+  };
+
+  const handleApply = async () => {
+    const pct = Number(percent);
+    switch (action) {
+      case 'delete':
+        if (!confirm(`Delete ${count} product${count === 1 ? '' : 's'}? This cannot be undone.`)) return;
+        await run('Delete', (product) => apiDelete(`/products/${product.id}/`));
+        return;
+      case 'in_stock':
+      case 'is_bestseller':
+      case 'is_new': {
+        const value = flagValue === 'true';
+        await run('Update', (product) => apiPatch(`/products/${product.id}/`, { [action]: value }));
+        return;
+      }
+      case 'move': {
+        if (!categoryId) {
+          toast.error('Choose a category to move the products to');
+          return;
+        }
+        const payload = { category: Number(categoryId), subcategory: subcategoryId ? Number(subcategoryId) : null };
+        await run('Move', (product) => apiPatch(`/products/${product.id}/`, payload));
+        return;
+      }
+      case 'price_change':
+        if (!percent.trim() || !Number.isFinite(pct) || pct <= -100) {
+          toast.error('Enter a percentage above -100, e.g. 5 or -10');
+          return;
+        }
+        if (!confirm(`Change the price of ${count} product${count === 1 ? '' : 's'} by ${pct}%?`)) return;
+        await run('Price change', (product) => apiPatch(`/products/${product.id}/`, priceChangePatch(product, pct)));
+        return;
+      case 'discount':
+        if (!percent.trim() || !Number.isFinite(pct) || pct < 0 || pct >= 100) {
+          toast.error('Discount must be between 0 and 99%');
+          return;
+        }
+        if (!confirm(`Set a ${pct}% discount on ${count} product${count === 1 ? '' : 's'}?`)) return;
+        await run('Discount', (product) => apiPatch(`/products/${product.id}/`, discountPatch(product, pct)));
+        return;
+      case 'collection': {
+        const collection = collections.find((c) => String(c.id) === collectionId);
+        if (!collection) {
+          toast.error('Choose a collection');
+          return;
+        }
+        // Membership lives on the collection, so this is one request rather than one per product.
+        const merged = Array.from(new Set([...(collection.products || []), ...selected.map((p) => p.id)]));
+        setResult(null);
+        setProgress({ done: 0, total: 1 });
+        let failures: BulkFailure[] = [];
+        try {
+          await apiPatch(`/collections/${collection.id}/`, { products: merged });
+        } catch (error) {
+          failures = selected.map((p) => ({ id: p.id, name: p.name, message: describeBulkError(error) }));
+        }
+        setProgress({ done: 1, total: 1 });
+        await finish('Add to collection', failures);
+        return;
+      }
+      default:
+        toast.error('Choose a bulk action');
+    }
+  };
+
+  const closeReport = () => {
+    setProgress(null);
+    setResult(null);
+  };
+
+  const needsFlag = action === 'in_stock' || action === 'is_bestseller' || action === 'is_new';
+  const needsPercent = action === 'price_change' || action === 'discount';
+
+  return (
+    <>
+      {count > 0 && (
+        <Card className="border-primary/40 bg-primary/5">
+          <CardContent className="flex flex-wrap items-center gap-3 p-4">
+            <span className="text-sm font-medium text-espresso">{count} selected</span>
+            <select
+              className="rounded-md border border-input bg-white px-3 py-2 text-sm"
+              value={action}
+              onChange={(e) => setAction(e.target.value as BulkAction)}
+            >
+              <option value="">Bulk action...</option>
+              <option value="in_stock">Set stock status</option>
+              <option value="is_bestseller">Set bestseller</option>
+              <option value="is_new">Set new arrival</option>
+              <option value="move">Move to category</option>
+              <option value="price_change">Change price by %</option>
+              <option value="discount">Set discount %</option>
+              <option value="collection">Add to collection</option>
+              {can('catalog.delete') && <option value="delete">Delete</option>}
+            </select>
+
+            {needsFlag && (
+              <select
+                className="rounded-md border border-input bg-white px-3 py-2 text-sm"
+                value={flagValue}
+                onChange={(e) => setFlagValue(e.target.value)}
+              >
+                <option value="true">{action === 'in_stock' ? 'In stock' : 'Yes'}</option>
+                <option value="false">{action === 'in_stock' ? 'Out of stock' : 'No'}</option>
+              </select>
+            )}
+
+            {action === 'move' && (
+              <>
+                <select
+                  className="rounded-md border border-input bg-white px-3 py-2 text-sm"
+                  value={categoryId}
+                  onChange={(e) => {
+                    setCategoryId(e.target.value);
+                    setSubcategoryId('');
+                  }}
+                >
+                  <option value="">Select category</option>
+                  {categories.map((cat) => (
+                    <option key={cat.id} value={cat.id}>
+                      {cat.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="rounded-md border border-input bg-white px-3 py-2 text-sm"
+                  value={subcategoryId}
+                  onChange={(e) => setSubcategoryId(e.target.value)}
+                  disabled={subcategories.length === 0}
+                >
+                  <option value="">No subcategory</option>
+                  {subcategories.map((sub) => (
+                    <option key={sub.id} value={sub.id}>
+                      {sub.name}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+
+            {needsPercent && (
+              <Input
+                type="number"
+                className="w-32 bg-white"
+                placeholder={action === 'discount' ? 'e.g. 20' : 'e.g. -10'}
+                value={percent}
+                onChange={(e) => setPercent(e.target.value)}
+              />
+            )}
+
+            {action === 'collection' && (
+              <select
+                className="rounded-md border border-input bg-white px-3 py-2 text-sm"
+                value={collectionId}
+                onChange={(e) => setCollectionId(e.target.value)}
+              >
+                <option value="">Select collection</option>
+                {collections.map((collection) => (
+                  <option key={collection.id} value={collection.id}>
+                    {collection.name}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            <Button size="sm" onClick={handleApply} disabled={!action || isRunning}>
+              Apply
+            </Button>
+            <Button size="sm" variant="ghost" onClick={onClearSelection} disabled={isRunning}>
+              Clear selection
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Stays mounted after a fully successful run empties the selection, so the report is still shown. */}
+      {progress && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <Card className="w-full max-w-lg">
+            <CardHeader>
+              <CardTitle>{result ? `${result.label} finished` : 'Applying changes...'}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="h-2 w-full overflow-hidden rounded-full bg-gray-100">
+                <div
+                  className="h-full bg-primary transition-all"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }}
+                />
+              </div>
+              {!result && (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {progress.done} of {progress.total} products processed
+                </p>
+              )}
+              {result && result.failures.length === 0 && (
+                <p className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle2 className="h-4 w-4" />
+                  All {result.total} products done.
+                </p>
+              )}
+              {result && result.failures.length > 0 && (
+                <div className="space-y-2">
+                  <p className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    {result.failures.length} of {result.total} failed. They are still selected so you can retry.
+                  </p>
+                  <ul className="max-h-60 space-y-1 overflow-y-auto rounded-md border p-2 text-sm">
+                    {result.failures.map((failure) => (
+                      <li key={failure.id}>
+                        <span className="font-medium">{failure.name}</span>
+                        <span className="text-muted-foreground"> (#{failure.id})</span>
+                        <p className="whitespace-pre-line text-xs text-destructive">{failure.message}</p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {result && (
+                <div className="flex justify-end">
+                  <Button onClick={closeReport}>Close</Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ProductBulkActions;
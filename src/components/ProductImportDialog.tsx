@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle2, Loader2, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { apiPatch, apiPost } from '../lib/api';
+import { runBulk, type BulkFailure, type BulkProgress } from '../lib/bulkActions';
+import { analyzeProductCsv, type ImportAnalysis, type ImportRow, type ImportStatus } from '../lib/productImport';
+import { fetchAllProducts, useCategories, useFilterTypes, useInvalidate } from '../lib/queries';
+
+type ProductImportDialogProps = {
+  onClose: () => void;
+};
+
+type ImportResult = {
+  total: number;
+  failures: BulkFailure[];
+};
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  new: 'New',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+  invalid: 'Invalid',
+};
+
+const STATUS_STYLES: Record<ImportStatus, string> = {
+  new: 'bg-green-100 text-green-800',
+  changed: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+  invalid: 'bg-red-100 text-red-800',
+};
+
+const truncate = (value: string) => (value.length > 80 ? `${value.slice(0, 77)}...` : value || '(empty)');
+
+const ProductImportDialog = ({ onClose }: ProductImportDialogProps) => {
+  const invalidate = useInvalidate();
+  const { data: categories = [] } = useCategories();
+  const { data: filterTypes = [] } = useFilterTypes();
+  const [fileName, setFileName] = useState('');
+  const [analyzing, setAnalyzing] = useState(false);
+  const [analysis, setAnalysis] = useState<ImportAnalysis | null>(null);
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const rows = analysis?.rows || [];
+  const pending = rows.filter((row) => row.status === 'new' || row.status === 'changed');
+  const counts = rows.reduce(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { new: 0, changed: 0, unchanged: 0, invalid: 0 } as Record<ImportStatus, number>
+  );
+  const isApplying = progress !== null && result === null;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setAnalysis(null);
+    setProgress(null);
+    setResult(null);
+    setAnalyzing(true);
+    try {
+      // Compare against the whole catalog, not just the page the list happens to be showing.
+      const [text, products] = await Promise.all([file.text(), fetchAllProducts({ search: '', ordering: '', category: '' })]);
+      setAnalysis(analyzeProductCsv(text, { products, categories, filterTypes }));
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : 'Could not read the file');
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (pending.length === 0) return;
+    const created = pending.filter((row) => row.status === 'new').length;
+    const updated = pending.length - created;
+    if (!confirm(`Create ${created} and update ${updated} product${pending.length === 1 ? '' : 's'}?`)) return;
+
+    const items = pending.map((row) => ({ ...row, id: row.productId ?? -row.line }));
+    const failures = await runBulk(
+      items,
+      (row: ImportRow) =>
+        row.productId ? apiPatch(`/products/${row.productId}/`, row.payload) : apiPost('/products/', row.payload),
+      setProgress
+    );
+    setResult({ total: items.length, failures });
+    await invalidate('products');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Import products from CSV</CardTitle>
+          <Button variant="ghost" size="icon" onClick={onClose} disabled={isApplying}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4 overflow-y-auto">
+          <p className="text-sm text-muted-foreground">
+            Use the columns from Export CSV. Rows are matched by <code>id</code>, then <code>slug</code>; rows without
+            a match create new products. Only the columns in the file are changed. Nothing is saved until you apply.
+          </p>
+
+          <div className="flex items-center gap-3">
+            <label className="inline-flex">
+              <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} disabled={analyzing || isApplying} />
+              <span className="inline-flex cursor-pointer items-center rounded-md border border-input bg-white px-4 py-2 text-sm font-medium hover:bg-gray-50">
+                {analyzing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                Choose file
+              </span>
+            </label>
+            {fileName && <span className="text-sm text-muted-foreground">{fileName}</span>}
+          </div>
+
+          {analysis && (
+            <>
+              <div className="flex flex-wrap gap-2 text-sm">
+                {(Object.keys(STATUS_LABELS) as ImportStatus[]).map((status) => (
+                  <span key={status} className={`rounded-full px-3 py-1 ${STATUS_STYLES[status]}`}>
+                    {STATUS_LABELS[status]}: {counts[status]}
+                  </span>
+                ))}
+              </div>
+              {counts.invalid > 0 && (
+                <p className="text-xs text-destructive">Invalid rows are skipped when you apply.</p>
+              )}
+              {analysis.ignoredColumns.length > 0 && (
+                <p className="text-xs text-muted-foreground">Ignored columns: {analysis.ignoredColumns.join(', ')}</p>
+              )}
+              {rows.length === 0 && <p className="text-sm text-muted-foreground">The file has no product rows.</p>}
+              {rows.length > 0 && pending.length === 0 && counts.invalid === 0 && (
+                <p className="text-sm text-muted-foreground">Every row already matches the catalog.</p>
+              )}
+
+              <ul className="divide-y rounded-md border text-sm empty:hidden">
+                {rows
+                  .filter((row) => row.status !== 'unchanged')
+                  .map((row) => (
+                    <li key={row.line} className="space-y-1 p-3">
+                      <div className="flex items-center gap-2">
+                        <span className={`rounded px-2 py-0.5 text-xs ${STATUS_STYLES[row.status]}`}>
+                          {STATUS_LABELS[row.status]}
+                        </span>
+                        <span className="font-medium">{row.name}</span>
+                        <span className="text-muted-foreground">
+                          line {row.line}
+                          {row.productId ? ` · #${row.productId}` : ''}
+                        </span>
+                      </div>
+                      {row.errors.map((message) => (
+                        <p key={message} className="text-xs text-destructive">
+                          {message}
+                        </p>
+                      ))}
+                      {row.status === 'changed' &&
+                        row.changes.map((change) => (
+                          <p key={change.field} className="text-xs text-muted-foreground">
+                            <span className="font-medium text-espresso">{change.field}</span>: {truncate(change.before)} →{' '}
+                            {truncate(change.after)}
+                          </p>
+                        ))}
+                    </li>
+                  ))}
+              </ul>
+            </>
+          )}
+
+          {progress && (
+            <div className="space-y-2">
+              <div className="h-2 w-full overflow-hidden rounded-full bg-gray-100">
+                <div
+                  className="h-full bg-primary transition-all"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }}
+                />
+              </div>
+              {!result && (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {progress.done} of {progress.total} rows saved
+                </p>
+              )}
+              {result && result.failures.length === 0 && (
+                <p className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle2 className="h-4 w-4" />
+                  All {result.total} rows imported.
+                </p>
+              )}
+              {result && result.failures.length > 0 && (
+                <div className="space-y-2">
+                  <p className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    {result.failures.length} of {result.total} rows failed. Fix them in the file and import it again.
+                  </p>
+                  <ul className="max-h-60 space-y-1 overflow-y-auto rounded-md border p-2 text-sm">
+                    {result.failures.map((failure) => (
+                      <li key={failure.id}>
+                        <span className="font-medium">{failure.name}</span>
+                        <p className="whitespace-pre-line text-xs text-destructive">{failure.message}</p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose} disabled={isApplying}>
+              {result ? 'Close' : 'Cancel'}
+            </Button>
+            {!result && (
+              <Button onClick={handleApply} disabled={pending.length === 0 || isApplying}>
+                {isApplying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Apply {pending.length} change{pending.length === 1 ? '' : 's'}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ProductImportDialog;
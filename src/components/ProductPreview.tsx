@@ -0,0 +1,401 @@
+import { useState } from 'react';
+import { useWatch, type Control } from 'react-hook-form';
+import { Monitor, Smartphone, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { cn } from '../lib/utils';
+import { optionAppliesToSize, variantPrice } from '../lib/priceMatrix';
+import type { ProductFormValues } from '../lib/productSchema';
+
+export type PreviewDevice = 'desktop' | 'mobile';
+
+type ProductPreviewProps = {
+  control: Control<ProductFormValues>;
+  dimensionColumns: string[];
+  categoryName?: string;
+  device: PreviewDevice;
+  onDeviceChange: (device: PreviewDevice) => void;
+  onClose: () => void;
+};
+
+type InfoTab = { key: string; title: string; content: string };
+
+const formatPrice = (value: number) => `£${value.toFixed(2)}`;
+
+// Icons can be pasted as inline SVG markup; a data URL renders them without injecting markup into the page.
+const iconSrc = (icon?: string) => {
+  const value = (icon || '').trim();
+  if (!value) return '';
+  return value.startsWith('<svg') ? `data:image/svg+xml;utf8,${encodeURIComponent(value)}` : value;
+};
+
+const ProductPreview = ({ control, dimensionColumns, categoryName, device, onDeviceChange, onClose }: ProductPreviewProps) => {
+  const values = useWatch({ control });
+  const [imageUrl, setImageUrl] = useState('');
+  const [sizeName, setSizeName] = useState('');
+  const [styleChoices, setStyleChoices] = useState<Record<string, string>>({});
+  const [colorName, setColorName] = useState('');
+  const [fabricChoice, setFabricChoice] = useState('');
+  const [mattressName, setMattressName] = useState('');
+  const [tab, setTab] = useState('description');
+
+  const isMobile = device === 'mobile';
+  const images = (values.images || []).filter((image) => image?.url);
+  const sizes = (values.sizes || []).filter((size) => size?.name);
+  const colors = (values.colors || []).filter((color) => color?.name);
+  const fabrics = (values.fabrics || []).filter((fabric) => fabric?.name);
+  const mattresses = (values.mattresses || []).filter((mattress) => mattress?.name);
+
+  // Selections are stored by name and fall back to the first item, so edits in the form never leave them dangling.
+  const activeSize = sizes.find((size) => size.name === sizeName) || sizes[0];
+  const activeColor = colors.find((color) => color.name === colorName);
+  const activeMattress = mattresses.find((mattress) => mattress.name === mattressName);
+  const styles = (values.styles || [])
+    .filter((style) => style?.name)
+    .map((style) => ({
+      name: style.name || '',
+      icon_url: style.icon_url,
+      // Options limited to certain sizes only show up for those sizes, as on the storefront.
+      options: (style.options || []).filter((option) => option?.label && optionAppliesToSize(option, activeSize?.name || '')),
+    }))
+    .filter((style) => style.options.length > 0);
+  const activeStyleOptions = styles.map(
+    (style) => style.options.find((option) => option.label === styleChoices[style.name]) || style.options[0]
+  );
+
+  const colorImage = activeColor ? images.find((image) => image.color_name === activeColor.name) : undefined;
+  const mainImage = images.find((image) => image.url === imageUrl) || colorImage || images[0];
+
+  const basePrice = Number(values.price) || 0;
+  const extras =
+    Number(activeSize?.price_delta || 0) +
+    activeStyleOptions.reduce((sum, option) => sum + Number(option?.price_delta || 0), 0) +
+    Number(activeMattress?.price || 0);
+  const discount = Number(values.discount_percentage) || 0;
+  const { price: total, fullPrice: originalTotal } = variantPrice(basePrice, extras, discount);
+
+  const dimensionRows = (values.dimensions || []).filter((row) => row?.measurement);
+  const visibleColumns = dimensionColumns.filter((column) =>
+    dimensionRows.some((row) => (row.values?.[column] || '').trim())
+  );
+  const showDimensionTable = values.show_dimensions_table !== false && dimensionRows.length > 0 && visibleColumns.length > 0;
+
+  const tabs: InfoTab[] = [
+    { key: 'description', title: 'Description', content: values.description || '' },
+    { key: 'delivery', title: values.delivery_title || 'Delivery', content: values.delivery_info || '' },
+    { key: 'returns', title: values.returns_title || 'Returns & Guarantee', content: values.returns_guarantee || '' },
+    ...(values.custom_info_sections || []).map((section, index) => ({
+      key: `custom-${index}`,
+      title: section?.title || `Section ${index + 1}`,
+      content: section?.content || '',
+    })),
+  ].filter((item) => item.content.trim());
+  const activeTab = tabs.find((item) => item.key === tab) || tabs[0];
+  const faqs = (values.faqs || []).filter((faq) => faq?.question);
+
+  const renderChip = (label: string, isActive: boolean, onClick: () => void, extra?: string) => (
+    <button
+      key={label}
+      type="button"
+      onClick={onClick}
+      className={cn(
+        'rounded-md border px-3 py-1.5 text-xs',
+        isActive ? 'border-espresso bg-espresso text-ivory' : 'border-gray-300 bg-white text-espresso hover:border-espresso'
+      )}
+    >
+      {label}
+      {extra && <span className="ml-1 opacity-70">{extra}</span>}
+    </button>
+  );
+
+  const priceDelta = (delta?: number | null) => (delta ? ` ${delta > 0 ? '+' : '-'}£${Math.abs(delta)}` : undefined);
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between border-b px-4 py-3">
+        <span className="text-sm font-medium text-espresso">Storefront preview</span>
+        <div className="flex items-center gap-1">
+          <Button
+            type="button"
+            variant={device === 'desktop' ? 'secondary' : 'ghost'}
+            size="icon"
+            onClick={() => onDeviceChange('desktop')}
+            title="Desktop width"
+          >
+            <Monitor className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant={device === 'mobile' ? 'secondary' : 'ghost'}
+            size="icon"
+            onClick={() => onDeviceChange('mobile')}
+            title="Mobile width"
+          >
+            <Smartphone className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" onClick={onClose} title="Close preview">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto bg-gray-100 p-4">
+        <div className={cn('mx-auto space-y-6 bg-ivory p-4 shadow-sm', isMobile ? 'w-[375px]' : 'w-full')}>
+          <div className={cn('grid gap-6', !isMobile && 'grid-cols-2')}>
+            <div className="space-y-2">
+              <div className="aspect-square overflow-hidden rounded-md bg-white">
+                {mainImage?.url ? (
+                  <img src={mainImage.url} alt={values.name || 'Product image'} className="h-full w-full object-cover" />
+                ) : (
+                  <div className="flex h-full items-center justify-center text-xs text-muted-foreground">No images yet</div>
+                )}
+              </div>
+              {images.length > 1 && (
+                <div className="flex gap-2 overflow-x-auto">
+                  {images.map((image, index) => (
+                    <button
+                      key={`${image.url}-${index}`}
+                      type="button"
+                      onClick={() => setImageUrl(image.url || '')}
+                      className={cn(
+                        'h-14 w-14 shrink-0 overflow-hidden rounded border',
+                        image.url === mainImage?.url ? 'border-espresso' : 'border-transparent'
+                      )}
+                    >
+                      <img src={image.url || undefined} alt={`Thumbnail ${index + 1}`} className="h-full w-full object-cover" />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                {categoryName && <p className="text-xs uppercase tracking-wider text-muted-foreground">{categoryName}</p>}
+                <h1 className="text-2xl font-serif font-bold text-espresso">{values.name || 'Untitled product'}</h1>
+                {values.short_description && <p className="mt-1 text-sm text-muted-foreground">{values.short_description}</p>}
+              </div>
+
+              <div className="flex items-baseline gap-2">
+                <span className="text-2xl font-semibold text-espresso">{formatPrice(total)}</span>
+                {originalTotal !== null && (
+                  <>
+                    <span className="text-sm text-muted-foreground line-through">{formatPrice(originalTotal)}</span>
+                    <span className="rounded bg-red-100 px-1.5 py-0.5 text-xs text-red-700">-{discount}%</span>
+                  </>
+                )}
+              </div>
+
+              {sizes.length > 0 && (
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium uppercase tracking-wider">Size: {activeSize?.name}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {sizes.map((size) =>
+                      renderChip(size.name || '', size.name === activeSize?.name, () => setSizeName(size.name || ''), priceDelta(size.price_delta))
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {styles.map((style, index) => (
+                <div key={style.name} className="space-y-1.5">
+                  <p className="flex items-center gap-1.5 text-xs font-medium uppercase tracking-wider">
+                    {iconSrc(style.icon_url) && <img src={iconSrc(style.icon_url)} alt="" className="h-4 w-4" />}
+                    {style.name}: {activeStyleOptions[index]?.label}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {style.options.map((option) => (
+                      <button
+                        key={option.label}
+                        type="button"
+                        onClick={() => setStyleChoices((prev) => ({ ...prev, [style.name]: option.label || '' }))}
+                        className={cn(
+                          'flex items-center gap-1.5 rounded-md border px-2 py-1.5 text-xs',
+                          option.label === activeStyleOptions[index]?.label
+                            ? 'border-espresso bg-espresso/5'
+                            : 'border-gray-300 bg-white hover:border-espresso'
+                        )}
+                      >
+                        {iconSrc(option.icon_url) && <img src={iconSrc(option.icon_url)} alt="" className="h-6 w-6" />}
+                        {option.label}
+                        {priceDelta(option.price_delta) && <span className="opacity-70">{priceDelta(option.price_delta)}</span>}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              {colors.length > 0 && (
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium uppercase tracking-wider">Colour: {activeColor?.name || 'Choose'}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {colors.map((color) => (
+                      <button
+                        key={color.name}
+                        type="button"
+                        title={color.name}
+                        onClick={() => setColorName(color.name || '')}
+                        className={cn(
+                          'h-8 w-8 rounded-full border-2',
+                          color.name === activeColor?.name ? 'border-espresso' : 'border-white shadow'
+                        )}
+                        style={
+                          color.image_url
+                            ? { backgroundImage: `url(${color.image_url})`, backgroundSize: 'cover' }
+                            : { backgroundColor: color.hex_code || '#000000' }
+                        }
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {fabrics.length > 0 && (
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium uppercase tracking-wider">Fabric: {fabricChoice || 'Choose'}</p>
+                  <div className="space-y-2">
+                    {fabrics.map((fabric) => (
+                      <div key={fabric.name} className="space-y-1">
+                        <p className="text-xs text-muted-foreground">{fabric.name}</p>
+                        <div className="flex flex-wrap gap-1.5">
+                          {(fabric.colors || []).filter((color) => color?.name).length > 0
+                            ? (fabric.colors || [])
+                                .filter((color) => color?.name)
+                                .map((color) => {
+                                  const label = `${fabric.name} - ${color.name}`;
+                                  return (
+                                    <button
+                                      key={label}
+                                      type="button"
+                                      title={label}
+                                      onClick={() => setFabricChoice(label)}
+                                      className={cn(
+                                        'h-7 w-7 rounded-full border-2',
+                                        fabricChoice === label ? 'border-espresso' : 'border-white shadow'
+                                      )}
+                                      style={
+                                        color.image_url
+                                          ? { backgroundImage: `url(${color.image_url})`, backgroundSize: 'cover' }
+                                          : { backgroundColor: color.hex_code || '#cccccc' }
+                                      }
+                                    />
+                                  );
+                                })
+                            : renderChip(fabric.name || '', fabricChoice === fabric.name, () => setFabricChoice(fabric.name || ''))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {mattresses.length > 0 && (
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium uppercase tracking-wider">Mattress</p>
+                  <div className="space-y-1.5">
+                    {renderChip('No mattress', !activeMattress, () => setMattressName(''))}
+                    {mattresses.map((mattress) => (
+                      <button
+                        key={mattress.name}
+                        type="button"
+                        onClick={() => setMattressName(mattress.name || '')}
+                        className={cn(
+                          'flex w-full items-center gap-3 rounded-md border bg-white p-2 text-left text-xs',
+                          mattress.name === activeMattress?.name ? 'border-espresso' : 'border-gray-300'
+                        )}
+                      >
+                        {mattress.image_url && <img src={mattress.image_url} alt="" className="h-10 w-10 rounded object-cover" />}
+                        <span className="flex-1">
+                          <span className="block font-medium">{mattress.name}</span>
+                          {mattress.enable_bunk_positions && (
+                            <span className="block text-muted-foreground">Top, bottom or both bunks</span>
+                          )}
+                        </span>
+                        {mattress.price != null && <span>+£{Number(mattress.price).toFixed(2)}</span>}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <button type="button" className="w-full rounded-md bg-espresso py-3 text-sm font-medium text-ivory" disabled>
+                Add to basket
+              </button>
+            </div>
+          </div>
+
+          {tabs.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-4 border-b">
+                {tabs.map((item) => (
+                  <button
+                    key={item.key}
+                    type="button"
+                    onClick={() => setTab(item.key)}
+                    className={cn(
+                      '-mb-px border-b-2 pb-2 text-sm',
+                      item.key === activeTab?.key ? 'border-espresso font-medium text-espresso' : 'border-transparent text-muted-foreground'
+                    )}
+                  >
+                    {item.title}
+                  </button>
+                ))}
+              </div>
+              {activeTab && <p className="whitespace-pre-line text-sm text-espresso/80">{activeTab.content}</p>}
+            </div>
+          )}
+
+          {(showDimensionTable || values.dimension_paragraph) && (
+            <div className="space-y-2">
+              <h2 className="font-serif text-lg font-semibold text-espresso">Dimensions</h2>
+              {values.dimension_paragraph && (
+                <p className="whitespace-pre-line text-sm text-espresso/80">{values.dimension_paragraph}</p>
+              )}
+              {showDimensionTable && (
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse text-xs">
+                    <thead>
+                      <tr>
+                        <th className="border bg-white p-2 text-left">Measurement</th>
+                        {visibleColumns.map((column) => (
+                          <th key={column} className="border bg-white p-2 text-left">
+                            {column}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {dimensionRows.map((row, index) => (
+                        <tr key={`${row.measurement}-${index}`}>
+                          <td className="border p-2 font-medium">{row.measurement}</td>
+                          {visibleColumns.map((column) => (
+                            <td key={column} className="border p-2">
+                              {row.values?.[column] || '-'}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          {faqs.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="font-serif text-lg font-semibold text-espresso">FAQs</h2>
+              {faqs.map((faq, index) => (
+                <details key={`${faq.question}-${index}`} className="rounded-md border bg-white p-3 text-sm">
+                  <summary className="cursor-pointer font-medium">{faq.question}</summary>
+                  <p className="mt-2 whitespace-pre-line text-espresso/80">{faq.answer}</p>
+                </details>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductPreview;
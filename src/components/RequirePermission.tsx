@@ -0,0 +1,50 @@
+import type { ReactNode } from 'react';
+import { AlertCircle, Loader2, RotateCcw, ShieldOff } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { useAuth } from '../lib/auth';
+import type { Permission } from '../lib/permissions';
+
+const RequirePermission = ({ permission, children }: { permission: Permission; children: ReactNode }) => {
+  const { can, isLoadingPermissions, permissionsFailed, retryPermissions } = useAuth();
+
+  if (isLoadingPermissions) {
+    return (
+      <div className="flex items-center justify-center py-10 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Checking access...
+      </div>
+    );
+  }
+
+  if (permissionsFailed) {
+    return (
+      <Card className="mx-auto max-w-lg">
+        <CardContent className="flex flex-col items-center gap-3 py-10 text-center">
+          <AlertCircle className="h-8 w-8 text-destructive" />
+          <p className="font-medium text-espresso">We couldn't check your access.</p>
+          <p className="text-sm text-muted-foreground">Your permissions failed to load. Check your connection and try again.</p>
+          <Button variant="outline" onClick={retryPermissions}>
+            <RotateCcw className="h-4 w-4 mr-2" /> Retry
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!can(permission)) {
+    return (
+      <Card className="mx-auto max-w-lg">
+        <CardContent className="flex flex-col items-center gap-3 py-10 text-center">
+          <ShieldOff className="h-8 w-8 text-muted-foreground" />
+          <p className="font-medium text-espresso">You don't have access to this page.</p>
+          <p className="text-sm text-muted-foreground">Ask the store owner to grant your account the required role.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequirePermission;
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode, type RefObject } from 'react';
+import { useBlocker } from 'react-router-dom';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { UnsavedChangesContext, type UnsavedChangesGuard } from '../lib/unsavedChanges';
+
+const UnsavedChangesProvider = ({ children }: { children: ReactNode }) => {
+  const guards = useRef(new Set<RefObject<UnsavedChangesGuard>>());
+  const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const getDirtyGuards = useCallback(() => Array.from(guards.current).filter((guard) => guard.current.isDirty()), []);
+
+  // Query-string changes stay on the same page, and a session ending must always reach the login screen.
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) =>
+      currentLocation.pathname !== nextLocation.pathname &&
+      nextLocation.pathname !== '/login' &&
+      getDirtyGuards().length > 0
+  );
+
+  useEffect(() => {
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (getDirtyGuards().length === 0) return;
+      event.preventDefault();
+      // Older browsers only show the prompt when returnValue is set.
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [getDirtyGuards]);
+
+  const register = useCallback((guard: RefObject<UnsavedChangesGuard>) => {
+    guards.current.add(guard);
+    return () => {
+      guards.current.delete(guard);
+    };
+  }, []);
+
+  const confirmLeave = useCallback(
+    (action: () => void) => {
+      if (getDirtyGuards().length === 0) {
+        action();
+      } else {
+        setPendingAction(() => action);
+      }
+    },
+    [getDirtyGuards]
+  );
+
+  const value = useMemo(() => ({ register, confirmLeave }), [register, confirmLeave]);
+
+  const isBlocked = blocker.state === 'blocked';
+
+  const stay = () => {
+    if (isBlocked) blocker.reset();
+    setPendingAction(null);
+  };
+
+  const leave = () => {
+    if (isBlocked) blocker.proceed();
+    pendingAction?.();
+    setPendingAction(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      for (const guard of getDirtyGuards()) {
+        if (!(await guard.current.save())) {
+          stay();
+          return;
+        }
+      }
+    } finally {
+      setIsSaving(false);
+    }
+    leave();
+  };
+
+  const handleDiscard = () => {
+    getDirtyGuards().forEach((guard) => guard.current.discard?.());
+    leave();
+  };
+
+  return (
+    <UnsavedChangesContext.Provider value={value}>
+      {children}
+      {(isBlocked || pendingAction) && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60] p-4">
+          <Card className="w-full max-w-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-amber-600" />
+                Unsaved changes
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                You have changes that haven't been saved. Save them before leaving, or discard them?
+              </p>
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" onClick={stay} disabled={isSaving}>
+                  Stay
+                </Button>
+                <Button variant="outline" onClick={handleDiscard} disabled={isSaving}>
+                  Discard
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving}>
+                  {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </UnsavedChangesContext.Provider>
+  );
+};
+
+export default UnsavedChangesProvider;
@@ -0,0 +1,320 @@
+import { useCallback, useMemo, useRef, useState, type ReactNode } from 'react';
+import { toast } from 'sonner';
+import { AlertCircle, CheckCircle2, ChevronDown, ChevronUp, Loader2, RotateCcw, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { apiUpload, isUploadCancelled } from '../lib/api';
+import { describeBulkError } from '../lib/bulkActions';
+import { describeOptimization, optimizeImage, type OptimizedImage } from '../lib/imageOptimization';
+import {
+  MAX_UPLOAD_ATTEMPTS,
+  UploadQueueContext,
+  isFinished,
+  isRetryableUploadError,
+  retryDelay,
+  type UploadItem,
+  type UploadResult,
+  type UploadStatus,
+} from '../lib/uploadQueue';
+import { cn } from '../lib/utils';
+
+// Shared by every page, so a large product gallery can't hog the connection for long.
+const UPLOAD_CONCURRENCY = 3;
+
+type FinalStatus = Extract<UploadStatus, 'done' | 'failed' | 'cancelled'>;
+
+type UploadJob = {
+  file: File;
+  owner: string;
+  // Cleared when the owner unmounts.
+  onUploaded?: (result: UploadResult) => void;
+  controller: AbortController;
+  // Kept across retries so the image is only resized once.
+  optimized?: OptimizedImage;
+  // Settles the enqueue() promise; cleared after the first outcome so panel retries don't call it again.
+  settle?: (status: FinalStatus) => void;
+};
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const UploadQueueProvider = ({ children }: { children: ReactNode }) => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const jobs = useRef(new Map<string, UploadJob>());
+  const waiting = useRef<string[]>([]);
+  const activeWorkers = useRef(0);
+  const nextId = useRef(0);
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const finish = useCallback(
+    (id: string, status: FinalStatus, error?: string) => {
+      updateItem(id, { status, error });
+      const job = jobs.current.get(id);
+      job?.settle?.(status);
+      if (job) job.settle = undefined;
+    },
+    [updateItem]
+  );
+
+  const runJob = useCallback(
+    async (id: string) => {
+      const job = jobs.current.get(id);
+      if (!job) return;
+      const { signal } = job.controller;
+      let attempts = 0;
+      try {
+        if (!job.optimized) {
+          job.optimized = await optimizeImage(job.file);
+          updateItem(id, { size: job.optimized.size });
+        }
+        const optimized = job.optimized;
+        for (;;) {
+          attempts += 1;
+          updateItem(id, { status: 'uploading', progress: 0, attempts, error: undefined });
+          try {
+            const res = await apiUpload('/uploads/', optimized.file, {
+              signal,
+              onProgress: (progress) => updateItem(id, { progress }),
+            });
+            // The owner may have closed between the last progress event and the response.
+            if (!job.onUploaded) {
+              finish(id, 'cancelled');
+              return;
+            }
+            updateItem(id, { progress: 1 });
+            job.onUploaded({ ...optimized, url: res.url });
+            finish(id, 'done');
+            return;
+          } catch (error) {
+            if (isUploadCancelled(error) || attempts >= MAX_UPLOAD_ATTEMPTS || !isRetryableUploadError(error)) throw error;
+            updateItem(id, { status: 'retrying', error: describeBulkError(error) });
+            await wait(retryDelay(attempts), signal);
+          }
+        }
+      } catch (error) {
+        if (isUploadCancelled(error)) {
+          finish(id, 'cancelled');
+        } else {
+          finish(id, 'failed', describeBulkError(error));
+        }
+      }
+    },
+    [updateItem, finish]
+  );
+
+  // Each worker keeps pulling from the shared queue until it is empty.
+  const drain = useCallback(async () => {
+    activeWorkers.current += 1;
+    try {
+      for (let id = waiting.current.shift(); id; id = waiting.current.shift()) {
+        await runJob(id);
+      }
+    } finally {
+      activeWorkers.current -= 1;
+    }
+  }, [runJob]);
+
+  const schedule = useCallback(
+    (ids: string[]) => {
+      waiting.current.push(...ids);
+      const idle = Math.min(UPLOAD_CONCURRENCY - activeWorkers.current, waiting.current.length);
+      for (let i = 0; i < idle; i += 1) {
+        void drain();
+      }
+    },
+    [drain]
+  );
+
+  const enqueue = useCallback(
+    async (files: File[], onUploaded: (result: UploadResult) => void, owner: string) => {
+      const entries = files.map((file) => ({ id: `upload-${(nextId.current += 1)}`, file }));
+      const outcomes = entries.map(
+        ({ id, file }) =>
+          new Promise<FinalStatus>((resolve) => {
+            jobs.current.set(id, { file, owner, onUploaded, controller: new AbortController(), settle: resolve });
+          })
+      );
+      setItems((prev) => [
+        ...prev,
+        ...entries.map(({ id, file }) => ({
+          id,
+          name: file.name,
+          status: 'queued' as const,
+          progress: 0,
+          attempts: 0,
+          originalSize: file.size,
+          size: file.size,
+        })),
+      ]);
+      setIsCollapsed(false);
+      schedule(entries.map(({ id }) => id));
+
+      const statuses = await Promise.all(outcomes);
+      const summary = {
+        uploaded: statuses.filter((status) => status === 'done').length,
+        failed: entries.filter((_, index) => statuses[index] === 'failed').map(({ file }) => file.name),
+        cancelled: statuses.filter((status) => status === 'cancelled').length,
+      };
+      if (summary.failed.length > 0) {
+        toast.error(
+          `${summary.failed.length} of ${files.length} upload${files.length === 1 ? '' : 's'} failed: ${summary.failed.join(', ')}. Retry from the uploads panel.`
+        );
+      }
+      return summary;
+    },
+    [schedule]
+  );
+
+  const cancelJob = useCallback(
+    (id: string) => {
+      const job = jobs.current.get(id);
+      if (!job) return;
+      if (waiting.current.includes(id)) {
+        waiting.current = waiting.current.filter((waitingId) => waitingId !== id);
+        finish(id, 'cancelled');
+        return;
+      }
+      job.controller.abort();
+    },
+    [finish]
+  );
+
+  const release = useCallback(
+    (owner: string) => {
+      const owned = Array.from(jobs.current.entries()).filter(([, job]) => job.owner === owner);
+      if (owned.length === 0) return;
+      owned.forEach(([id, job]) => {
+        job.onUploaded = undefined;
+        cancelJob(id);
+      });
+      const ids = new Set(owned.map(([id]) => id));
+      setItems((prev) => prev.map((item) => (ids.has(item.id) && item.status !== 'done' ? { ...item, orphaned: true } : item)));
+    },
+    [cancelJob]
+  );
+
+  const handleRetry = (ids: string[]) => {
+    ids.forEach((id) => {
+      const job = jobs.current.get(id);
+      if (job) job.controller = new AbortController();
+      updateItem(id, { status: 'queued', progress: 0, error: undefined });
+    });
+    schedule(ids);
+  };
+
+  const handleClearFinished = () => {
+    items.filter((item) => isFinished(item.status)).forEach((item) => jobs.current.delete(item.id));
+    setItems((prev) => prev.filter((item) => !isFinished(item.status)));
+  };
+
+  const value = useMemo(() => ({ enqueue, release }), [enqueue, release]);
+
+  const activeCount = items.filter((item) => !isFinished(item.status)).length;
+  const failedIds = items.filter((item) => item.status === 'failed' && !item.orphaned).map((item) => item.id);
+
+  return (
+    <UploadQueueContext.Provider value={value}>
+      {children}
+      {items.length > 0 && (
+        <Card className="fixed bottom-4 right-4 z-40 w-96 shadow-lg">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 py-3">
+            <CardTitle className="flex items-center gap-2 text-base">
+              {activeCount > 0 && <Loader2 className="h-4 w-4 animate-spin" />}
+              {activeCount > 0 ? `Uploading ${activeCount} file${activeCount === 1 ? '' : 's'}` : 'Uploads'}
+            </CardTitle>
+            <div className="flex items-center gap-1">
+              {activeCount < items.length && (
+                <Button variant="ghost" size="sm" onClick={handleClearFinished}>
+                  Clear finished
+                </Button>
+              )}
+              <Button variant="ghost" size="icon" onClick={() => setIsCollapsed((prev) => !prev)}>
+                {isCollapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              </Button>
+            </div>
+          </CardHeader>
+          {!isCollapsed && (
+            <CardContent className="space-y-3 pb-4">
+              {failedIds.length > 0 && (
+                <div className="flex items-center justify-between rounded-md border border-destructive/30 bg-destructive/5 p-2 text-sm text-destructive">
+                  <span className="flex items-center gap-1">
+                    <AlertCircle className="h-4 w-4" />
+                    {failedIds.length} failed
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => handleRetry(failedIds)}>
+                    <RotateCcw className="h-4 w-4 mr-1" /> Retry failed
+                  </Button>
+                </div>
+              )}
+              <div className="max-h-72 space-y-3 overflow-y-auto">
+                {items.map((item) => (
+                  <div key={item.id} className="space-y-1">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="flex-1 truncate" title={item.name}>
+                        {item.name}
+                      </span>
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {describeOptimization({ ...item, optimized: item.size !== item.originalSize })}
+                      </span>
+                      {item.status === 'done' && <CheckCircle2 className="h-4 w-4 shrink-0 text-emerald-600" />}
+                      {!isFinished(item.status) && (
+                        <button type="button" title="Cancel upload" onClick={() => cancelJob(item.id)}>
+                          <X className="h-4 w-4 text-muted-foreground hover:text-foreground" />
+                        </button>
+                      )}
+                      {(item.status === 'failed' || item.status === 'cancelled') && !item.orphaned && (
+                        <button type="button" title="Retry upload" onClick={() => handleRetry([item.id])}>
+                          <RotateCcw className="h-4 w-4 text-muted-foreground hover:text-foreground" />
+                        </button>
+                      )}
+                    </div>
+                    {!isFinished(item.status) && (
+                      <div className="h-1.5 overflow-hidden rounded-full bg-gray-100">
+                        <div
+                          className={cn('h-full bg-primary transition-all', item.status === 'retrying' && 'bg-amber-500')}
+                          style={{ width: `${Math.round(item.progress * 100)}%` }}
+                        />
+                      </div>
+                    )}
+                    <p
+                      className={cn(
+                        'text-xs text-muted-foreground',
+                        item.status === 'failed' && 'text-destructive',
+                        item.status === 'retrying' && 'text-amber-700'
+                      )}
+                    >
+                      {item.status === 'queued' && 'Waiting...'}
+                      {item.status === 'uploading' &&
+                        `${Math.round(item.progress * 100)}%${item.attempts > 1 ? ` (attempt ${item.attempts} of ${MAX_UPLOAD_ATTEMPTS})` : ''}`}
+                      {item.status === 'retrying' && `${item.error}. Retrying...`}
+                      {item.status === 'done' && 'Uploaded'}
+                      {item.orphaned && 'Discarded: the page it was for was closed'}
+                      {item.status === 'failed' && !item.orphaned && item.error}
+                      {item.status === 'cancelled' && !item.orphaned && 'Cancelled'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          )}
+        </Card>
+      )}
+    </UploadQueueContext.Provider>
+  );
+};
+
+export default UploadQueueProvider;
@@ -1,92 +1,267 @@
+import { clearCredentials, getAccessToken, getRefreshToken, setAccessToken, setRefreshToken } from "./auth";
+
 const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL ||
   "https://level-antoinette-sagiyqwgey-311e9cc7.koyeb.app/api";
 
-const getAuthToken = () => localStorage.getItem("admin_token");
+const SESSION_EXPIRED_KEY = "admin_session_expired";
+
+const LOGIN_PATH = "/login/";
+const REFRESH_PATH = "/token/refresh/";
 
 const buildHeaders = (hasBody: boolean) => {
   const headers: Record<string, string> = {};
   if (hasBody) {
     headers["Content-Type"] = "application/json";
   }
-  const token = getAuthToken();
+  const token = getAccessToken();
   if (token) {
     headers.Authorization = `Bearer ${token}`;
   }
   return headers;
 };
 
+export type ApiFieldErrors = Record<string, string[]>;
+
+// Carries the parsed response so pages can show DRF-style `{field: [msg]}` errors next to the inputs.
+export class ApiError extends Error {
+  status: number;
+  body: unknown;
+  fieldErrors: ApiFieldErrors;
+
+  constructor(status: number, body: unknown, fieldErrors: ApiFieldErrors, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// Keys that describe the request as a whole rather than a single input.
+const GENERAL_ERROR_KEYS = new Set(["detail", "non_field_errors", "message", "error"]);
+
+const toMessages = (value: unknown): string[] => {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) return value as string[];
+  return [];
+};
+
+// Flattens nested serializer errors, e.g. `{sizes: [{}, {name: ["Required"]}]}` becomes `sizes.1.name`.
+const flattenFieldErrors = (value: unknown, prefix: string, into: ApiFieldErrors) => {
+  const messages = toMessages(value);
+  if (messages.length > 0) {
+    if (prefix) into[prefix] = [...(into[prefix] || []), ...messages];
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenFieldErrors(item, prefix ? `${prefix}.${index}` : String(index), into));
+    return;
+  }
+  if (value && typeof value === "object") {
+    Object.entries(value as Record<string, unknown>).forEach(([key, nested]) => {
+      if (!prefix && GENERAL_ERROR_KEYS.has(key)) return;
+      flattenFieldErrors(nested, prefix ? `${prefix}.${key}` : key, into);
+    });
+  }
+};
+
+const toApiError = async (res: Response): Promise<ApiError> => {
+  const text = await res.text();
+  let body: unknown = text;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Plain-text or HTML error pages are kept as-is.
+  }
+
+  const fieldErrors: ApiFieldErrors = {};
+  flattenFieldErrors(body, "", fieldErrors);
+
+  const general =
+    body && typeof body === "object" && !Array.isArray(body)
+      ? Array.from(GENERAL_ERROR_KEYS).flatMap((key) => toMessages((body as Record<string, unknown>)[key]))
+      : [];
+  const fieldSummary = Object.entries(fieldErrors).map(([field, messages]) => `${field}: ${messages.join(" ")}`);
+  const message =
+    [...general, ...fieldSummary].join("\n") ||
+    (typeof body === "string" && body.trim()) ||
+    `Request failed with status ${res.status}`;
+
+  return new ApiError(res.status, body, fieldErrors, message);
+};
+
+export const getFieldErrors = (error: unknown): ApiFieldErrors =>
+  error instanceof ApiError ? error.fieldErrors : {};
+
+// Shared across callers so concurrent 401s wait on a single refresh round-trip.
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refresh = getRefreshToken();
+      if (!refresh) return null;
+      try {
+        const res = await fetch(`${API_BASE_URL}${REFRESH_PATH}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refresh }),
+        });
+        if (!res.ok) return null;
+        const payload = await res.json();
+        if (typeof payload?.access !== "string" || !payload.access) return null;
+        setAccessToken(payload.access);
+        // Backends with refresh rotation hand back a new refresh token as well.
+        if (typeof payload?.refresh === "string" && payload.refresh) {
+          setRefreshToken(payload.refresh);
+        }
+        return payload.access as string;
+      } catch {
+        return null;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+const expireSession = () => {
+  clearCredentials();
+  sessionStorage.setItem(SESSION_EXPIRED_KEY, "true");
+  window.location.assign("/login");
+};
+
+export const hasSessionExpired = () => sessionStorage.getItem(SESSION_EXPIRED_KEY) === "true";
+
+export const clearSessionExpired = () => sessionStorage.removeItem(SESSION_EXPIRED_KEY);
+
+// `send` must read the token afresh on each call so the retry after a refresh uses the new one.
+const withTokenRefresh = async (path: string, send: () => Promise<Response>): Promise<Response> => {
+  // Hold new requests back while a refresh is in flight so they go out with the new token.
+  if (refreshPromise) {
+    await refreshPromise;
+  }
+  const res = await send();
+  if (res.status !== 401 || path === LOGIN_PATH || path === REFRESH_PATH || !getRefreshToken()) {
+    return res;
+  }
+
+  const access = await refreshAccessToken();
+  if (!access) {
+    expireSession();
+    return res;
+  }
+  return send();
+};
+
+const request = (path: string, init: RequestInit, hasBody: boolean): Promise<Response> =>
+  withTokenRefresh(path, () =>
+    fetch(`${API_BASE_URL}${path}`, {
+      ...init,
+      headers: buildHeaders(hasBody),
+    })
+  );
+
 export const apiGet = async <T>(path: string): Promise<T> => {
-  const res = await fetch(`${API_BASE_URL}${path}`, {
-    headers: buildHeaders(false),
-  });
+  const res = await request(path, {}, false);
   if (!res.ok) {
-    throw new Error(await res.text());
+    throw await toApiError(res);
   }
   return res.json();
 };
 
 export const apiPost = async <T>(path: string, body: unknown): Promise<T> => {
-  const res = await fetch(`${API_BASE_URL}${path}`, {
-    method: "POST",
-    headers: buildHeaders(true),
-    body: JSON.stringify(body),
-  });
+  const res = await request(
+    path,
+    {
+      method: "POST",
+      body: JSON.stringify(body),
+    },
+    true
+  );
   if (!res.ok) {
-    throw new Error(await res.text());
+    throw await toApiError(res);
   }
   return res.json();
 };
 
 export const apiPut = async <T>(path: string, body: unknown): Promise<T> => {
-  const res = await fetch(`${API_BASE_URL}${path}`, {
-    method: "PUT",
-    headers: buildHeaders(true),
-    body: JSON.stringify(body),
-  });
+  const res = await request(
+    path,
+    {
+      method: "PUT",
+      body: JSON.stringify(body),
+    },
+    true
+  );
   if (!res.ok) {
-    throw new Error(await res.text());
+    throw await toApiError(res);
   }
   return res.json();
 };
 
 export const apiPatch = async <T>(path: string, body: unknown): Promise<T> => {
-  const res = await fetch(`${API_BASE_URL}${path}`, {
-    method: "PATCH",
-    headers: buildHeaders(true),
-    body: JSON.stringify(body),
-  });
+  const res = await request(
+    path,
+    {
+      method: "PATCH",
+      body: JSON.stringify(body),
+    },
+    true
+  );
   if (!res.ok) {
-    throw new Error(await res.text());
+    throw await toApiError(res);
   }
   return res.json();
 };
 
 export const apiDelete = async (path: string): Promise<void> => {
-  const res = await fetch(`${API_BASE_URL}${path}`, {
-    method: "DELETE",
-    headers: buildHeaders(false),
-  });
+  const res = await request(path, { method: "DELETE" }, false);
   if (!res.ok) {
-    throw new Error(await res.text());
+    throw await toApiError(res);
   }
 };
 
-export const apiUpload = async (path: string, file: File): Promise<{ url: string }> => {
+export type UploadOptions = {
+  // Fraction of the file sent so far, 0-1.
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+};
+
+const uploadCancelled = () => new DOMException("Upload cancelled", "AbortError");
+
+export const isUploadCancelled = (error: unknown) => error instanceof DOMException && error.name === "AbortError";
+
+// fetch can't report upload progress, so uploads go over XHR. The result is wrapped in a Response
+// so token refresh and error parsing work the same as for every other call.
+const sendUpload = (path: string, formData: FormData, { onProgress, signal }: UploadOptions) =>
+  new Promise<Response>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(uploadCancelled());
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${API_BASE_URL}${path}`);
+    // No JSON content type here: the browser sets the multipart boundary itself.
+    Object.entries(buildHeaders(false)).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () => resolve(new Response(xhr.responseText || null, { status: xhr.status }));
+    xhr.onerror = () => reject(new TypeError("Network error during upload"));
+    xhr.onabort = () => reject(uploadCancelled());
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    xhr.send(formData);
+  });
+
+export const apiUpload = async (path: string, file: File, options: UploadOptions = {}): Promise<{ url: string }> => {
   const formData = new FormData();
   formData.append("file", file);
-  const token = getAuthToken();
-  const headers: Record<string, string> = {};
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-  const res = await fetch(`${API_BASE_URL}${path}`, {
-    method: "POST",
-    headers: headers,
-    body: formData,
-  });
+  const res = await withTokenRefresh(path, () => sendUpload(path, formData, options));
   if (!res.ok) {
-    throw new Error(await res.text());
+    throw await toApiError(res);
   }
   const payload = await res.json();
   const url =
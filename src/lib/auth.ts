@@ -0,0 +1,137 @@
+import { createContext, useContext } from "react";
+import type { AdminRole, Permission } from "./permissions";
+
+const ACCESS_TOKEN_KEY = "admin_token";
+const REFRESH_TOKEN_KEY = "admin_refresh";
+const USERNAME_KEY = "admin_username";
+// Older builds kept a plain flag instead of validating the token; cleared on logout.
+const LEGACY_LOGGED_IN_KEY = "isLoggedIn";
+
+// Treat tokens as expired slightly early so a request never leaves with a token that dies in flight.
+const EXPIRY_SKEW_MS = 30 * 1000;
+
+// Sessions without "Remember me" sign out after this long without keyboard or pointer activity.
+export const IDLE_TIMEOUT_MS = 20 * 60 * 1000;
+
+export type AuthTokens = {
+  access: string;
+  refresh: string;
+};
+
+export type TokenClaims = {
+  exp?: number;
+  user_id?: number | string;
+  username?: string;
+};
+
+export type AdminUser = {
+  id: number | null;
+  username: string;
+};
+
+export type AuthSession = {
+  user: AdminUser;
+  expiresAt: number | null;
+  remember: boolean;
+};
+
+export type AuthContextValue = {
+  session: AuthSession | null;
+  user: AdminUser | null;
+  isAuthenticated: boolean;
+  roles: AdminRole[];
+  permissions: Set<Permission>;
+  isLoadingPermissions: boolean;
+  // The profile request failed; nothing is permitted until `retryPermissions` succeeds.
+  permissionsFailed: boolean;
+  retryPermissions: () => void;
+  can: (permission: Permission) => boolean;
+  login: (tokens: AuthTokens, username: string, remember: boolean) => void;
+  logout: () => void;
+};
+
+// "Remember me" keeps tokens in localStorage; otherwise they live in sessionStorage and die with the tab.
+const getTokenStorage = (): Storage | null => {
+  if (sessionStorage.getItem(REFRESH_TOKEN_KEY) || sessionStorage.getItem(ACCESS_TOKEN_KEY)) return sessionStorage;
+  if (localStorage.getItem(REFRESH_TOKEN_KEY) || localStorage.getItem(ACCESS_TOKEN_KEY)) return localStorage;
+  return null;
+};
+
+export const isRemembered = () => getTokenStorage() === localStorage;
+
+export const getAccessToken = () => getTokenStorage()?.getItem(ACCESS_TOKEN_KEY) ?? null;
+export const getRefreshToken = () => getTokenStorage()?.getItem(REFRESH_TOKEN_KEY) ?? null;
+
+export const setAccessToken = (access: string) => (getTokenStorage() || sessionStorage).setItem(ACCESS_TOKEN_KEY, access);
+export const setRefreshToken = (refresh: string) =>
+  (getTokenStorage() || sessionStorage).setItem(REFRESH_TOKEN_KEY, refresh);
+
+export const clearCredentials = () => {
+  [localStorage, sessionStorage].forEach((storage) => {
+    storage.removeItem(ACCESS_TOKEN_KEY);
+    storage.removeItem(REFRESH_TOKEN_KEY);
+    storage.removeItem(USERNAME_KEY);
+  });
+  localStorage.removeItem(LEGACY_LOGGED_IN_KEY);
+};
+
+export const storeCredentials = (tokens: AuthTokens, username: string, remember: boolean) => {
+  clearCredentials();
+  const storage = remember ? localStorage : sessionStorage;
+  storage.setItem(ACCESS_TOKEN_KEY, tokens.access);
+  storage.setItem(REFRESH_TOKEN_KEY, tokens.refresh);
+  storage.setItem(USERNAME_KEY, username);
+};
+
+export const decodeToken = (token: string | null): TokenClaims | null => {
+  if (!token) return null;
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+    const claims = JSON.parse(atob(padded));
+    return claims && typeof claims === "object" ? (claims as TokenClaims) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpired = (claims: TokenClaims | null) => {
+  if (!claims) return true;
+  if (typeof claims.exp !== "number") return false;
+  return claims.exp * 1000 <= Date.now() + EXPIRY_SKEW_MS;
+};
+
+// The session stays valid while either token is usable: an expired access token is refreshed by the API client.
+export const readSession = (): AuthSession | null => {
+  const accessClaims = decodeToken(getAccessToken());
+  const refreshClaims = decodeToken(getRefreshToken());
+  const accessValid = !isTokenExpired(accessClaims);
+  const refreshValid = !isTokenExpired(refreshClaims);
+  if (!accessValid && !refreshValid) return null;
+
+  const claims = accessClaims || refreshClaims;
+  const rawId = Number(claims?.user_id);
+  const expiries = [accessValid ? accessClaims?.exp : undefined, refreshValid ? refreshClaims?.exp : undefined].filter(
+    (exp): exp is number => typeof exp === "number"
+  );
+  return {
+    user: {
+      id: Number.isFinite(rawId) ? rawId : null,
+      username: claims?.username || getTokenStorage()?.getItem(USERNAME_KEY) || "",
+    },
+    expiresAt: expiries.length > 0 ? Math.max(...expiries) * 1000 - EXPIRY_SKEW_MS : null,
+    remember: isRemembered(),
+  };
+};
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
@@ -0,0 +1,70 @@
+import type { Product } from "./types";
+
+export type BulkFailure = {
+  id: number;
+  name: string;
+  message: string;
+};
+
+export type BulkProgress = {
+  done: number;
+  total: number;
+};
+
+// Small enough to stay polite to the API, large enough that 200 products don't take minutes.
+const BULK_CONCURRENCY = 4;
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+export const describeBulkError = (error: unknown) => (error instanceof Error && error.message ? error.message : "Request failed");
+
+// Runs `worker` for every item and keeps going past failures so one bad row doesn't stop the batch.
+export const runBulk = async <T extends { id: number; name: string }>(
+  items: T[],
+  worker: (item: T) => Promise<unknown>,
+  onProgress: (progress: BulkProgress) => void
+): Promise<BulkFailure[]> => {
+  const failures: BulkFailure[] = [];
+  const queue = [...items];
+  let done = 0;
+  onProgress({ done, total: items.length });
+
+  const next = async (): Promise<void> => {
+    const item = queue.shift();
+    if (!item) return;
+    try {
+      await worker(item);
+    } catch (error) {
+      failures.push({ id: item.id, name: item.name, message: describeBulkError(error) });
+    }
+    done += 1;
+    onProgress({ done, total: items.length });
+    return next();
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, items.length) }, () => next()));
+  return failures;
+};
+
+// Scales the selling price (and the struck-through original price, if any) by `percent`.
+export const priceChangePatch = (product: Product, percent: number) => {
+  const factor = 1 + percent / 100;
+  const patch: Partial<Product> = { price: roundPrice(Number(product.price) * factor) };
+  if (product.original_price) {
+    patch.original_price = roundPrice(Number(product.original_price) * factor);
+  }
+  return patch;
+};
+
+// Discounts are taken off the pre-discount price, mirroring how the product editor saves them.
+export const discountPatch = (product: Product, percent: number): Partial<Product> => {
+  const fullPrice = Number(product.original_price || product.price);
+  if (percent <= 0) {
+    return { price: roundPrice(fullPrice), original_price: null, discount_percentage: 0 };
+  }
+  return {
+    price: roundPrice(fullPrice * (1 - percent / 100)),
+    original_price: roundPrice(fullPrice),
+    discount_percentage: percent,
+  };
+};
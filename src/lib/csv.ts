@@ -0,0 +1,89 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheets run text starting with these as a formula, so product names can't smuggle one into Excel.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Numbers are left alone: a negative price is data, not a formula.
+const guardCsvFormula = (value: CsvValue) =>
+  typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+// Undoes guardCsvFormula on import, so a name exported as "'=Sofa" comes back as "=Sofa".
+export const unguardCsvFormula = (text: string) =>
+  text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+
+const escapeCsvCell = (value: CsvValue) => {
+  if (value === null || value === undefined) return "";
+  const text = String(guardCsvFormula(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]) => rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking synchronously can cancel the download in some browsers.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// The BOM makes Excel open the file as UTF-8, so "£" and accented fabric names survive.
+export const downloadCsv = (rows: CsvValue[][], fileName: string) =>
+  downloadBlob(new Blob(["\uFEFF", toCsv(rows)], { type: "text/csv;charset=utf-8" }), fileName);
+
+export type CsvRow = {
+  cells: string[];
+  // 1-based line in the file where the row starts; cells with line breaks make it run ahead of the row index.
+  line: number;
+};
+
+// RFC 4180: quoted cells may contain commas, doubled quotes and line breaks.
+export const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) line += 1;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i += 1;
+      row.push(cell);
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      cell = "";
+      line += 1;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push({ cells: row, line: rowLine });
+  }
+  // Spreadsheet apps like to leave blank trailing lines.
+  return rows.filter((r) => r.cells.some((value) => value.trim() !== ""));
+};
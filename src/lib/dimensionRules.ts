@@ -0,0 +1,77 @@
+import { formatDimension, parseDimension, type DimensionUnitMode } from "./dimensionUnits";
+import type { DimensionRule, ProductDimensionRow } from "./types";
+
+// Only the names matter for matching; options may be bare labels or objects.
+type RuleStyle = { name?: string; options?: unknown[] };
+
+export const emptyDimensionRule: DimensionRule = {
+  match: "",
+  measurement: "",
+  amount_cm: 0,
+  sizes: [],
+};
+
+// Winged headboards stick out past the frame, so the bed gets wider. This used to be built into the editor.
+export const WINGBACK_RULE: DimensionRule = {
+  match: "wingback",
+  measurement: "Width",
+  amount_cm: 4,
+  sizes: [],
+};
+
+const normalizeKey = (value?: string) => (value || "").trim().toLowerCase();
+
+const styleTexts = (styles: RuleStyle[]) =>
+  styles.flatMap((style) => [
+    normalizeKey(style.name),
+    ...(style.options || []).map((option) =>
+      normalizeKey(typeof option === "string" ? option : (option as { label?: string } | null)?.label)
+    ),
+  ]);
+
+export const isCompleteRule = (rule: DimensionRule) =>
+  normalizeKey(rule.match).length > 0 && normalizeKey(rule.measurement).length > 0 && Number.isFinite(rule.amount_cm) && rule.amount_cm !== 0;
+
+// Rules whose trigger text appears in any style group name or option label on the product.
+export const activeDimensionRules = (rules: DimensionRule[], styles: RuleStyle[]) => {
+  const texts = styleTexts(styles);
+  return rules.filter(isCompleteRule).filter((rule) => texts.some((text) => text.includes(normalizeKey(rule.match))));
+};
+
+// Cells that don't parse as a measurement are left alone rather than guessed at.
+export const applyDimensionRules = (
+  rows: ProductDimensionRow[],
+  rules: DimensionRule[],
+  mode: DimensionUnitMode
+): ProductDimensionRow[] =>
+  rows.map((row) => {
+    const rowRules = rules.filter((rule) => normalizeKey(rule.measurement) === normalizeKey(row.measurement));
+    if (rowRules.length === 0) return row;
+    const values = Object.fromEntries(
+      Object.entries(row.values || {}).map(([column, value]) => {
+        const parsed = parseDimension(String(value || ""), mode);
+        if (!parsed || "error" in parsed) return [column, value];
+        const extra = rowRules
+          .filter((rule) => rule.sizes.length === 0 || rule.sizes.includes(column))
+          .reduce((sum, rule) => sum + rule.amount_cm, 0);
+        return [column, extra === 0 ? value : formatDimension(parsed.cm + extra, mode)];
+      })
+    );
+    return { ...row, values };
+  });
+
+export const describeDimensionRule = (rule: DimensionRule) => {
+  const amount = `${rule.amount_cm > 0 ? "+" : ""}${rule.amount_cm} cm`;
+  const sizes = rule.sizes.length > 0 ? ` for ${rule.sizes.join(", ")}` : "";
+  return `"${rule.match}" offered: ${rule.measurement} ${amount}${sizes}`;
+};
+
+export const cleanDimensionRules = (rules: DimensionRule[]) =>
+  rules
+    .map((rule) => ({
+      match: rule.match.trim(),
+      measurement: rule.measurement.trim(),
+      amount_cm: Number.isFinite(Number(rule.amount_cm)) ? Number(rule.amount_cm) : 0,
+      sizes: rule.sizes.map((size) => size.trim()).filter(Boolean),
+    }))
+    .filter(isCompleteRule);
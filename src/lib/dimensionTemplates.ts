@@ -0,0 +1,150 @@
+import { WINGBACK_RULE, cleanDimensionRules } from "./dimensionRules";
+import type { DimensionRule, DimensionTemplate, ProductDimensionRow } from "./types";
+
+export type DimensionTemplateDefinition = Pick<DimensionTemplate, "name" | "columns" | "rows" | "rules">;
+
+export type DimensionTemplateForm = {
+  name: string;
+  category: number | null;
+  subcategory: number | null;
+  columns: string[];
+  rows: ProductDimensionRow[];
+  rules: DimensionRule[];
+};
+
+const BED_SIZE_COLUMNS = [
+  "2ft6 Small Single",
+  "3ft Single",
+  "4ft Small Double",
+  "4ft6 Double",
+  "5ft King",
+  "6ft Super King",
+];
+
+// UK bed sizes, used until a template is set up for the product's category.
+export const DEFAULT_DIMENSION_TEMPLATE: DimensionTemplateDefinition = {
+  name: "UK bed sizes",
+  columns: BED_SIZE_COLUMNS,
+  rules: [WINGBACK_RULE],
+  rows: [
+    {
+      measurement: "Length",
+      values: {
+        "2ft6 Small Single": '190 cm (74.8")',
+        "3ft Single": '190 cm (74.8")',
+        "4ft Small Double": '190 cm (74.8")',
+        "4ft6 Double": '190 cm (74.8")',
+        "5ft King": '200 cm (78.7")',
+        "6ft Super King": '200 cm (78.7")',
+      },
+    },
+    {
+      measurement: "Width",
+      values: {
+        "2ft6 Small Single": '75 cm (30.0")',
+        "3ft Single": '90 cm (35.4")',
+        "4ft Small Double": '120 cm (47.2")',
+        "4ft6 Double": '135 cm (53.1")',
+        "5ft King": '150 cm (59.1")',
+        "6ft Super King": '180 cm (70.9")',
+      },
+    },
+    {
+      measurement: "Bed Height",
+      values: {
+        "2ft6 Small Single": '35 cm (13.8")',
+        "3ft Single": '35 cm (13.8")',
+        "4ft Small Double": '35 cm (13.8")',
+        "4ft6 Double": '35 cm (13.8")',
+        "5ft King": '35 cm (13.8")',
+        "6ft Super King": '35 cm (13.8")',
+      },
+    },
+  ],
+};
+
+export const emptyDimensionTemplateForm: DimensionTemplateForm = {
+  name: "",
+  category: null,
+  subcategory: null,
+  columns: [],
+  rows: [],
+  rules: [],
+};
+
+// Most specific wins: the subcategory's template, then the category's, then one with no category at all.
+export const matchDimensionTemplate = (
+  templates: DimensionTemplate[],
+  category?: number | null,
+  subcategory?: number | null
+): DimensionTemplateDefinition => {
+  const bySubcategory = subcategory ? templates.find((t) => t.subcategory === subcategory) : undefined;
+  const byCategory = category ? templates.find((t) => t.category === category && !t.subcategory) : undefined;
+  const fallback = templates.find((t) => !t.category && !t.subcategory);
+  return bySubcategory || byCategory || fallback || DEFAULT_DIMENSION_TEMPLATE;
+};
+
+// Fresh rows with a value (possibly blank) for every column, safe to hand to the form.
+export const templateRows = (template: DimensionTemplateDefinition): ProductDimensionRow[] =>
+  template.rows.map((row) => ({
+    measurement: row.measurement,
+    values: Object.fromEntries(template.columns.map((column) => [column, row.values?.[column] || ""])),
+  }));
+
+export const sameColumns = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((column, index) => column === b[index]);
+
+export const templateToForm = (template: DimensionTemplate): DimensionTemplateForm => ({
+  name: template.name || "",
+  category: template.category ?? null,
+  subcategory: template.subcategory ?? null,
+  columns: [...(template.columns || [])],
+  rows: templateRows({ name: template.name, columns: template.columns || [], rows: template.rows || [] }),
+  rules: (template.rules || []).map((rule) => ({ ...rule, sizes: [...(rule.sizes || [])] })),
+});
+
+export const dimensionTemplatePayload = (form: DimensionTemplateForm) => {
+  const columns = Array.from(new Set(form.columns.map((column) => column.trim()).filter(Boolean)));
+  return {
+    name: form.name.trim(),
+    category: form.category,
+    subcategory: form.subcategory,
+    columns,
+    rows: form.rows
+      .map((row) => ({
+        measurement: row.measurement.trim(),
+        values: Object.fromEntries(columns.map((column) => [column, (row.values?.[column] || "").trim()])),
+      }))
+      .filter((row) => row.measurement.length > 0),
+    rules: cleanDimensionRules(form.rules),
+  };
+};
+
+// Columns key the row values and rule sizes, so renaming one has to carry them across.
+export const renameTemplateColumn = (form: DimensionTemplateForm, index: number, name: string): DimensionTemplateForm => {
+  const previous = form.columns[index];
+  return {
+    ...form,
+    columns: form.columns.map((column, i) => (i === index ? name : column)),
+    rows: form.rows.map((row) => {
+      const values = { ...row.values, [name]: row.values[previous] || "" };
+      if (previous !== name) delete values[previous];
+      return { ...row, values };
+    }),
+    rules: form.rules.map((rule) => ({ ...rule, sizes: rule.sizes.map((size) => (size === previous ? name : size)) })),
+  };
+};
+
+export const removeTemplateColumn = (form: DimensionTemplateForm, index: number): DimensionTemplateForm => {
+  const removed = form.columns[index];
+  return {
+    ...form,
+    columns: form.columns.filter((_, i) => i !== index),
+    rows: form.rows.map((row) => {
+      const values = { ...row.values };
+      delete values[removed];
+      return { ...row, values };
+    }),
+    rules: form.rules.map((rule) => ({ ...rule, sizes: rule.sizes.filter((size) => size !== removed) })),
+  };
+};
@@ -0,0 +1,131 @@
+import type { ProductDimensionRow } from "./types";
+
+export type DimensionUnitMode = "both" | "cm" | "in";
+
+export type DimensionIssue = {
+  measurement: string;
+  column: string;
+  value: string;
+  message: string;
+};
+
+type ParsedDimension = { cm: number } | { error: string };
+
+// The exact cm behind each converted cell, keyed by measurement and column. Inch-only text is rounded to
+// 0.1", so re-parsing it on the next switch would drift (75 cm -> 29.5" -> 74.9 cm).
+export type DimensionCmMemory = Map<string, { text: string; cm: number }>;
+
+export const DIMENSION_UNIT_LABELS: Record<DimensionUnitMode, string> = {
+  both: "cm and inches",
+  cm: "cm only",
+  in: "inches only",
+};
+
+const CM_PER_INCH = 2.54;
+
+// How far a typed "cm (in)" pair may disagree before it counts as a wrong conversion.
+const MISMATCH_TOLERANCE_IN = 0.15;
+
+const UNIT_TO_CM: Record<string, number> = {
+  mm: 0.1,
+  cm: 1,
+  m: 100,
+  in: CM_PER_INCH,
+  inch: CM_PER_INCH,
+  inches: CM_PER_INCH,
+  '"': CM_PER_INCH,
+  "″": CM_PER_INCH,
+  ft: 30.48,
+  "'": 30.48,
+};
+
+const QUANTITY = /(\d+(?:[.,]\d+)?)\s*(mm|cm|m|inches|inch|in|ft|"|″|')?/gi;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const formatNumber = (value: number) => String(round1(value));
+
+// Accepts one value in any unit ("190", "190cm", '74.8"', "1.9 m") or the stored pair "190 cm (74.8")".
+// A bare number is read in the table's display unit: inches in an inches-only table, centimetres otherwise.
+export const parseDimension = (text: string, mode: DimensionUnitMode): ParsedDimension | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  const quantities = Array.from(trimmed.matchAll(QUANTITY));
+  const leftover = trimmed.replace(QUANTITY, "").replace(/[()\s~≈]/g, "");
+  if (quantities.length === 0 || quantities.length > 2 || leftover) {
+    return { error: "Not a measurement. Type a number with cm or in." };
+  }
+  const bareUnit = mode === "in" ? "in" : "cm";
+  const [cmValue, ...others] = quantities.map((match) => {
+    const unit = (match[2] || bareUnit).toLowerCase();
+    return Number(match[1].replace(",", ".")) * UNIT_TO_CM[unit];
+  });
+  if (others.length > 0 && Math.abs(cmValue - others[0]) / CM_PER_INCH > MISMATCH_TOLERANCE_IN) {
+    return { error: `${formatNumber(cmValue)} cm is ${formatNumber(cmValue / CM_PER_INCH)}", not ${formatNumber(others[0] / CM_PER_INCH)}"` };
+  }
+  return { cm: cmValue };
+};
+
+export const formatDimension = (cm: number, mode: DimensionUnitMode) => {
+  const cmText = `${formatNumber(cm)} cm`;
+  // Inches keep one decimal ("30.0"), matching how the tables have always been written.
+  const inchText = `${(cm / CM_PER_INCH).toFixed(1)}"`;
+  if (mode === "cm") return cmText;
+  if (mode === "in") return inchText;
+  return `${cmText} (${inchText})`;
+};
+
+// Rewrites a cell in the chosen display; anything that doesn't parse is left exactly as typed.
+export const normalizeDimension = (text: string, mode: DimensionUnitMode) => {
+  const parsed = parseDimension(text, mode);
+  if (!parsed || "error" in parsed) return text;
+  return formatDimension(parsed.cm, mode);
+};
+
+export const dimensionError = (text: string, mode: DimensionUnitMode) => {
+  const parsed = parseDimension(text || "", mode);
+  return parsed && "error" in parsed ? parsed.error : null;
+};
+
+// A cell still showing the text it was last converted to is rebuilt from the remembered cm, not re-parsed.
+// Bare numbers are read in `from`, the unit the rows were written in.
+export const convertDimensionRows = (
+  rows: ProductDimensionRow[],
+  from: DimensionUnitMode,
+  mode: DimensionUnitMode,
+  memory?: DimensionCmMemory
+): ProductDimensionRow[] =>
+  rows.map((row) => ({
+    ...row,
+    values: Object.fromEntries(
+      Object.entries(row.values || {}).map(([column, value]) => {
+        const text = String(value || "");
+        const key = `${row.measurement}\u0000${column}`;
+        const remembered = memory?.get(key);
+        const parsed = remembered && remembered.text === text ? { cm: remembered.cm } : parseDimension(text, from);
+        if (!parsed || "error" in parsed) return [column, text];
+        const formatted = formatDimension(parsed.cm, mode);
+        memory?.set(key, { text: formatted, cm: parsed.cm });
+        return [column, formatted];
+      })
+    ),
+  }));
+
+export const findDimensionIssues = (rows: ProductDimensionRow[], mode: DimensionUnitMode): DimensionIssue[] =>
+  rows.flatMap((row) =>
+    Object.entries(row.values || {}).flatMap(([column, value]) => {
+      const message = dimensionError(String(value || ""), mode);
+      return message ? [{ measurement: row.measurement, column, value: String(value), message }] : [];
+    })
+  );
+
+// Reads the display mode back from existing cells, for products saved before the mode was stored.
+export const detectDimensionUnitMode = (rows: ProductDimensionRow[]): DimensionUnitMode => {
+  const cells = rows.flatMap((row) => Object.values(row.values || {})).filter((value) => String(value || "").trim());
+  if (cells.length === 0) return "both";
+  const hasCm = cells.some((value) => /cm/i.test(value));
+  const hasInches = cells.some((value) => /"|″|\bin(ch(es)?)?\b/i.test(value));
+  if (hasCm && !hasInches) return "cm";
+  if (hasInches && !hasCm) return "in";
+  return "both";
+};
@@ -0,0 +1,64 @@
+// Unsaved form state kept in IndexedDB so a crashed tab or an expired session doesn't lose an edit.
+const DB_NAME = "admin-drafts";
+const STORE_NAME = "drafts";
+
+export type Draft<T> = {
+  key: string;
+  values: T;
+  savedAt: number;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again, e.g. after the user leaves private browsing.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const loadDraft = async <T>(key: string) => {
+  const draft = await runRequest<Draft<T> | undefined>("readonly", (store) => store.get(key));
+  return draft ?? null;
+};
+
+export const saveDraft = <T>(key: string, values: T) =>
+  runRequest("readwrite", (store) => store.put({ key, values, savedAt: Date.now() } satisfies Draft<T>));
+
+export const deleteDraft = (key: string) => runRequest("readwrite", (store) => store.delete(key));
+
+// Empty strings and nulls are dropped so inputs that register late (as "") don't look like edits.
+export const draftFingerprint = (values: unknown) =>
+  JSON.stringify(values, (_key, value) => (value === "" || value === null ? undefined : value));
+
+const relativeTime = new Intl.RelativeTimeFormat("en", { numeric: "auto" });
+
+// "3 minutes ago", "yesterday"
+export const formatDraftAge = (savedAt: number) => {
+  const minutes = Math.round((savedAt - Date.now()) / 60000);
+  if (minutes > -1) return "just now";
+  if (minutes > -60) return relativeTime.format(minutes, "minute");
+  const hours = Math.round(minutes / 60);
+  if (hours > -24) return relativeTime.format(hours, "hour");
+  return relativeTime.format(Math.round(hours / 24), "day");
+};
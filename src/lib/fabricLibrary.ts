@@ -0,0 +1,109 @@
+import type { ProductFormValues } from "./productSchema";
+import type { FabricLibraryColor, FabricLibraryItem, Product, ProductFabric } from "./types";
+
+export type FabricColorForm = {
+  name: string;
+  hex_code: string;
+  image_url: string;
+  is_discontinued: boolean;
+};
+
+export type FabricLibraryForm = {
+  name: string;
+  description: string;
+  image_url: string;
+  colors: FabricColorForm[];
+};
+
+type FormFabric = NonNullable<ProductFormValues["fabrics"]>[number];
+
+export const emptyFabricLibraryForm: FabricLibraryForm = {
+  name: "",
+  description: "",
+  image_url: "",
+  colors: [],
+};
+
+export const emptyFabricColor: FabricColorForm = {
+  name: "",
+  hex_code: "#d1d5db",
+  image_url: "",
+  is_discontinued: false,
+};
+
+const normalizeKey = (value?: string | null) => (value || "").trim().toLowerCase();
+
+export const activeColors = (fabric: FabricLibraryItem) => (fabric.colors || []).filter((color) => !color.is_discontinued);
+
+export const fabricToForm = (fabric: FabricLibraryItem): FabricLibraryForm => ({
+  name: fabric.name || "",
+  description: fabric.description || "",
+  image_url: fabric.image_url || "",
+  colors: (fabric.colors || []).map((color) => ({
+    name: color.name || "",
+    hex_code: color.hex_code || "#d1d5db",
+    image_url: color.image_url || "",
+    is_discontinued: color.is_discontinued ?? false,
+  })),
+});
+
+export const fabricPayload = (form: FabricLibraryForm) => ({
+  name: form.name.trim(),
+  description: form.description.trim(),
+  image_url: form.image_url.trim(),
+  colors: form.colors
+    .map((color) => ({
+      name: color.name.trim(),
+      hex_code: color.hex_code.trim(),
+      image_url: color.image_url.trim(),
+      is_discontinued: color.is_discontinued,
+    }))
+    .filter((color) => color.name.length > 0),
+});
+
+// Linked fabrics still carry a copy of the library name and colours so the storefront can render them as before;
+// the editor refreshes that copy from the library on every save.
+export const linkedFormFabric = (fabric: FabricLibraryItem, isShared = false): FormFabric => ({
+  name: fabric.name,
+  image_url: fabric.image_url || "",
+  is_shared: isShared,
+  library_fabric: fabric.id,
+  colors: activeColors(fabric).map((color) => ({
+    name: color.name || "",
+    hex_code: color.hex_code || "",
+    image_url: color.image_url || "",
+  })),
+});
+
+// Older products typed library fabrics in by hand, so a fabric of the same name counts as using it.
+const usesFabric = (productFabric: ProductFabric, fabric: FabricLibraryItem) =>
+  productFabric.library_fabric === fabric.id ||
+  (!productFabric.library_fabric && normalizeKey(productFabric.name) === normalizeKey(fabric.name));
+
+export const productsUsingFabric = (fabric: FabricLibraryItem, products: Product[]) =>
+  products.filter((product) => (product.fabrics || []).some((productFabric) => usesFabric(productFabric, fabric)));
+
+export const productsUsingFabricColor = (fabric: FabricLibraryItem, color: FabricLibraryColor, products: Product[]) =>
+  products.filter((product) =>
+    (product.fabrics || []).some(
+      (productFabric) =>
+        usesFabric(productFabric, fabric) &&
+        (productFabric.colors || []).some((c) => normalizeKey(c.name) === normalizeKey(color.name))
+    )
+  );
+
+// Drops the colour from every matching fabric on the product. A fabric left without colours is removed,
+// the same as the editor does on save.
+export const discontinueColorPatch = (product: Product, fabric: FabricLibraryItem, color: FabricLibraryColor) => ({
+  fabrics: (product.fabrics || [])
+    .map((productFabric) => ({
+      name: productFabric.name,
+      image_url: productFabric.image_url || "",
+      is_shared: Boolean(productFabric.is_shared),
+      library_fabric: productFabric.library_fabric ?? null,
+      colors: (productFabric.colors || [])
+        .filter((c) => !usesFabric(productFabric, fabric) || normalizeKey(c.name) !== normalizeKey(color.name))
+        .map((c) => ({ name: c.name, hex_code: c.hex_code || "", image_url: c.image_url || "" })),
+    }))
+    .filter((productFabric) => productFabric.colors.length > 0),
+});
@@ -0,0 +1,136 @@
+// Images are resized and re-encoded in the browser before upload so full-size phone photos never reach the storefront.
+export type ImageFormat = "avif" | "webp" | "jpeg";
+
+export type ImageUploadSettings = {
+  maxWidth: number;
+  maxHeight: number;
+  format: ImageFormat;
+  // 0-1, passed straight to the encoder.
+  quality: number;
+};
+
+export type OptimizedImage = {
+  file: File;
+  originalSize: number;
+  size: number;
+  // False when the file was uploaded as-is (videos, SVGs, GIFs, or formats the browser can't decode).
+  optimized: boolean;
+};
+
+export const IMAGE_FORMAT_LABELS: Record<ImageFormat, string> = {
+  avif: "AVIF (smallest, falls back to WebP)",
+  webp: "WebP",
+  jpeg: "JPEG",
+};
+
+export const DEFAULT_IMAGE_UPLOAD_SETTINGS: ImageUploadSettings = {
+  maxWidth: 2400,
+  maxHeight: 2400,
+  format: "webp",
+  quality: 0.82,
+};
+
+const SETTINGS_KEY = "admin-image-upload-settings";
+
+// Browsers that can't encode a type hand back PNG instead, so each format lists what to try next.
+const FORMAT_FALLBACKS: Record<ImageFormat, string[]> = {
+  avif: ["image/avif", "image/webp", "image/jpeg"],
+  webp: ["image/webp", "image/jpeg"],
+  jpeg: ["image/jpeg"],
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/avif": "avif",
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+};
+
+// SVGs are vector and GIFs may be animated; neither survives a round trip through a canvas.
+const PASSTHROUGH_TYPES = ["image/svg+xml", "image/gif"];
+
+export const loadImageUploadSettings = (): ImageUploadSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null");
+    return { ...DEFAULT_IMAGE_UPLOAD_SETTINGS, ...(stored || {}) };
+  } catch {
+    return DEFAULT_IMAGE_UPLOAD_SETTINGS;
+  }
+};
+
+export const saveImageUploadSettings = (settings: ImageUploadSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// "12.1 MB → 480 KB"
+export const describeOptimization = (result: Pick<OptimizedImage, "originalSize" | "size" | "optimized">) =>
+  result.optimized ? `${formatBytes(result.originalSize)} → ${formatBytes(result.size)}` : formatBytes(result.size);
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+const passthrough = (file: File): OptimizedImage => ({
+  file,
+  originalSize: file.size,
+  size: file.size,
+  optimized: false,
+});
+
+// Drawing to a canvas and re-encoding drops EXIF (including GPS) along with every other metadata block.
+export const optimizeImage = async (
+  file: File,
+  settings: ImageUploadSettings = loadImageUploadSettings()
+): Promise<OptimizedImage> => {
+  if (!file.type.startsWith("image/") || PASSTHROUGH_TYPES.includes(file.type)) return passthrough(file);
+
+  let bitmap: ImageBitmap;
+  try {
+    // Applies the EXIF rotation before it is thrown away, so portrait photos stay upright.
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    return passthrough(file);
+  }
+
+  const scale = Math.min(1, settings.maxWidth / bitmap.width, settings.maxHeight / bitmap.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    return passthrough(file);
+  }
+
+  let blob: Blob | null = null;
+  for (const type of FORMAT_FALLBACKS[settings.format]) {
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    // JPEG has no alpha channel; without a fill, transparent areas come out black.
+    if (type === "image/jpeg") {
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const encoded = await canvasToBlob(canvas, type, settings.quality);
+    if (encoded?.type === type) {
+      blob = encoded;
+      break;
+    }
+  }
+  bitmap.close();
+  if (!blob) return passthrough(file);
+  // Re-encoding an already-small image at full size can grow it; keep the original then.
+  if (scale === 1 && blob.size >= file.size) return passthrough(file);
+
+  const baseName = file.name.replace(/\.[^.]+$/, "") || "image";
+  return {
+    file: new File([blob], `${baseName}.${EXTENSIONS[blob.type]}`, { type: blob.type }),
+    originalSize: file.size,
+    size: blob.size,
+    optimized: true,
+  };
+};
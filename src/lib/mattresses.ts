@@ -0,0 +1,66 @@
+import type { ProductFormValues } from "./productSchema";
+import type { Product, ProductMattress } from "./types";
+
+type FormMattress = NonNullable<ProductFormValues["mattresses"]>[number];
+
+export type MattressDrift = {
+  // The price this product offers the mattress at, and what the mattress product sells for now.
+  linkedPrice: number;
+  sourcePrice: number;
+};
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+const MATTRESS_PATTERN = /mattress/i;
+
+// There is no mattress flag on products; the category (or subcategory) name is what the shop goes by.
+export const isMattressProduct = (product: Product) =>
+  [product.category_name, product.category_slug, product.subcategory_name, product.subcategory_slug].some(
+    (value) => value && MATTRESS_PATTERN.test(value)
+  );
+
+export const mattressFromProduct = (product: Product): FormMattress => ({
+  name: product.name,
+  description: product.short_description || "",
+  image_url: product.images?.[0]?.url || "",
+  price: roundPrice(Number(product.price)),
+  enable_bunk_positions: false,
+  price_top: null,
+  price_bottom: null,
+  price_both: null,
+  source_product: product.id,
+});
+
+// Bunk mattresses are priced per position, so only a plain `price` can drift from the source.
+export const mattressDrift = (
+  mattress: Pick<ProductMattress, "price" | "enable_bunk_positions">,
+  source?: Product
+): MattressDrift | null => {
+  if (!source || mattress.enable_bunk_positions) return null;
+  if (mattress.price === null || mattress.price === undefined) return null;
+  const linkedPrice = roundPrice(Number(mattress.price));
+  const sourcePrice = roundPrice(Number(source.price));
+  return linkedPrice === sourcePrice ? null : { linkedPrice, sourcePrice };
+};
+
+export const productsOfferingMattress = (sourceId: number, products: Product[]) =>
+  products.filter((product) => (product.mattresses || []).some((mattress) => mattress.source_product === sourceId));
+
+// Rewrites the product's mattresses the way the editor saves them, with the source's current price
+// on every option linked to it.
+export const mattressResyncPatch = (product: Product, source: Product) => ({
+  mattresses: (product.mattresses || []).map((mattress) => ({
+    name: mattress.name || "",
+    description: mattress.description || "",
+    image_url: mattress.image_url || "",
+    price:
+      mattress.source_product === source.id && !mattress.enable_bunk_positions
+        ? roundPrice(Number(source.price))
+        : mattress.price ?? null,
+    enable_bunk_positions: mattress.enable_bunk_positions ?? false,
+    price_top: mattress.price_top ?? null,
+    price_bottom: mattress.price_bottom ?? null,
+    price_both: mattress.price_both ?? null,
+    source_product: mattress.source_product ?? null,
+  })),
+});
@@ -0,0 +1,70 @@
+export type Permission =
+  | "dashboard.view"
+  | "catalog.view"
+  | "catalog.edit"
+  | "catalog.delete"
+  | "orders.view"
+  | "orders.update"
+  | "reviews.view"
+  | "reviews.moderate"
+  | "reviews.delete"
+  | "settings.manage";
+
+export type AdminRole = "owner" | "catalog_editor" | "order_handler" | "review_moderator";
+
+// Shape returned by /admin/me/. Explicit `permissions` are added on top of whatever the role grants.
+export type AdminProfile = {
+  id?: number;
+  username?: string;
+  role?: string | null;
+  roles?: string[];
+  permissions?: string[];
+  is_superuser?: boolean;
+};
+
+export const ALL_PERMISSIONS: Permission[] = [
+  "dashboard.view",
+  "catalog.view",
+  "catalog.edit",
+  "catalog.delete",
+  "orders.view",
+  "orders.update",
+  "reviews.view",
+  "reviews.moderate",
+  "reviews.delete",
+  "settings.manage",
+];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  catalog_editor: ["dashboard.view", "catalog.view", "catalog.edit", "catalog.delete"],
+  order_handler: ["dashboard.view", "orders.view", "orders.update"],
+  review_moderator: ["dashboard.view", "reviews.view", "reviews.moderate", "reviews.delete"],
+};
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Owner",
+  catalog_editor: "Catalog editor",
+  order_handler: "Order handler",
+  review_moderator: "Review moderator",
+};
+
+const isRole = (value: unknown): value is AdminRole =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, value);
+
+const isPermission = (value: unknown): value is Permission =>
+  typeof value === "string" && (ALL_PERMISSIONS as string[]).includes(value);
+
+export const resolveRoles = (profile: AdminProfile | null): AdminRole[] => {
+  if (!profile) return [];
+  if (profile.is_superuser) return ["owner"];
+  const raw = [profile.role, ...(profile.roles || [])].map((r) => (typeof r === "string" ? r.trim().toLowerCase() : r));
+  return Array.from(new Set(raw.filter(isRole)));
+};
+
+export const resolvePermissions = (profile: AdminProfile | null): Set<Permission> => {
+  const granted = new Set<Permission>();
+  resolveRoles(profile).forEach((role) => ROLE_PERMISSIONS[role].forEach((p) => granted.add(p)));
+  (profile?.permissions || []).filter(isPermission).forEach((p) => granted.add(p));
+  return granted;
+};
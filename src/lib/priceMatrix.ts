@@ -0,0 +1,171 @@
+import type { ProductFormValues } from "./productSchema";
+
+type FormSize = NonNullable<ProductFormValues["sizes"]>[number];
+type FormStyle = NonNullable<ProductFormValues["styles"]>[number];
+type FormStyleOption = NonNullable<FormStyle["options"]>[number];
+type FormMattress = NonNullable<ProductFormValues["mattresses"]>[number];
+
+export type PriceFlag = {
+  level: "error" | "warning";
+  message: string;
+};
+
+export type VariantRow = {
+  size: string;
+  styles: { group: string; option: string }[];
+  mattress: string;
+  // What the customer pays, and the struck-through price when a discount is set.
+  price: number;
+  fullPrice: number | null;
+  flags: PriceFlag[];
+};
+
+export type PriceMatrix = {
+  rows: VariantRow[];
+  total: number;
+  truncated: boolean;
+};
+
+// Style groups multiply quickly; past this the table stops being readable anyway.
+export const MAX_MATRIX_ROWS = 500;
+
+// A combination costing this many times the base price is more likely a typo than a real price.
+const SUSPICIOUS_MULTIPLIER = 5;
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: unknown) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// `price` is the selling price; with a discount the original is worked out backwards, as the editor saves it.
+export const variantPrice = (basePrice: number, extras: number, discountPercentage: number) => {
+  const price = roundPrice(basePrice + extras);
+  const discount = toNumber(discountPercentage);
+  const fullPrice = discount > 0 && discount < 100 ? roundPrice(price / (1 - discount / 100)) : null;
+  return { price, fullPrice };
+};
+
+// Options restricted to some sizes only apply to those sizes; unrestricted ones apply everywhere.
+export const optionAppliesToSize = (option: FormStyleOption, sizeName: string) => {
+  const sizes = (option.sizes || []).filter(Boolean);
+  if (sizes.length === 0 && !option.size) return true;
+  return sizes.includes(sizeName) || option.size === sizeName;
+};
+
+type MattressChoice = { label: string; price: number | null };
+
+const mattressChoices = (mattresses: FormMattress[]): MattressChoice[] => [
+  { label: "No mattress", price: 0 },
+  ...mattresses
+    .filter((mattress) => mattress.name)
+    .flatMap((mattress): MattressChoice[] => {
+      const name = mattress.name || "";
+      if (!mattress.enable_bunk_positions) {
+        return [{ label: name, price: mattress.price ?? null }];
+      }
+      return [
+        { label: `${name} (top bunk)`, price: mattress.price_top ?? null },
+        { label: `${name} (bottom bunk)`, price: mattress.price_bottom ?? null },
+        { label: `${name} (both bunks)`, price: mattress.price_both ?? null },
+      ];
+    }),
+];
+
+const sizeOptions = (styles: FormStyle[], sizeName: string) =>
+  styles
+    .map((style) => ({
+      group: style.name || "",
+      options: (style.options || []).filter((option) => option.label && optionAppliesToSize(option, sizeName)),
+    }))
+    .filter((style) => style.options.length > 0);
+
+// Every pick of one option per style group, stopping at `limit` so huge catalogs can't freeze the editor.
+const styleCombinations = (styles: ReturnType<typeof sizeOptions>, limit: number) =>
+  styles.reduce<{ group: string; option: string; delta: number }[][]>(
+    (combos, style) =>
+      combos
+        .flatMap((combo) =>
+          style.options.map((option) => [
+            ...combo,
+            { group: style.group, option: option.label || "", delta: toNumber(option.price_delta) },
+          ])
+        )
+        .slice(0, limit),
+    [[]]
+  );
+
+const flagRow = (price: number, basePrice: number, mattress: MattressChoice): PriceFlag[] => {
+  const flags: PriceFlag[] = [];
+  if (price < 0) flags.push({ level: "error", message: "Negative price" });
+  else if (price === 0) flags.push({ level: "error", message: "Free" });
+  if (basePrice > 0 && price > basePrice * SUSPICIOUS_MULTIPLIER) {
+    flags.push({ level: "warning", message: `More than ${SUSPICIOUS_MULTIPLIER}× the base price` });
+  }
+  if (mattress.price === null) flags.push({ level: "warning", message: "Mattress has no price" });
+  else if (mattress.price < 0) flags.push({ level: "error", message: "Negative mattress price" });
+  return flags;
+};
+
+type PriceMatrixValues = Pick<Partial<ProductFormValues>, "price" | "discount_percentage" | "sizes" | "styles" | "mattresses">;
+
+const matrixChoices = (values: PriceMatrixValues) => {
+  const sizes: FormSize[] = (values.sizes || []).filter((size) => size.name);
+  return {
+    // Products without sizes still have one "size": the base product.
+    sizeChoices: sizes.length > 0 ? sizes : [{ name: "", price_delta: 0 }],
+    styles: (values.styles || []).filter((style) => style.name),
+    mattresses: mattressChoices(values.mattresses || []),
+  };
+};
+
+export const buildPriceMatrix = (values: PriceMatrixValues): PriceMatrix => {
+  const basePrice = toNumber(values.price);
+  const discount = toNumber(values.discount_percentage);
+  const { sizeChoices, styles, mattresses } = matrixChoices(values);
+  const rows: VariantRow[] = [];
+  let total = 0;
+
+  sizeChoices.forEach((size) => {
+    const sizeName = size.name || "";
+    const groups = sizeOptions(styles, sizeName);
+    total += groups.reduce((count, group) => count * group.options.length, 1) * mattresses.length;
+    const remaining = MAX_MATRIX_ROWS - rows.length;
+    if (remaining <= 0) return;
+    styleCombinations(groups, remaining).forEach((combo) => {
+      mattresses.forEach((mattress) => {
+        if (rows.length >= MAX_MATRIX_ROWS) return;
+        const extras =
+          toNumber(size.price_delta) + combo.reduce((sum, pick) => sum + pick.delta, 0) + toNumber(mattress.price);
+        const { price, fullPrice } = variantPrice(basePrice, extras, discount);
+        rows.push({
+          size: sizeName,
+          styles: combo.map(({ group, option }) => ({ group, option })),
+          mattress: mattress.label,
+          price,
+          fullPrice,
+          flags: flagRow(price, basePrice, mattress),
+        });
+      });
+    });
+  });
+
+  return { rows, total, truncated: total > rows.length };
+};
+
+// Covers every combination, including those past MAX_MATRIX_ROWS: a size has a free or negative variant
+// exactly when its cheapest pick of options and mattress does.
+export const hasPriceErrors = (values: PriceMatrixValues) => {
+  const basePrice = toNumber(values.price);
+  const { sizeChoices, styles, mattresses } = matrixChoices(values);
+  if (mattresses.some((mattress) => mattress.price !== null && mattress.price < 0)) return true;
+  const cheapestMattress = Math.min(...mattresses.map((mattress) => mattress.price ?? 0));
+  return sizeChoices.some((size) => {
+    const cheapestStyles = sizeOptions(styles, size.name || "").reduce(
+      (sum, group) => sum + Math.min(...group.options.map((option) => toNumber(option.price_delta))),
+      0
+    );
+    return roundPrice(basePrice + toNumber(size.price_delta) + cheapestStyles + cheapestMattress) <= 0;
+  });
+};
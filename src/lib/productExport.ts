@@ -0,0 +1,112 @@
+import type { CellObject, Row } from "write-excel-file/universal";
+import { downloadBlob, downloadCsv, type CsvValue } from "./csv";
+import type { Category, Product } from "./types";
+
+export type ExportFormat = "csv" | "xlsx";
+
+type ExportValue = string | number | boolean | null;
+
+type ExportColumn = {
+  // Headers double as the import format, so they use the API field names.
+  header: string;
+  width: number;
+  value: (product: Product, categories: Category[]) => ExportValue;
+};
+
+const toNumber = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// "Single=0; Double=50": size name and its price_delta.
+export const formatSizes = (product: Product) =>
+  (product.sizes || []).map((size) => `${size.name}=${Number(size.price_delta ?? 0)}`).join("; ");
+
+// "Grey (#808080); Oak"
+export const formatColors = (product: Product) =>
+  (product.colors || [])
+    .map((color) => (color.hex_code?.startsWith("#") ? `${color.name} (${color.hex_code})` : color.name))
+    .join("; ");
+
+// "Plush Velvet: Grey, Black; Linen"
+export const formatFabrics = (product: Product) =>
+  (product.fabrics || [])
+    .map((fabric) => {
+      const colors = (fabric.colors || []).map((color) => color.name).filter(Boolean);
+      return colors.length > 0 ? `${fabric.name}: ${colors.join(", ")}` : fabric.name;
+    })
+    .join("; ");
+
+// "Bed Size: Double; Colour: Grey"
+export const formatFilterValues = (product: Product) =>
+  (product.filter_values || [])
+    .filter((fv) => fv.option)
+    .map((fv) => (fv.filter_type ? `${fv.filter_type}: ${fv.option}` : String(fv.option)))
+    .join("; ");
+
+// Image URLs in gallery order: "https://.../a.jpg; https://.../b.jpg"
+export const formatImages = (product: Product) =>
+  (product.images || []).map((image) => image.url).filter(Boolean).join("; ");
+
+export const categoryName = (product: Product, categories: Category[]) =>
+  product.category_name || categories.find((c) => c.id === Number(product.category))?.name || "";
+
+export const subcategoryName = (product: Product, categories: Category[]) => {
+  if (product.subcategory_name) return product.subcategory_name;
+  if (!product.subcategory) return "";
+  return (
+    categories.flatMap((c) => c.subcategories || []).find((s) => s.id === Number(product.subcategory))?.name || ""
+  );
+};
+
+export const PRODUCT_EXPORT_COLUMNS: ExportColumn[] = [
+  { header: "id", width: 8, value: (p) => p.id },
+  { header: "name", width: 36, value: (p) => p.name },
+  { header: "slug", width: 30, value: (p) => p.slug },
+  { header: "category", width: 20, value: categoryName },
+  { header: "subcategory", width: 20, value: subcategoryName },
+  { header: "price", width: 10, value: (p) => toNumber(p.price) },
+  { header: "original_price", width: 14, value: (p) => toNumber(p.original_price) },
+  { header: "discount_percentage", width: 10, value: (p) => toNumber(p.discount_percentage) ?? 0 },
+  { header: "in_stock", width: 10, value: (p) => Boolean(p.in_stock) },
+  { header: "is_bestseller", width: 12, value: (p) => Boolean(p.is_bestseller) },
+  { header: "is_new", width: 10, value: (p) => Boolean(p.is_new) },
+  { header: "sort_order", width: 10, value: (p) => toNumber(p.sort_order) ?? 0 },
+  { header: "delivery_charges", width: 12, value: (p) => toNumber(p.delivery_charges) ?? 0 },
+  { header: "sizes", width: 40, value: formatSizes },
+  { header: "colors", width: 40, value: formatColors },
+  { header: "fabrics", width: 40, value: formatFabrics },
+  { header: "filter_values", width: 40, value: formatFilterValues },
+  { header: "short_description", width: 40, value: (p) => p.short_description || "" },
+  { header: "description", width: 60, value: (p) => p.description || "" },
+  { header: "images", width: 60, value: formatImages },
+];
+
+const toXlsxCell = (value: ExportValue): CellObject | null => {
+  if (value === null || value === "") return null;
+  if (typeof value === "number") return { value, type: Number };
+  if (typeof value === "boolean") return { value, type: Boolean };
+  return { value, type: String, wrap: true };
+};
+
+export const exportProducts = async (products: Product[], categories: Category[], format: ExportFormat) => {
+  const stamp = new Date().toISOString().slice(0, 10);
+  const fileName = `products-${stamp}.${format}`;
+  const rows = products.map((product) => PRODUCT_EXPORT_COLUMNS.map((column) => column.value(product, categories)));
+
+  if (format === "csv") {
+    downloadCsv([PRODUCT_EXPORT_COLUMNS.map((column) => column.header), ...(rows as CsvValue[][])], fileName);
+    return;
+  }
+
+  // Loaded on demand; the spreadsheet writer is only needed by the few who export.
+  const { default: writeXlsxFile } = await import("write-excel-file/universal");
+  const header: Row = PRODUCT_EXPORT_COLUMNS.map((column) => ({ value: column.header, fontWeight: "bold" }));
+  const blob = await writeXlsxFile([header, ...rows.map((row) => row.map(toXlsxCell))], {
+    sheet: "Products",
+    stickyRowsCount: 1,
+    columns: PRODUCT_EXPORT_COLUMNS.map((column) => ({ width: column.width })),
+  }).toBlob();
+  downloadBlob(blob, fileName);
+};
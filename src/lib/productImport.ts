@@ -0,0 +1,329 @@
+import { parseCsv, unguardCsvFormula } from "./csv";
+import { PRODUCT_EXPORT_COLUMNS } from "./productExport";
+import { createProductSchema } from "./productSchema";
+import type { Category, FilterType, Product, ProductColor, ProductFabric, ProductImage, ProductSize } from "./types";
+
+export type ImportStatus = "new" | "changed" | "unchanged" | "invalid";
+
+export type FieldChange = {
+  field: string;
+  before: string;
+  after: string;
+};
+
+export type ImportRow = {
+  // Line in the file where the row starts, so people can find the row they need to fix.
+  line: number;
+  name: string;
+  status: ImportStatus;
+  productId?: number;
+  errors: string[];
+  changes: FieldChange[];
+  payload: Record<string, unknown>;
+};
+
+export type ImportContext = {
+  products: Product[];
+  categories: Category[];
+  filterTypes: FilterType[];
+};
+
+export type ImportAnalysis = {
+  rows: ImportRow[];
+  ignoredColumns: string[];
+};
+
+// Everything the export writes except `id`, which is only used to find the product.
+const IMPORTABLE_COLUMNS = PRODUCT_EXPORT_COLUMNS.map((column) => column.header).filter((header) => header !== "id");
+
+const NUMBER_COLUMNS = ["price", "original_price", "discount_percentage", "sort_order", "delivery_charges"] as const;
+const BOOLEAN_COLUMNS = ["in_stock", "is_bestseller", "is_new"] as const;
+const TEXT_COLUMNS = ["name", "slug", "short_description", "description"] as const;
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0", ""]);
+
+const splitList = (value: string) =>
+  value
+    .split(";")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const sameText = (a?: string, b?: string) => (a || "").trim().toLowerCase() === (b || "").trim().toLowerCase();
+
+const parseSizes = (value: string, existing: ProductSize[], errors: string[]): ProductSize[] =>
+  splitList(value).map((entry) => {
+    const [rawName, rawDelta = "0"] = entry.split("=");
+    const name = rawName.trim();
+    const priceDelta = Number(rawDelta.trim() || 0);
+    if (!Number.isFinite(priceDelta)) errors.push(`sizes: "${entry}" needs a numeric price, e.g. "${name}=50"`);
+    const current = existing.find((size) => sameText(size.name, name));
+    return { name, description: current?.description || "", price_delta: Number.isFinite(priceDelta) ? priceDelta : 0 };
+  });
+
+const parseColors = (value: string, existing: ProductColor[]): ProductColor[] =>
+  splitList(value).map((entry) => {
+    const match = entry.match(/^(.*?)\s*\((#[0-9a-f]{3,8})\)$/i);
+    const name = (match ? match[1] : entry).trim();
+    const current = existing.find((color) => sameText(color.name, name));
+    return {
+      name,
+      hex_code: match ? match[2] : current?.hex_code || "#000000",
+      image_url: current?.image_url || "",
+    };
+  });
+
+const parseFabrics = (value: string, existing: ProductFabric[]): ProductFabric[] =>
+  splitList(value).map((entry) => {
+    const [rawName, rawColors = ""] = entry.split(":");
+    const name = rawName.trim();
+    const current = existing.find((fabric) => sameText(fabric.name, name));
+    const colors = rawColors
+      .split(",")
+      .map((color) => color.trim())
+      .filter(Boolean)
+      .map((colorName) => current?.colors?.find((color) => sameText(color.name, colorName)) || { name: colorName });
+    return {
+      name,
+      image_url: current?.image_url || "",
+      is_shared: current?.is_shared ?? false,
+      // Keeps library-linked fabrics linked; the export has no column for it.
+      library_fabric: current?.library_fabric ?? null,
+      colors,
+    };
+  });
+
+const parseImages = (value: string, existing: ProductImage[]): ProductImage[] =>
+  splitList(value).map((url) => ({ url, color_name: existing.find((image) => image.url === url)?.color_name || "" }));
+
+const parseFilterValues = (value: string, filterTypes: FilterType[], errors: string[]) =>
+  splitList(value).flatMap((entry) => {
+    const separator = entry.indexOf(":");
+    const typeName = separator >= 0 ? entry.slice(0, separator).trim() : "";
+    const optionName = (separator >= 0 ? entry.slice(separator + 1) : entry).trim();
+    const candidates = filterTypes.filter((ft) => !typeName || sameText(ft.name, typeName) || sameText(ft.slug, typeName));
+    const matches = candidates.flatMap((ft) =>
+      (ft.options || [])
+        .filter((opt) => sameText(opt.name, optionName) || sameText(opt.slug, optionName))
+        .map((opt) => ({ filter_option_id: opt.id, filter_type: ft.name, option: opt.name }))
+    );
+    if (matches.length === 1) return matches;
+    errors.push(
+      matches.length === 0
+        ? `filter_values: no filter option "${entry}"`
+        : `filter_values: "${entry}" matches several filters, prefix it with the filter name`
+    );
+    return [];
+  });
+
+// Shapes a stored product like the editor does, so rows are validated against the same rules.
+const toSchemaValues = (product: Product) => ({
+  name: product.name,
+  short_description: product.short_description || (product.description || "").split(". ")[0] || "",
+  description: product.description || "",
+  category: Number(product.category),
+  subcategory: product.subcategory ?? null,
+  price: Number(product.price),
+  original_price: product.original_price == null ? null : Number(product.original_price),
+  discount_percentage: Number(product.discount_percentage) || 0,
+  delivery_charges: Number(product.delivery_charges) || 0,
+  sort_order: Number(product.sort_order) || 0,
+  is_bestseller: Boolean(product.is_bestseller),
+  is_new: Boolean(product.is_new),
+  images: (product.images || []).map((image) => ({ url: image.url, color_name: image.color_name || "" })),
+  colors: (product.colors || []).map((color) => ({
+    name: color.name,
+    hex_code: color.hex_code || "",
+    image_url: color.image_url || "",
+  })),
+  sizes: (product.sizes || []).map((size) => ({
+    name: size.name,
+    description: size.description || "",
+    price_delta: Number(size.price_delta ?? 0),
+  })),
+  fabrics: (product.fabrics || []).map((fabric) => ({
+    name: fabric.name,
+    image_url: fabric.image_url || "",
+    is_shared: fabric.is_shared ?? false,
+    colors: (fabric.colors || []).map((color) => ({ name: color.name, hex_code: color.hex_code || "" })),
+  })),
+  filter_values: (product.filter_values || []).map((fv) => ({ filter_option: fv.filter_option_id ?? null })),
+});
+
+const EMPTY_PRODUCT: Product = {
+  id: 0,
+  name: "",
+  slug: "",
+  category: 0,
+  price: 0,
+  description: "",
+  features: [],
+  in_stock: true,
+  is_bestseller: false,
+  is_new: false,
+  rating: 0,
+  review_count: 0,
+  images: [],
+  videos: [],
+  colors: [],
+  sizes: [],
+  styles: [],
+  fabrics: [],
+};
+
+// Turns parsed values into the body `/products/` expects.
+const toPayloadValue = (field: string, product: Product): unknown => {
+  switch (field) {
+    case "category":
+      return Number(product.category);
+    case "filter_values":
+      return (product.filter_values || []).map((fv) => ({ filter_option: fv.filter_option_id }));
+    default:
+      return product[field as keyof Product];
+  }
+};
+
+const analyzeRow = (
+  record: Record<string, string>,
+  columns: string[],
+  line: number,
+  context: ImportContext,
+  seen: Map<number, number>
+): ImportRow => {
+  const errors: string[] = [];
+  const idValue = (record.id || "").trim();
+  const slugValue = (record.slug || "").trim();
+  let existing: Product | undefined;
+
+  if (idValue) {
+    existing = context.products.find((product) => String(product.id) === idValue);
+    if (!existing) errors.push(`id: no product with id ${idValue}`);
+  } else if (slugValue) {
+    existing = context.products.find((product) => product.slug === slugValue);
+  }
+  if (existing) {
+    const firstLine = seen.get(existing.id);
+    if (firstLine) errors.push(`Same product as line ${firstLine}`);
+    seen.set(existing.id, line);
+  }
+
+  const base = existing || EMPTY_PRODUCT;
+  const updates: Partial<Product> = {};
+  const has = (column: string) => columns.includes(column);
+
+  TEXT_COLUMNS.filter(has).forEach((column) => {
+    updates[column] = record[column].trim();
+  });
+
+  NUMBER_COLUMNS.filter(has).forEach((column) => {
+    const raw = record[column].trim().replace(/^£/, "");
+    if (!raw) {
+      // An empty original_price means "not on sale"; the other numbers default to 0.
+      if (column === "original_price") updates.original_price = null;
+      else updates[column] = 0;
+      return;
+    }
+    const parsed = Number(raw);
+    if (Number.isFinite(parsed)) {
+      updates[column] = parsed;
+    } else {
+      errors.push(`${column}: "${raw}" is not a number`);
+    }
+  });
+
+  BOOLEAN_COLUMNS.filter(has).forEach((column) => {
+    const raw = record[column].trim().toLowerCase();
+    if (TRUE_VALUES.has(raw)) updates[column] = true;
+    else if (FALSE_VALUES.has(raw)) updates[column] = false;
+    else errors.push(`${column}: use true or false, not "${record[column]}"`);
+  });
+
+  let categoryId = Number(base.category) || 0;
+  if (has("category")) {
+    const raw = record.category.trim();
+    const category = context.categories.find((c) => sameText(c.name, raw) || sameText(c.slug, raw));
+    if (category) {
+      categoryId = category.id;
+      updates.category = category.id;
+    } else if (raw) {
+      errors.push(`category: no category called "${raw}"`);
+    }
+  }
+  if (has("subcategory")) {
+    const raw = record.subcategory.trim();
+    const subcategories = context.categories.find((c) => c.id === categoryId)?.subcategories || [];
+    const subcategory = subcategories.find((s) => sameText(s.name, raw) || sameText(s.slug, raw));
+    if (!raw) updates.subcategory = null;
+    else if (subcategory) updates.subcategory = subcategory.id;
+    else errors.push(`subcategory: "${raw}" is not in the selected category`);
+  } else if (has("category") && updates.category !== base.category) {
+    // A subcategory from the old category would no longer make sense.
+    updates.subcategory = null;
+  }
+
+  if (has("sizes")) updates.sizes = parseSizes(record.sizes, base.sizes || [], errors);
+  if (has("colors")) updates.colors = parseColors(record.colors, base.colors || []);
+  if (has("fabrics")) updates.fabrics = parseFabrics(record.fabrics, base.fabrics || []);
+  if (has("images")) updates.images = parseImages(record.images, base.images || []);
+  if (has("filter_values")) updates.filter_values = parseFilterValues(record.filter_values, context.filterTypes, errors);
+
+  const merged: Product = { ...base, ...updates };
+  const validation = createProductSchema(!existing).safeParse(toSchemaValues(merged));
+  if (!validation.success) {
+    validation.error.issues.forEach((issue) => {
+      errors.push(issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message);
+    });
+  }
+
+  // Compare through the export formatters so "before" and "after" read exactly like the spreadsheet.
+  const changes: FieldChange[] = [];
+  if (existing) {
+    const relabelled: Product = { ...merged, category_name: undefined, subcategory_name: undefined };
+    PRODUCT_EXPORT_COLUMNS.filter((column) => has(column.header) && column.header !== "id").forEach((column) => {
+      const before = String(column.value(existing, context.categories) ?? "");
+      const after = String(column.value(relabelled, context.categories) ?? "");
+      if (before !== after) changes.push({ field: column.header, before, after });
+    });
+  }
+
+  const payloadFields = existing
+    ? changes.flatMap((change) => (change.field === "category" ? ["category", "subcategory"] : [change.field]))
+    : IMPORTABLE_COLUMNS.filter(has).concat(has("category") ? ["subcategory"] : []);
+  const payload = Object.fromEntries(
+    Array.from(new Set(payloadFields)).map((field) => [field, toPayloadValue(field, merged)])
+  );
+
+  let status: ImportStatus = "unchanged";
+  if (errors.length > 0) status = "invalid";
+  else if (!existing) status = "new";
+  else if (changes.length > 0) status = "changed";
+
+  return {
+    line,
+    name: merged.name || record.name || `Line ${line}`,
+    status,
+    productId: existing?.id,
+    errors,
+    changes,
+    payload,
+  };
+};
+
+export const analyzeProductCsv = (text: string, context: ImportContext): ImportAnalysis => {
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) throw new Error("The file is empty.");
+  const headers = headerRow.cells.map((header) => header.trim().toLowerCase());
+  if (!headers.includes("name") && !headers.includes("id")) {
+    throw new Error('The header row needs at least a "name" or "id" column. Export the catalog to get a template.');
+  }
+
+  const columns = headers.filter((header) => IMPORTABLE_COLUMNS.includes(header));
+  const ignoredColumns = headers.filter((header) => header && header !== "id" && !IMPORTABLE_COLUMNS.includes(header));
+  const seen = new Map<number, number>();
+
+  const rows = dataRows.map(({ cells, line }) => {
+    const record = Object.fromEntries(headers.map((header, i) => [header, unguardCsvFormula(cells[i] ?? "")]));
+    return analyzeRow(record, columns, line, context, seen);
+  });
+  return { rows, ignoredColumns };
+};
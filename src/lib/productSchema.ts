@@ -0,0 +1,164 @@
+import * as z from "zod";
+
+export const createProductSchema = (requireImages: boolean) =>
+  z.object({
+    name: z.string().min(1, "Title is required"),
+    short_description: z.string().min(1, "Short description is required"),
+    description: z.string().min(1, "Long description is required"),
+    category: z.number().min(1, "Category is required"),
+    subcategory: z.number().optional().nullable(),
+    price: z.number().min(0, "Price must be 0 or more"),
+    original_price: z.number().nullable().optional(),
+    discount_percentage: z.number().min(0).max(100).optional().nullable(),
+    delivery_charges: z.number().min(0).optional().nullable(),
+    sort_order: z.number().optional(),
+    is_bestseller: z.boolean().optional(),
+    is_new: z.boolean().optional(),
+    show_size_icons: z.boolean().optional(),
+    images: z
+      .array(
+        z.object({
+          url: z.string().optional().nullable(),
+          color_name: z.string().optional().nullable(),
+        })
+      )
+      .optional(),
+    videos: z.array(z.object({ url: z.string().optional().nullable() })).optional(),
+    colors: z.array(z.object({ name: z.string().optional(), hex_code: z.string().optional(), image_url: z.string().optional() })).optional(),
+    sizes: z
+      .array(
+        z.object({
+          name: z.string().optional(),
+          description: z.string().optional(),
+          price_delta: z.number().optional(),
+        })
+      )
+      .optional(),
+    styles: z
+      .array(
+        z.object({
+          name: z.string().optional(),
+          icon_url: z.string().optional(),
+          size: z.string().optional(),
+          sizes: z.array(z.string()).optional(),
+          is_shared: z.boolean().optional(),
+          options: z
+            .array(
+              z.object({
+                label: z.string().optional(),
+                description: z.string().optional(),
+                icon_url: z.string().optional(),
+                price_delta: z.number().optional(),
+                size: z.string().optional(),
+                sizes: z.array(z.string()).optional(),
+              })
+            )
+            .optional(),
+        })
+      )
+      .optional(),
+    fabrics: z
+      .array(
+        z.object({
+          name: z.string().optional(),
+          image_url: z.string().optional(),
+          is_shared: z.boolean().optional(),
+          library_fabric: z.number().nullable().optional(),
+          colors: z
+            .array(
+              z.object({
+                name: z.string().optional(),
+                hex_code: z.string().optional(),
+                image_url: z.string().optional(),
+              })
+            )
+            .optional(),
+        })
+      )
+      .optional(),
+    mattresses: z
+      .array(
+        z.object({
+          name: z.string().optional(),
+          description: z.string().optional(),
+          image_url: z.string().optional(),
+          price: z.number().nullable().optional(),
+          enable_bunk_positions: z.boolean().optional(),
+          price_top: z.number().nullable().optional(),
+          price_bottom: z.number().nullable().optional(),
+          price_both: z.number().nullable().optional(),
+          source_product: z.number().nullable().optional(),
+        })
+      )
+      .optional(),
+    features: z.array(z.string()).optional(),
+    dimensions: z
+      .array(
+        z.object({
+          measurement: z.string().optional(),
+          values: z.record(z.string(), z.string()).optional(),
+        })
+      )
+      .optional(),
+    dimension_images: z
+      .array(
+        z.object({
+          size: z.string().optional(),
+          url: z.string().optional(),
+        })
+      )
+      .optional(),
+    dimension_paragraph: z.string().optional(),
+    show_dimensions_table: z.boolean().optional(),
+    dimension_units: z.enum(["both", "cm", "in"]).optional(),
+    dimension_rules: z
+      .array(
+        z.object({
+          match: z.string(),
+          measurement: z.string(),
+          amount_cm: z.number(),
+          sizes: z.array(z.string()),
+        })
+      )
+      .optional(),
+    faqs: z
+      .array(
+        z.object({
+          question: z.string().optional(),
+          answer: z.string().optional(),
+        })
+      )
+      .optional(),
+    delivery_info: z.string().optional(),
+    returns_guarantee: z.string().optional(),
+    delivery_title: z.string().optional(),
+    returns_title: z.string().optional(),
+    custom_info_sections: z
+      .array(
+        z.object({
+          title: z.string().optional(),
+          content: z.string().optional(),
+        })
+      )
+      .optional(),
+    filter_values: z
+      .array(
+        z.object({
+          filter_option: z.number().optional().nullable(),
+        })
+      )
+      .optional(),
+  })
+  .superRefine((values, ctx) => {
+    if (!requireImages) return;
+    const images = (values.images || []).filter((img) => (img.url || "").trim().length > 0);
+    if (images.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["images"],
+        message: "At least one picture is required",
+      });
+    }
+  });
+
+export type ProductFormValues = z.infer<ReturnType<typeof createProductSchema>>;
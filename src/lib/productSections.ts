@@ -0,0 +1,243 @@
+import type { ProductFormValues } from "./productSchema";
+import type { Product, ProductStyleOption } from "./types";
+
+export type MergeStrategy = "append" | "replace" | "dedupe";
+
+export type ListSectionKey = "styles" | "sizes" | "colors" | "fabrics" | "mattresses" | "faqs";
+export type TextSectionKey = "short_description" | "description" | "delivery_info" | "returns_guarantee";
+export type ImportSectionKey = ListSectionKey | TextSectionKey;
+
+export type ImportSectionValues = {
+  [K in ListSectionKey]: NonNullable<ProductFormValues[K]>;
+} & {
+  [K in TextSectionKey]: string;
+};
+
+type SectionDefinition<K extends ImportSectionKey> = {
+  key: K;
+  label: string;
+  extract: (product: Product) => ImportSectionValues[K];
+  // One line per item for the preview.
+  describe: (value: ImportSectionValues[K]) => string[];
+};
+
+type ListItem<K extends ListSectionKey> = ImportSectionValues[K][number];
+
+export const MERGE_STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  append: "Append",
+  replace: "Replace",
+  dedupe: "Merge, skip duplicates",
+};
+
+const normalizeKey = (value?: string | null) => (value || "").trim().toLowerCase();
+
+// Style names double as option keys on the storefront, so spaces become dashes like in the editor.
+const dashed = (value?: string) => (value || "").replace(/\s+/g, "-");
+
+const toNumberOrNull = (value: unknown) => (value !== undefined && value !== null ? Number(value) : null);
+
+const extractStyles = (product: Product): ImportSectionValues["styles"] =>
+  (product.styles || []).map((style) => ({
+    name: dashed(style.name),
+    icon_url: style.icon_url || "",
+    is_shared: style.is_shared ?? false,
+    options: (style.options || []).map((raw) => {
+      const option: ProductStyleOption & { sizes?: unknown } = typeof raw === "string" ? { label: raw } : raw;
+      return {
+        label: dashed(option.label),
+        description: option.description || "",
+        icon_url: option.icon_url || "",
+        price_delta: typeof option.price_delta === "number" ? Number(option.price_delta) : 0,
+        sizes: Array.isArray(option.sizes)
+          ? option.sizes.map((size) => String(size || "").trim()).filter(Boolean)
+          : option.size
+          ? [String(option.size).trim()]
+          : [],
+      };
+    }),
+  }));
+
+const SECTIONS: { [K in ImportSectionKey]: SectionDefinition<K> } = {
+  styles: {
+    key: "styles",
+    label: "Styles",
+    extract: extractStyles,
+    describe: (styles) => styles.map((style) => `${style.name} (${(style.options || []).length} options)`),
+  },
+  sizes: {
+    key: "sizes",
+    label: "Sizes",
+    extract: (product) =>
+      (product.sizes || []).map((size) => ({
+        name: size.name || "",
+        description: size.description || "",
+        price_delta: Number.isFinite(Number(size.price_delta)) ? Number(size.price_delta) : 0,
+      })),
+    describe: (sizes) => sizes.map((size) => `${size.name} (${Number(size.price_delta) >= 0 ? "+" : ""}${size.price_delta ?? 0})`),
+  },
+  colors: {
+    key: "colors",
+    label: "Colors",
+    extract: (product) =>
+      (product.colors || []).map((color) => ({
+        name: color.name || "",
+        hex_code: color.hex_code || "#000000",
+        image_url: color.image_url || "",
+      })),
+    describe: (colors) => colors.map((color) => `${color.name} ${color.hex_code}`),
+  },
+  fabrics: {
+    key: "fabrics",
+    label: "Fabrics",
+    extract: (product) =>
+      (product.fabrics || []).map((fabric) => ({
+        name: fabric.name || "",
+        image_url: fabric.image_url || "",
+        is_shared: fabric.is_shared ?? false,
+        library_fabric: fabric.library_fabric ?? null,
+        colors: (fabric.colors || []).map((color) => ({
+          name: color.name || "",
+          hex_code: color.hex_code || "#000000",
+          image_url: color.image_url || "",
+        })),
+      })),
+    describe: (fabrics) =>
+      fabrics.map((fabric) => {
+        const colors = (fabric.colors || []).map((color) => color.name).filter(Boolean);
+        return colors.length > 0 ? `${fabric.name}: ${colors.join(", ")}` : fabric.name || "";
+      }),
+  },
+  mattresses: {
+    key: "mattresses",
+    label: "Mattresses",
+    extract: (product) =>
+      (product.mattresses || []).map((mattress) => ({
+        name: mattress.name || "",
+        description: mattress.description || "",
+        image_url: mattress.image_url || "",
+        price: toNumberOrNull(mattress.price),
+        enable_bunk_positions: mattress.enable_bunk_positions ?? false,
+        price_top: toNumberOrNull(mattress.price_top),
+        price_bottom: toNumberOrNull(mattress.price_bottom),
+        price_both: toNumberOrNull(mattress.price_both),
+        source_product: mattress.source_product || product.id,
+      })),
+    describe: (mattresses) =>
+      mattresses.map((mattress) => (mattress.price != null ? `${mattress.name} (£${mattress.price})` : mattress.name || "")),
+  },
+  faqs: {
+    key: "faqs",
+    label: "FAQs",
+    extract: (product) =>
+      (product.faqs || [])
+        .map((faq) => ({ question: (faq.question || "").trim(), answer: (faq.answer || "").trim() }))
+        .filter((faq) => faq.question && faq.answer),
+    describe: (faqs) => faqs.map((faq) => faq.question || ""),
+  },
+  short_description: {
+    key: "short_description",
+    label: "Short description",
+    extract: (product) => (product.short_description || "").trim(),
+    describe: (text) => (text ? [text] : []),
+  },
+  description: {
+    key: "description",
+    label: "Long description",
+    extract: (product) => (product.description || "").trim(),
+    describe: (text) => (text ? [text] : []),
+  },
+  delivery_info: {
+    key: "delivery_info",
+    label: "Delivery info",
+    extract: (product) => (product.delivery_info || "").trim(),
+    describe: (text) => (text ? [text] : []),
+  },
+  returns_guarantee: {
+    key: "returns_guarantee",
+    label: "Returns & guarantee",
+    extract: (product) => (product.returns_guarantee || "").trim(),
+    describe: (text) => (text ? [text] : []),
+  },
+};
+
+export const IMPORT_SECTION_KEYS = Object.keys(SECTIONS) as ImportSectionKey[];
+
+// What makes two items "the same" for the de-duplicating merge.
+const IDENTITY: { [K in ListSectionKey]: (item: ListItem<K>) => string } = {
+  styles: (style) => normalizeKey(style.name),
+  sizes: (size) => normalizeKey(size.name),
+  colors: (color) => normalizeKey(color.name),
+  fabrics: (fabric) => normalizeKey(fabric.name),
+  mattresses: (mattress) => normalizeKey(mattress.name),
+  faqs: (faq) => `${normalizeKey(faq.question)}\n${normalizeKey(faq.answer)}`,
+};
+
+const isTextSection = (key: ImportSectionKey): key is TextSectionKey =>
+  key === "short_description" || key === "description" || key === "delivery_info" || key === "returns_guarantee";
+
+export const sectionLabel = (key: ImportSectionKey) => SECTIONS[key].label;
+
+export const extractSection = <K extends ImportSectionKey>(product: Product, key: K): ImportSectionValues[K] =>
+  SECTIONS[key].extract(product);
+
+export const describeSection = <K extends ImportSectionKey>(key: K, value: ImportSectionValues[K]) =>
+  SECTIONS[key].describe(value);
+
+export const sectionSize = (key: ImportSectionKey, value: ImportSectionValues[ImportSectionKey]) =>
+  isTextSection(key) ? (value ? 1 : 0) : (value as unknown[]).length;
+
+const mergeText = (current: string, incoming: string, strategy: MergeStrategy) => {
+  const existing = current.trim();
+  if (strategy === "replace" || !existing) return incoming;
+  if (!incoming) return existing;
+  // Text is "already there" when the incoming paragraph appears in it verbatim.
+  if (strategy === "dedupe" && normalizeKey(existing).includes(normalizeKey(incoming))) return existing;
+  return `${existing}\n\n${incoming}`;
+};
+
+const mergeList = <K extends ListSectionKey>(key: K, current: ListItem<K>[], incoming: ListItem<K>[], strategy: MergeStrategy) => {
+  if (strategy === "replace") return incoming;
+  if (strategy === "append") return [...current, ...incoming];
+  const identity = IDENTITY[key] as (item: ListItem<K>) => string;
+  const seen = new Set(current.map(identity));
+  return [
+    ...current,
+    ...incoming.filter((item) => {
+      const id = identity(item);
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    }),
+  ];
+};
+
+export const mergeSection = <K extends ImportSectionKey>(
+  key: K,
+  current: ImportSectionValues[K],
+  incoming: ImportSectionValues[K],
+  strategy: MergeStrategy
+): ImportSectionValues[K] => {
+  if (isTextSection(key)) {
+    return mergeText(current as string, incoming as string, strategy) as ImportSectionValues[K];
+  }
+  const listKey = key as ListSectionKey;
+  return mergeList(
+    listKey,
+    current as ListItem<typeof listKey>[],
+    incoming as ListItem<typeof listKey>[],
+    strategy
+  ) as ImportSectionValues[K];
+};
+
+export const pickImportSections = (values: Partial<ProductFormValues>): ImportSectionValues => ({
+  styles: values.styles || [],
+  sizes: values.sizes || [],
+  colors: values.colors || [],
+  fabrics: values.fabrics || [],
+  mattresses: values.mattresses || [],
+  faqs: values.faqs || [],
+  short_description: values.short_description || "",
+  description: values.description || "",
+  delivery_info: values.delivery_info || "",
+  returns_guarantee: values.returns_guarantee || "",
+});
@@ -0,0 +1,266 @@
+import {
+  QueryCache,
+  QueryClient,
+  keepPreviousData,
+  queryOptions,
+  useQuery,
+  useQueryClient,
+  type QueryKey,
+} from "@tanstack/react-query";
+import { useCallback } from "react";
+import { toast } from "sonner";
+import { ApiError, apiGet } from "./api";
+import type {
+  Category,
+  CategoryFilter,
+  Collection,
+  DimensionTemplate,
+  FabricLibraryItem,
+  FilterOption,
+  FilterType,
+  HeroSlide,
+  PaginatedResponse,
+  Product,
+  Review,
+  StyleGroup,
+  SubCategory,
+} from "./types";
+
+declare module "@tanstack/react-query" {
+  interface Register {
+    queryMeta: { errorMessage?: string };
+  }
+}
+
+export const queryClient = new QueryClient({
+  // One toast per failed fetch, using the message the page used to show itself.
+  queryCache: new QueryCache({
+    onError: (_error, query) => {
+      if (query.meta?.errorMessage) toast.error(query.meta.errorMessage);
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      staleTime: 30_000,
+      // Client errors (403, 404) will not fix themselves on retry.
+      retry: (failureCount, error) =>
+        !(error instanceof ApiError && error.status >= 400 && error.status < 500) && failureCount < 2,
+    },
+  },
+});
+
+export type ProductListParams = {
+  page: number;
+  pageSize: number;
+  search: string;
+  // DRF ordering syntax, e.g. "name" or "-price"; several fields are comma separated.
+  ordering: string;
+  category: string;
+};
+
+export const queryKeys = {
+  products: ["products"] as const,
+  productList: () => [...queryKeys.products, "list"] as const,
+  allProducts: () => [...queryKeys.products, "all"] as const,
+  productPage: (params: ProductListParams) => [...queryKeys.products, "page", params] as const,
+  productDetail: (id: number | string) => [...queryKeys.products, "detail", String(id)] as const,
+  categories: ["categories"] as const,
+  subcategories: ["subcategories"] as const,
+  filterTypes: ["filter-types"] as const,
+  filterOptions: ["filter-options"] as const,
+  categoryFilters: ["category-filters"] as const,
+  categoryFilterSet: (slug: string, subcategory: number | null) =>
+    [...queryKeys.categoryFilters, "for-category", slug, subcategory] as const,
+  collections: ["collections"] as const,
+  reviews: ["reviews"] as const,
+  heroSlides: ["hero-slides"] as const,
+  styleGroups: ["style-groups"] as const,
+  fabricLibrary: ["fabric-library"] as const,
+  dimensionTemplates: ["dimension-templates"] as const,
+};
+
+export type CatalogResource = Exclude<keyof typeof queryKeys, "productList" | "allProducts" | "productPage" | "productDetail" | "categoryFilterSet">;
+
+// Resources whose payloads embed names or children of another resource, so a change to the
+// key resource has to refresh them too (e.g. renaming a category changes `product.category_name`).
+const DEPENDENT_RESOURCES: Partial<Record<CatalogResource, CatalogResource[]>> = {
+  categories: ["subcategories", "products", "categoryFilters", "heroSlides", "dimensionTemplates"],
+  subcategories: ["categories", "products", "categoryFilters", "heroSlides", "dimensionTemplates"],
+  filterTypes: ["filterOptions", "categoryFilters"],
+  filterOptions: ["filterTypes"],
+  products: ["collections", "reviews", "styleGroups"],
+  fabricLibrary: ["products"],
+};
+
+// Some endpoints answer with a DRF page (`{ results }`) and some with a bare array.
+export const normalizeList = <T>(data: T[] | { results?: T[] }): T[] => {
+  if (Array.isArray(data)) return data;
+  if (Array.isArray(data.results)) return data.results;
+  return [];
+};
+
+const fetchList = async <T>(path: string) => normalizeList(await apiGet<T[] | { results?: T[] }>(path));
+
+export const useProducts = () =>
+  useQuery({
+    queryKey: queryKeys.productList(),
+    queryFn: () => fetchList<Product>("/products/"),
+    meta: { errorMessage: "Failed to load products" },
+  });
+
+export const fetchProductPage = async (params: ProductListParams): Promise<PaginatedResponse<Product>> => {
+  const query = new URLSearchParams({ page: String(params.page), page_size: String(params.pageSize) });
+  if (params.search) query.set("search", params.search);
+  if (params.ordering) query.set("ordering", params.ordering);
+  if (params.category) query.set("category", params.category);
+  const data = await apiGet<Product[] | PaginatedResponse<Product>>(`/products/?${query}`);
+  // An unpaginated backend answers with the whole list; treat it as a single page.
+  if (Array.isArray(data)) return { count: data.length, results: data };
+  return { ...data, results: normalizeList(data) };
+};
+
+const ALL_PRODUCTS_PAGE_SIZE = 100;
+
+// Walks every page of the list query, e.g. so an export matches the filters rather than just the visible page.
+export const fetchAllProducts = async (params: Omit<ProductListParams, "page" | "pageSize">) => {
+  const products: Product[] = [];
+  for (let page = 1; ; page += 1) {
+    const data = await fetchProductPage({ ...params, page, pageSize: ALL_PRODUCTS_PAGE_SIZE });
+    products.push(...data.results);
+    if (!data.next || data.results.length === 0 || products.length >= data.count) break;
+  }
+  return products;
+};
+
+// Every product, not just the first page: for library pushes, resyncs and usage counts that must reach the whole catalogue.
+export const useAllProducts = () =>
+  useQuery({
+    queryKey: queryKeys.allProducts(),
+    queryFn: () => fetchAllProducts({ search: "", ordering: "", category: "" }),
+    meta: { errorMessage: "Failed to load products" },
+  });
+
+export const useProductPage = (params: ProductListParams) =>
+  useQuery({
+    queryKey: queryKeys.productPage(params),
+    queryFn: () => fetchProductPage(params),
+    // Keep the current rows on screen while the next page or sort order loads.
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: "Failed to load products" },
+  });
+
+// No error meta: callers (the editor, the section importers) each word their own failure toast.
+export const productDetailQuery = (id: number | string) =>
+  queryOptions({
+    queryKey: queryKeys.productDetail(id),
+    queryFn: () => apiGet<Product>(`/products/${id}/`),
+  });
+
+export const useCategories = () =>
+  useQuery({
+    queryKey: queryKeys.categories,
+    queryFn: () => fetchList<Category>("/categories/"),
+    meta: { errorMessage: "Failed to load categories" },
+  });
+
+export const useSubcategories = () =>
+  useQuery({
+    queryKey: queryKeys.subcategories,
+    queryFn: () => fetchList<SubCategory>("/subcategories/"),
+    meta: { errorMessage: "Failed to load subcategories" },
+  });
+
+export const useFilterTypes = () =>
+  useQuery({
+    queryKey: queryKeys.filterTypes,
+    queryFn: () => fetchList<FilterType>("/filter-types/"),
+    meta: { errorMessage: "Failed to load filters" },
+  });
+
+export const useFilterOptions = () =>
+  useQuery({
+    queryKey: queryKeys.filterOptions,
+    queryFn: () => fetchList<FilterOption>("/filter-options/"),
+    meta: { errorMessage: "Failed to load filter options" },
+  });
+
+export const useCategoryFilters = () =>
+  useQuery({
+    queryKey: queryKeys.categoryFilters,
+    queryFn: () => fetchList<CategoryFilter>("/category-filters/"),
+    meta: { errorMessage: "Failed to load category filters" },
+  });
+
+// Filter types assigned to a category, each tagged with the subcategory it was assigned to (if any).
+export const useCategoryFilterSet = (slug?: string, subcategory?: number | null) =>
+  useQuery({
+    queryKey: queryKeys.categoryFilterSet(slug || "", subcategory ?? null),
+    queryFn: async () => {
+      const query = subcategory ? `?subcategory=${subcategory}` : "";
+      const res = await apiGet<{ filters: (FilterType & { subcategory?: number | null })[] }>(
+        `/categories/${slug}/filters/${query}`
+      );
+      return Array.isArray(res?.filters) ? res.filters : [];
+    },
+    enabled: Boolean(slug),
+  });
+
+export const useCollections = () =>
+  useQuery({
+    queryKey: queryKeys.collections,
+    queryFn: () => fetchList<Collection>("/collections/"),
+    meta: { errorMessage: "Failed to load collections" },
+  });
+
+export const useReviews = () =>
+  useQuery({
+    queryKey: queryKeys.reviews,
+    queryFn: () => fetchList<Review>("/reviews/"),
+    meta: { errorMessage: "Failed to load reviews" },
+  });
+
+export const useHeroSlides = () =>
+  useQuery({
+    queryKey: queryKeys.heroSlides,
+    queryFn: () => fetchList<HeroSlide>("/hero-slides/"),
+    meta: { errorMessage: "Failed to load hero slides" },
+  });
+
+export const useStyleGroups = () =>
+  useQuery({
+    queryKey: queryKeys.styleGroups,
+    queryFn: () => fetchList<StyleGroup>("/style-groups/"),
+    meta: { errorMessage: "Failed to load the style library" },
+  });
+
+export const useFabricLibrary = () =>
+  useQuery({
+    queryKey: queryKeys.fabricLibrary,
+    queryFn: () => fetchList<FabricLibraryItem>("/fabric-library/"),
+    meta: { errorMessage: "Failed to load the fabric library" },
+  });
+
+export const useDimensionTemplates = () =>
+  useQuery({
+    queryKey: queryKeys.dimensionTemplates,
+    queryFn: () => fetchList<DimensionTemplate>("/dimension-templates/"),
+    meta: { errorMessage: "Failed to load dimension templates" },
+  });
+
+// Marks a resource (and everything that embeds it) stale after a mutation; mounted queries refetch.
+export const useInvalidate = () => {
+  const client = useQueryClient();
+  return useCallback(
+    (...resources: CatalogResource[]) => {
+      const keys = new Set<CatalogResource>();
+      resources.forEach((resource) => {
+        keys.add(resource);
+        (DEPENDENT_RESOURCES[resource] || []).forEach((dependent) => keys.add(dependent));
+      });
+      return Promise.all(
+        [...keys].map((resource) => client.invalidateQueries({ queryKey: queryKeys[resource] as QueryKey }))
+      );
+    },
+    [client]
+  );
+};
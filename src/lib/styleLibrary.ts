@@ -0,0 +1,121 @@
+import type { ProductFormValues } from "./productSchema";
+import type { Product, ProductStyle, StyleGroup } from "./types";
+
+export type StyleGroupOptionForm = {
+  label: string;
+  description: string;
+  icon_url: string;
+  price_delta: number;
+  // Comma separated size names while editing; empty means the option applies to every size.
+  sizes: string;
+};
+
+export type StyleGroupForm = {
+  name: string;
+  icon_url: string;
+  is_shared: boolean;
+  options: StyleGroupOptionForm[];
+};
+
+type FormStyle = NonNullable<ProductFormValues["styles"]>[number];
+type FormStyleOption = NonNullable<FormStyle["options"]>[number];
+
+export const emptyStyleGroupForm: StyleGroupForm = {
+  name: "",
+  icon_url: "",
+  is_shared: true,
+  options: [],
+};
+
+export const emptyStyleGroupOption: StyleGroupOptionForm = {
+  label: "",
+  description: "",
+  icon_url: "",
+  price_delta: 0,
+  sizes: "",
+};
+
+// Style names double as option keys on the storefront, so spaces become dashes like in the editor.
+const dashed = (value?: string) => (value || "").trim().replace(/\s+/g, "-");
+
+const normalizeKey = (value?: string) => dashed(value).toLowerCase();
+
+const splitSizes = (value: string) =>
+  value
+    .split(",")
+    .map((size) => size.trim())
+    .filter(Boolean);
+
+// Library options come back either as bare labels or as objects, with the older single `size` field.
+const normalizeOptions = (group: Pick<StyleGroup, "options">): FormStyleOption[] =>
+  (group.options || []).map((raw) => {
+    const option = typeof raw === "string" ? { label: raw } : raw;
+    return {
+      label: dashed(option.label),
+      description: option.description || "",
+      icon_url: option.icon_url || "",
+      price_delta: typeof option.price_delta === "number" ? Number(option.price_delta) : 0,
+      sizes: Array.isArray(option.sizes)
+        ? option.sizes.map((size) => String(size || "").trim()).filter(Boolean)
+        : option.size
+        ? [String(option.size).trim()]
+        : [],
+    };
+  });
+
+export const styleGroupToForm = (group: StyleGroup): StyleGroupForm => ({
+  name: group.name || "",
+  icon_url: group.icon_url || "",
+  is_shared: group.is_shared ?? true,
+  options: normalizeOptions(group).map((option) => ({
+    label: option.label || "",
+    description: option.description || "",
+    icon_url: option.icon_url || "",
+    price_delta: option.price_delta ?? 0,
+    sizes: (option.sizes || []).join(", "),
+  })),
+});
+
+export const styleGroupPayload = (form: StyleGroupForm) => ({
+  name: dashed(form.name),
+  icon_url: form.icon_url.trim(),
+  is_shared: form.is_shared,
+  options: form.options
+    .map((option) => ({
+      label: dashed(option.label),
+      description: option.description.trim(),
+      icon_url: option.icon_url.trim(),
+      price_delta: Number.isFinite(Number(option.price_delta)) ? Number(option.price_delta) : 0,
+      sizes: splitSizes(option.sizes),
+    }))
+    .filter((option) => option.label.length > 0),
+});
+
+// The shape the product editor's "Add from library" picker appends to the form.
+export const styleGroupToFormStyle = (group: StyleGroup): FormStyle => ({
+  name: dashed(group.name),
+  icon_url: group.icon_url || "",
+  is_shared: group.is_shared ?? false,
+  options: normalizeOptions(group),
+});
+
+// Products are linked to a group by name only, so "used by" counts every product with a style of that name.
+export const productsUsingStyleGroup = (group: Pick<StyleGroup, "name">, products: Product[]) => {
+  const key = normalizeKey(group.name);
+  if (!key) return [];
+  return products.filter((product) => (product.styles || []).some((style) => normalizeKey(style.name) === key));
+};
+
+// Rewrites the product's styles the way the editor saves them, with the library's icon and options
+// in place of the matching group. Other groups are passed through untouched.
+export const styleGroupPushPatch = (product: Product, group: StyleGroup) => {
+  const key = normalizeKey(group.name);
+  const options = normalizeOptions(group);
+  return {
+    styles: (product.styles || []).map((style: ProductStyle) =>
+      normalizeKey(style.name) === key
+        ? { name: style.name, icon_url: group.icon_url || "", options, is_shared: Boolean(style.is_shared) }
+        : { name: style.name, icon_url: style.icon_url || "", options: style.options, is_shared: Boolean(style.is_shared) }
+    ),
+  };
+};
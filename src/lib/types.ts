@@ -89,12 +89,40 @@ export interface ProductStyleOption {
   size?: string;
 }
 
+// A reusable style group from /style-groups/. Groups saved from a product carry that product's details.
+export interface StyleGroup {
+  id: number;
+  name: string;
+  icon_url?: string;
+  options: (ProductStyleOption & { sizes?: string[] })[] | string[];
+  is_shared?: boolean;
+  product_id?: number | null;
+  product_name?: string;
+  product_slug?: string;
+}
+
 export interface ProductFabric {
   id?: number;
   name: string;
   image_url?: string;
   is_shared?: boolean;
   colors?: ProductColor[];
+  // Set when the fabric is linked to a library fabric rather than entered by hand.
+  library_fabric?: number | null;
+}
+
+export interface FabricLibraryColor extends ProductColor {
+  // Discontinued colours stay in the library for reference but are no longer offered.
+  is_discontinued?: boolean;
+}
+
+// A fabric from /fabric-library/, shared by every product that links it.
+export interface FabricLibraryItem {
+  id: number;
+  name: string;
+  description?: string;
+  image_url?: string;
+  colors: FabricLibraryColor[];
 }
 
 export interface ProductMattress {
@@ -122,6 +150,29 @@ export interface ProductDimensionRow {
   values: Record<string, string>;
 }
 
+// "If a style or option mentioning `match` is offered, add `amount_cm` to `measurement`",
+// limited to the listed size columns (all of them when empty).
+export interface DimensionRule {
+  match: string;
+  measurement: string;
+  amount_cm: number;
+  sizes: string[];
+}
+
+// Starting columns and rows for a product's dimensions table, from /dimension-templates/.
+// A template without a category is the fallback for every category.
+export interface DimensionTemplate {
+  id: number;
+  name: string;
+  category?: number | null;
+  subcategory?: number | null;
+  category_name?: string;
+  subcategory_name?: string;
+  columns: string[];
+  rows: ProductDimensionRow[];
+  rules?: DimensionRule[];
+}
+
 export interface Product {
   id: number;
   name: string;
@@ -142,6 +193,9 @@ export interface Product {
   dimensions?: ProductDimensionRow[];
   dimension_images?: { size: string; url: string }[];
   show_dimensions_table?: boolean;
+  // How dimension cells are written: "190 cm (74.8\")", "190 cm" or '74.8"'.
+  dimension_units?: "both" | "cm" | "in";
+  dimension_rules?: DimensionRule[];
   faqs?: ProductFaq[];
   delivery_info?: string;
   returns_guarantee?: string;
@@ -259,3 +313,10 @@ export interface Review {
   created_by?: number | null;
   created_by_username?: string | null;
 }
+
+export interface PaginatedResponse<T> {
+  count: number;
+  next?: string | null;
+  previous?: string | null;
+  results: T[];
+}
@@ -0,0 +1,42 @@
+import { createContext, useContext, useEffect, useRef, type RefObject } from "react";
+
+export type UnsavedChangesGuard = {
+  // Read when someone tries to leave, so it can compare against the latest form values.
+  isDirty: () => boolean;
+  // Resolves true once the changes are stored; false keeps the user on the form to fix errors.
+  save: () => Promise<boolean>;
+  // Extra cleanup when the user throws their edits away, e.g. deleting an autosaved draft.
+  discard?: () => void;
+};
+
+export type UnsavedChangesContextValue = {
+  register: (guard: RefObject<UnsavedChangesGuard>) => () => void;
+  // Runs `action` straight away when nothing is dirty, otherwise once the user picks Save or Discard.
+  confirmLeave: (action: () => void) => void;
+};
+
+export const UnsavedChangesContext = createContext<UnsavedChangesContextValue | null>(null);
+
+const useUnsavedChangesContext = () => {
+  const context = useContext(UnsavedChangesContext);
+  if (!context) {
+    throw new Error("useUnsavedChanges must be used within an UnsavedChangesProvider");
+  }
+  return context;
+};
+
+export const useConfirmLeave = () => useUnsavedChangesContext().confirmLeave;
+
+// Registers an editor with the layout's guard. Returns `confirmLeave` for in-page exits like closing a modal.
+export const useUnsavedChanges = (guard: UnsavedChangesGuard) => {
+  const { register, confirmLeave } = useUnsavedChangesContext();
+  const guardRef = useRef(guard);
+
+  useEffect(() => {
+    guardRef.current = guard;
+  });
+
+  useEffect(() => register(guardRef), [register]);
+
+  return confirmLeave;
+};
@@ -0,0 +1,69 @@
+import { createContext, useCallback, useContext, useEffect, useId } from "react";
+import { ApiError } from "./api";
+import type { OptimizedImage } from "./imageOptimization";
+
+export type UploadStatus = "queued" | "uploading" | "retrying" | "done" | "failed" | "cancelled";
+
+export type UploadItem = {
+  id: string;
+  name: string;
+  status: UploadStatus;
+  // 0-1 for the current attempt.
+  progress: number;
+  attempts: number;
+  originalSize: number;
+  size: number;
+  error?: string;
+  // The page that queued it has closed, so there's nowhere to put the result and it can't be retried.
+  orphaned?: boolean;
+};
+
+export type UploadResult = OptimizedImage & { url: string };
+
+export type UploadSummary = {
+  uploaded: number;
+  failed: string[];
+  cancelled: number;
+};
+
+type UploadCallback = (result: UploadResult) => void;
+
+export type UploadQueueContextValue = {
+  // Settles once every file has uploaded, failed or been cancelled; it never rejects. `onUploaded` also
+  // fires for files that fail here and later succeed when retried from the upload panel.
+  enqueue: (files: File[], onUploaded: UploadCallback, owner: string) => Promise<UploadSummary>;
+  // Drops the owner's callbacks and stops its unfinished uploads.
+  release: (owner: string) => void;
+};
+
+export const UploadQueueContext = createContext<UploadQueueContextValue | null>(null);
+
+// Uploads are tied to the calling component: once it unmounts, results have nowhere to go and are discarded.
+export const useUploadQueue = () => {
+  const context = useContext(UploadQueueContext);
+  if (!context) {
+    throw new Error("useUploadQueue must be used within an UploadQueueProvider");
+  }
+  const { enqueue, release } = context;
+  const owner = useId();
+
+  useEffect(() => () => release(owner), [owner, release]);
+
+  const enqueueOwned = useCallback(
+    (files: File[], onUploaded: UploadCallback) => enqueue(files, onUploaded, owner),
+    [enqueue, owner]
+  );
+
+  return { enqueue: enqueueOwned };
+};
+
+export const MAX_UPLOAD_ATTEMPTS = 3;
+
+// 1s, then 2s, then 4s.
+export const retryDelay = (attempt: number) => 1000 * 2 ** (attempt - 1);
+
+// Validation errors (too large, wrong type) fail the same way every time, so only flaky failures are retried.
+export const isRetryableUploadError = (error: unknown) =>
+  !(error instanceof ApiError) || error.status === 408 || error.status === 429 || error.status >= 500;
+
+export const isFinished = (status: UploadStatus) => status === "done" || status === "failed" || status === "cancelled";
@@ -1,20 +1,41 @@
-import { useEffect, useMemo, useState, useRef } from 'react';
+import { useMemo, useState, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Edit, Trash2, Plus, X, ChevronDown, ChevronRight, FolderPlus, Filter } from 'lucide-react';
 import { toast } from 'sonner';
-import { apiDelete, apiGet, apiPost, apiPut, apiUpload, apiPatch } from '../lib/api';
-import type { Category, Product, SubCategory, FilterType, CategoryFilter, FilterOption } from '../lib/types';
+import FieldError from '../components/FieldError';
+import { apiDelete, apiPost, apiPut, apiPatch, getFieldErrors, type ApiFieldErrors } from '../lib/api';
+import { describeOptimization } from '../lib/imageOptimization';
+import { useUploadQueue } from '../lib/uploadQueue';
+import { queryKeys, useCategories, useCategoryFilters, useFilterTypes, useInvalidate, useProducts } from '../lib/queries';
+import type { Category, SubCategory, FilterType, FilterOption } from '../lib/types';
+import { useAuth } from '../lib/auth';
+import { useUnsavedChanges } from '../lib/unsavedChanges';
+
+type SubCategoryForm = {
+  name: string;
+  description: string;
+  imageUrl: string;
+  selectedProducts: number[];
+};
+
+const emptySubCategoryForm: SubCategoryForm = { name: '', description: '', imageUrl: '', selectedProducts: [] };
+
 const Categories = () => {
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [products, setProducts] = useState<Product[]>([]);
-  const [filterTypes, setFilterTypes] = useState<FilterType[]>([]);
-  const [categoryFilters, setCategoryFilters] = useState<CategoryFilter[]>([]);
+  const { can } = useAuth();
+  const { data: categoriesData = [] } = useCategories();
+  const { data: products = [] } = useProducts();
+  const { data: filterTypes = [] } = useFilterTypes();
+  const { data: categoryFilters = [] } = useCategoryFilters();
+  const queryClient = useQueryClient();
+  const invalidate = useInvalidate();
+  const { enqueue } = useUploadQueue();
   const [showCategoryModal, setShowCategoryModal] = useState(false);
   const [showSubCategoryModal, setShowSubCategoryModal] = useState(false);
   const [showFilterModal, setShowFilterModal] = useState(false);
-  const [editingFilterType, setEditingFilterType] = useState<FilterType | null>(null);
+  const [editingFilterTypeId, setEditingFilterTypeId] = useState<number | null>(null);
   const [editingOption, setEditingOption] = useState<FilterOption | null>(null);
   const [optionFormData, setOptionFormData] = useState({ name: '', slug: '', color_code: '' });
   const [optionEditData, setOptionEditData] = useState({ name: '', slug: '', color_code: '' });
@@ -22,17 +43,18 @@ const Categories = () => {
   const [editingSubCategory, setEditingSubCategory] = useState<SubCategory | null>(null);
   const [filterTargetCategoryId, setFilterTargetCategoryId] = useState<number | null>(null);
   const [selectedCategoryId, setSelectedCategoryId] = useState<number | null>(null);
-  const [expandedCategories, setExpandedCategories] = useState<Set<number>>(new Set());
+  // Categories start expanded; only the ones the user folds away are tracked.
+  const [collapsedCategories, setCollapsedCategories] = useState<Set<number>>(new Set());
   const [isUploading, setIsUploading] = useState(false);
   const [isSavingFilter, setIsSavingFilter] = useState(false);
+  const [categoryErrors, setCategoryErrors] = useState<ApiFieldErrors>({});
+  const [subCategoryErrors, setSubCategoryErrors] = useState<ApiFieldErrors>({});
 
   const [categoryName, setCategoryName] = useState('');
-  const [subCategoryFormData, setSubCategoryFormData] = useState({
-    name: '',
-    description: '',
-    imageUrl: '',
-    selectedProducts: [] as number[],
-  });
+  const [subCategoryFormData, setSubCategoryFormData] = useState(emptySubCategoryForm);
+  // Values each modal opened with, so closing it only asks for confirmation after real edits.
+  const [initialCategoryName, setInitialCategoryName] = useState('');
+  const [initialSubCategoryFormData, setInitialSubCategoryFormData] = useState(emptySubCategoryForm);
   const [filterForm, setFilterForm] = useState({
     filter_type: '',
     subcategory: '',
@@ -49,83 +71,56 @@ const Categories = () => {
   const [isCreatingType, setIsCreatingType] = useState(false);
   const descriptionRef = useRef<HTMLTextAreaElement | null>(null);
 
-  const loadData = async () => {
-    try {
-      const [categoriesRes, productsRes, filterTypesRes, catFiltersRes] = await Promise.all([
-        apiGet<Category[]>('/categories/'),
-        apiGet<Product[]>('/products/'),
-        apiGet<FilterType[]>('/filter-types/'),
-        apiGet<CategoryFilter[]>('/category-filters/'),
-      ]);
-      // Keep categories and their subcategories ordered consistently so newly created
-      // subcategories appear immediately near the top instead of "somewhere later".
-      const sortedCategories = [...categoriesRes]
+  // Keep categories and their subcategories ordered consistently so newly created
+  // subcategories appear immediately near the top instead of "somewhere later".
+  const categories = useMemo(
+    () =>
+      [...categoriesData]
         .map((c) => ({
           ...c,
           subcategories: [...(c.subcategories || [])].sort((a, b) => a.name.localeCompare(b.name)),
         }))
-        .sort((a, b) => a.name.localeCompare(b.name));
-
-      setCategories(sortedCategories);
-      setProducts(productsRes);
-      setFilterTypes(filterTypesRes);
-      setCategoryFilters(catFiltersRes);
-      setExpandedCategories(new Set(sortedCategories.map((c) => c.id)));
-    } catch {
-      toast.error('Failed to load categories');
-    }
-  };
-
-  useEffect(() => {
-    loadData();
-  }, []);
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [categoriesData]
+  );
 
-  useEffect(() => {
-    if (editingFilterType) {
-      const updated = filterTypes.find((ft) => ft.id === editingFilterType.id);
-      if (updated) {
-        setEditingFilterType(updated);
-      }
-    }
-  }, [filterTypes, editingFilterType]);
+  // Follows the cached filter type so option edits show up without reopening the editor.
+  const editingFilterType = filterTypes.find((ft) => ft.id === editingFilterTypeId) || null;
 
   const toggleCategory = (id: number) => {
-    const newExpanded = new Set(expandedCategories);
-    if (newExpanded.has(id)) {
-      newExpanded.delete(id);
+    const newCollapsed = new Set(collapsedCategories);
+    if (newCollapsed.has(id)) {
+      newCollapsed.delete(id);
     } else {
-      newExpanded.add(id);
+      newCollapsed.add(id);
     }
-    setExpandedCategories(newExpanded);
+    setCollapsedCategories(newCollapsed);
   };
 
   const openCategoryModal = (category?: Category) => {
-    if (category) {
-      setEditingCategory(category);
-      setCategoryName(category.name);
-    } else {
-      setEditingCategory(null);
-      setCategoryName('');
-    }
+    setEditingCategory(category || null);
+    setCategoryName(category?.name || '');
+    setInitialCategoryName(category?.name || '');
+    setCategoryErrors({});
     setShowCategoryModal(true);
   };
 
   const openSubCategoryModal = (categoryId: number, subCategory?: SubCategory) => {
     setSelectedCategoryId(categoryId);
-    if (subCategory) {
-      setEditingSubCategory(subCategory);
-      setSubCategoryFormData({
-        name: subCategory.name,
-        description: subCategory.description,
-        imageUrl: subCategory.image,
-        selectedProducts: products
-          .filter((p) => p.subcategory === subCategory.id)
-          .map((p) => p.id),
-      });
-    } else {
-      setEditingSubCategory(null);
-      setSubCategoryFormData({ name: '', description: '', imageUrl: '', selectedProducts: [] });
-    }
+    const next: SubCategoryForm = subCategory
+      ? {
+          name: subCategory.name,
+          description: subCategory.description,
+          imageUrl: subCategory.image,
+          selectedProducts: products
+            .filter((p) => p.subcategory === subCategory.id)
+            .map((p) => p.id),
+        }
+      : emptySubCategoryForm;
+    setEditingSubCategory(subCategory || null);
+    setSubCategoryFormData(next);
+    setInitialSubCategoryFormData(next);
+    setSubCategoryErrors({});
     setShowSubCategoryModal(true);
   };
 
@@ -194,8 +189,8 @@ const Categories = () => {
       if (!created) {
         throw lastError || new Error('Failed to create filter type');
       }
-      // Make sure the new filter type is available in local state immediately
-      setFilterTypes((prev) => [...prev, created!]);
+      // Make sure the new filter type is available in the cache immediately
+      queryClient.setQueryData<FilterType[]>(queryKeys.filterTypes, (prev) => [...(prev || []), created!]);
       const optionPayloads = quickFilterOptions
         .map((opt, idx) => ({
           name: (opt.name || '').trim(),
@@ -266,7 +261,7 @@ const Categories = () => {
       await apiPost('/category-filters/', payload);
       toast.success('Filter assigned');
       setShowFilterModal(false);
-      await loadData();
+      await invalidate('categoryFilters', 'filterTypes');
     } catch {
       toast.error('Failed to assign filter');
     } finally {
@@ -278,7 +273,7 @@ const Categories = () => {
     const created = await createFilterTypeFromQuickForm();
     if (!created) return;
     toast.success('Filter type created');
-    await loadData();
+    await invalidate('filterTypes');
   };
 
   const handleDeleteCategoryFilter = async (id: number) => {
@@ -286,16 +281,16 @@ const Categories = () => {
     try {
       await apiDelete(`/category-filters/${id}/`);
       toast.success('Filter removed');
-      await loadData();
+      await invalidate('categoryFilters');
     } catch {
       toast.error('Failed to remove filter');
     }
   };
 
-  const handleSaveCategory = async () => {
+  const handleSaveCategory = async (): Promise<boolean> => {
     if (!categoryName.trim()) {
       toast.error('Category name is required');
-      return;
+      return false;
     }
     try {
       if (editingCategory) {
@@ -313,16 +308,20 @@ const Categories = () => {
       }
       setShowCategoryModal(false);
       setCategoryName('');
-      await loadData();
-    } catch {
-      toast.error('Failed to save category');
+      await invalidate('categories');
+      return true;
+    } catch (error) {
+      const errors = getFieldErrors(error);
+      setCategoryErrors(errors);
+      toast.error(Object.keys(errors).length > 0 ? 'Please fix the highlighted fields' : 'Failed to save category');
+      return false;
     }
   };
 
-  const handleSaveSubCategory = async () => {
+  const handleSaveSubCategory = async (): Promise<boolean> => {
     if (!subCategoryFormData.name.trim() || !selectedCategoryId) {
       toast.error('Subcategory name is required');
-      return;
+      return false;
     }
     try {
       let targetSubId = editingSubCategory?.id;
@@ -355,18 +354,32 @@ const Categories = () => {
         );
       }
       setShowSubCategoryModal(false);
-      await loadData();
-    } catch {
-      toast.error('Failed to save subcategory');
+      await invalidate('subcategories');
+      return true;
+    } catch (error) {
+      const errors = getFieldErrors(error);
+      setSubCategoryErrors(errors);
+      toast.error(Object.keys(errors).length > 0 ? 'Please fix the highlighted fields' : 'Failed to save subcategory');
+      return false;
     }
   };
 
+  const isCategoryDirty = showCategoryModal && categoryName !== initialCategoryName;
+  const isSubCategoryDirty =
+    showSubCategoryModal && JSON.stringify(subCategoryFormData) !== JSON.stringify(initialSubCategoryFormData);
+
+  const confirmLeave = useUnsavedChanges({
+    isDirty: () => isCategoryDirty || isSubCategoryDirty,
+    save: async () =>
+      (!isCategoryDirty || (await handleSaveCategory())) && (!isSubCategoryDirty || (await handleSaveSubCategory())),
+  });
+
   const handleDeleteCategory = async (id: number) => {
     if (confirm('Are you sure you want to delete this category? This will also delete all subcategories.')) {
       try {
         await apiDelete(`/categories/${id}/`);
         toast.success('Category deleted successfully');
-        await loadData();
+        await invalidate('categories');
       } catch {
         toast.error('Failed to delete category');
       }
@@ -378,7 +391,7 @@ const Categories = () => {
       try {
         await apiDelete(`/subcategories/${id}/`);
         toast.success('Subcategory deleted successfully');
-        await loadData();
+        await invalidate('subcategories');
       } catch {
         toast.error('Failed to delete subcategory');
       }
@@ -440,7 +453,7 @@ const Categories = () => {
   const openFilterTypeEditor = (filterTypeId: number) => {
     const ft = filterTypes.find((f) => f.id === filterTypeId);
     if (ft) {
-      setEditingFilterType(ft);
+      setEditingFilterTypeId(ft.id);
       setEditingOption(null);
       setOptionFormData({ name: '', slug: '', color_code: '' });
       setOptionEditData({ name: '', slug: '', color_code: '' });
@@ -474,7 +487,7 @@ const Categories = () => {
       toast.success('Option updated');
       setEditingOption(null);
       setOptionEditData({ name: '', slug: '', color_code: '' });
-      await loadData();
+      await invalidate('filterOptions');
     } catch {
       toast.error('Failed to update option');
     }
@@ -495,7 +508,7 @@ const Categories = () => {
       });
       toast.success('Option added');
       setOptionFormData({ name: '', slug: '', color_code: '' });
-      await loadData();
+      await invalidate('filterOptions');
     } catch {
       toast.error('Failed to add option');
     }
@@ -507,7 +520,7 @@ const Categories = () => {
     try {
       await apiDelete(`/filter-options/${optionId}/`);
       toast.success('Option deleted');
-      await loadData();
+      await invalidate('filterOptions');
     } catch {
       toast.error('Failed to delete option');
     }
@@ -524,10 +537,10 @@ const Categories = () => {
     if (!file) return;
     setIsUploading(true);
     try {
-      const res = await apiUpload('/uploads/', file);
-      setSubCategoryFormData((prev) => ({ ...prev, imageUrl: res.url }));
-    } catch {
-      toast.error('Upload failed');
+      await enqueue([file], (res) => {
+        setSubCategoryFormData((prev) => ({ ...prev, imageUrl: res.url }));
+        toast.success(`Image uploaded (${describeOptimization(res)})`);
+      });
     } finally {
       setIsUploading(false);
     }
@@ -570,7 +583,7 @@ const Categories = () => {
                     onClick={() => toggleCategory(category.id)}
                     className="hover:bg-gray-100 rounded p-1"
                   >
-                    {expandedCategories.has(category.id) ? (
+                    {!collapsedCategories.has(category.id) ? (
                       <ChevronDown className="h-5 w-5" />
                     ) : (
                       <ChevronRight className="h-5 w-5" />
@@ -607,18 +620,20 @@ const Categories = () => {
                   >
                     <Edit className="h-4 w-4" />
                   </Button>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => handleDeleteCategory(category.id)}
-                  >
-                    <Trash2 className="h-4 w-4 text-destructive" />
-                  </Button>
+                  {can('catalog.delete') && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDeleteCategory(category.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardHeader>
 
-            {expandedCategories.has(category.id) && (
+            {!collapsedCategories.has(category.id) && (
               <CardContent className="space-y-4">
                 <div className="rounded-lg border border-border/70 p-3 bg-gray-50/60">
                   <div className="flex items-center justify-between mb-2">
@@ -653,14 +668,16 @@ const Categories = () => {
                           >
                             <Edit className="h-4 w-4" />
                           </button>
-                          <button
-                            type="button"
-                            onClick={() => handleDeleteCategoryFilter(cf.id)}
-                            className="text-destructive hover:opacity-80"
-                            title="Remove"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </button>
+                          {can('catalog.delete') && (
+                            <button
+                              type="button"
+                              onClick={() => handleDeleteCategoryFilter(cf.id)}
+                              className="text-destructive hover:opacity-80"
+                              title="Remove"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
                         </span>
                       ))}
                     </div>
@@ -700,13 +717,15 @@ const Categories = () => {
                             >
                               <Edit className="h-4 w-4" />
                             </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => handleDeleteSubCategory(sub.id)}
-                            >
-                              <Trash2 className="h-4 w-4 text-destructive" />
-                            </Button>
+                            {can('catalog.delete') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDeleteSubCategory(sub.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
                           </div>
                         </div>
                       );
@@ -729,7 +748,7 @@ const Categories = () => {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle>{editingCategory ? 'Edit Category' : 'Add New Category'}</CardTitle>
-                <Button variant="ghost" size="icon" onClick={() => setShowCategoryModal(false)}>
+                <Button variant="ghost" size="icon" onClick={() => confirmLeave(() => setShowCategoryModal(false))}>
                   <X className="h-4 w-4" />
                 </Button>
               </div>
@@ -743,10 +762,12 @@ const Categories = () => {
                   placeholder="e.g. Divan Beds"
                   autoFocus
                 />
+                <FieldError errors={categoryErrors} name="name" />
+                <FieldError errors={categoryErrors} name="slug" />
               </div>
 
               <div className="flex justify-end gap-2 pt-4">
-                <Button variant="outline" onClick={() => setShowCategoryModal(false)}>Cancel</Button>
+                <Button variant="outline" onClick={() => confirmLeave(() => setShowCategoryModal(false))}>Cancel</Button>
                 <Button onClick={handleSaveCategory}>
                   {editingCategory ? 'Update Category' : 'Create Category'}
                 </Button>
@@ -935,7 +956,7 @@ const Categories = () => {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle>{editingSubCategory ? 'Edit Subcategory' : 'Add New Subcategory'}</CardTitle>
-                <Button variant="ghost" size="icon" onClick={() => setShowSubCategoryModal(false)}>
+                <Button variant="ghost" size="icon" onClick={() => confirmLeave(() => setShowSubCategoryModal(false))}>
                   <X className="h-4 w-4" />
                 </Button>
               </div>
@@ -948,6 +969,8 @@ const Categories = () => {
                   onChange={(e) => setSubCategoryFormData({ ...subCategoryFormData, name: e.target.value })}
                   placeholder="e.g. Storage Divans"
                 />
+                <FieldError errors={subCategoryErrors} name="name" />
+                <FieldError errors={subCategoryErrors} name="slug" />
               </div>
 
               <div className="grid gap-2">
@@ -973,6 +996,7 @@ const Categories = () => {
                   className="flex min-h-20 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
                   placeholder="Brief description of this subcategory... (supports **bold**)"
                 />
+                <FieldError errors={subCategoryErrors} name="description" />
               </div>
 
               <div className="grid gap-2">
@@ -1004,6 +1028,7 @@ const Categories = () => {
                     </Button>
                   </div>
                 )}
+                <FieldError errors={subCategoryErrors} name="image" />
               </div>
 
               <div className="grid gap-2">
@@ -1027,7 +1052,7 @@ const Categories = () => {
               </div>
 
               <div className="flex justify-end gap-2 pt-4">
-                <Button variant="outline" onClick={() => setShowSubCategoryModal(false)}>Cancel</Button>
+                <Button variant="outline" onClick={() => confirmLeave(() => setShowSubCategoryModal(false))}>Cancel</Button>
                 <Button onClick={handleSaveSubCategory}>
                   {editingSubCategory ? 'Update Subcategory' : 'Create Subcategory'}
                 </Button>
@@ -1043,7 +1068,7 @@ const Categories = () => {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle>Edit Filter: {editingFilterType.name}</CardTitle>
-                <Button variant="ghost" size="icon" onClick={() => setEditingFilterType(null)}>
+                <Button variant="ghost" size="icon" onClick={() => setEditingFilterTypeId(null)}>
                   <X className="h-4 w-4" />
                 </Button>
               </div>
@@ -1123,13 +1148,15 @@ const Categories = () => {
                             <Edit className="h-4 w-4" />
                           </Button>
                         )}
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDeleteOption(opt.id)}
-                        >
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
+                        {can('catalog.delete') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteOption(opt.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -1,10 +1,16 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Input } from '../components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
-import { apiDelete, apiGet, apiPost, apiPut, apiUpload } from '../lib/api';
-import type { Collection, Product } from '../lib/types';
+import FieldError from '../components/FieldError';
+import { apiDelete, apiPost, apiPut, getFieldErrors, type ApiFieldErrors } from '../lib/api';
+import { useAuth } from '../lib/auth';
+import { describeOptimization } from '../lib/imageOptimization';
+import { useUploadQueue } from '../lib/uploadQueue';
+import { useCollections, useInvalidate, useProducts } from '../lib/queries';
+import { useUnsavedChanges } from '../lib/unsavedChanges';
+import type { Collection } from '../lib/types';
 import { toast } from 'sonner';
 
 type CollectionForm = {
@@ -27,43 +33,27 @@ const emptyForm: CollectionForm = {
 
 
 const Collections = () => {
-  const [collections, setCollections] = useState<Collection[]>([]);
-  const [products, setProducts] = useState<Product[]>([]);
+  const { can } = useAuth();
+  const { data: collections = [] } = useCollections();
+  const { data: products = [] } = useProducts();
   const [form, setForm] = useState<CollectionForm>(emptyForm);
+  // What the form held when it was opened, to tell real edits apart.
+  const [initialForm, setInitialForm] = useState<CollectionForm>(emptyForm);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<ApiFieldErrors>({});
 
-  const loadCollections = async () => {
-    try {
-      const data = await apiGet<Collection[]>('/collections/');
-      setCollections(data);
-    } catch {
-      setCollections([]);
-      toast.error('Failed to load collections');
-    }
-  };
-
-  useEffect(() => {
-    loadCollections();
-    const loadProducts = async () => {
-      try {
-        const data = await apiGet<Product[]>('/products/');
-        setProducts(data);
-      } catch {
-        setProducts([]);
-      }
-    };
-    loadProducts();
-  }, []);
+  const invalidate = useInvalidate();
+  const { enqueue } = useUploadQueue();
 
   const handleUpload = async (file: File) => {
     setIsUploading(true);
     try {
-      const res = await apiUpload('/uploads/', file);
-      setForm((prev) => ({ ...prev, image: res.url }));
-    } catch {
-      toast.error('Image upload failed – please try again');
+      await enqueue([file], (res) => {
+        setForm((prev) => ({ ...prev, image: res.url }));
+        toast.success(`Image uploaded (${describeOptimization(res)})`);
+      });
     } finally {
       setIsUploading(false);
     }
@@ -71,22 +61,24 @@ const Collections = () => {
 
   const resetForm = () => {
     setForm(emptyForm);
+    setInitialForm(emptyForm);
     setEditingId(null);
+    setFieldErrors({});
   };
 
-  const handleSave = async () => {
-    if (isSaving) return;
+  const handleSave = async (): Promise<boolean> => {
+    if (isSaving) return false;
     if (!form.name.trim()) {
       toast.error('Collection name is required');
-      return;
+      return false;
     }
     if (isUploading) {
       toast.error('Please wait for the image upload to finish');
-      return;
+      return false;
     }
     if (!form.image.trim()) {
       toast.error('Collection image is required');
-      return;
+      return false;
     }
     setIsSaving(true);
     const payload = {
@@ -105,9 +97,13 @@ const Collections = () => {
         toast.success('Collection created');
       }
       resetForm();
-      await loadCollections();
+      await invalidate('collections');
+      return true;
     } catch (error) {
-      toast.error('Failed to save collection');
+      const errors = getFieldErrors(error);
+      setFieldErrors(errors);
+      toast.error(Object.keys(errors).length > 0 ? 'Please fix the highlighted fields' : 'Failed to save collection');
+      return false;
     } finally {
       setIsSaving(false);
     }
@@ -115,15 +111,23 @@ const Collections = () => {
 
   const handleEdit = (collection: Collection) => {
     setEditingId(collection.id);
-    setForm({
+    setFieldErrors({});
+    const next: CollectionForm = {
       name: collection.name || '',
       description: collection.description || '',
       image: collection.image || '',
       sort_order: collection.sort_order ?? 0,
       products: collection.products || [],
-    });
+    };
+    setForm(next);
+    setInitialForm(next);
   };
 
+  const confirmLeave = useUnsavedChanges({
+    isDirty: () => JSON.stringify(form) !== JSON.stringify(initialForm),
+    save: handleSave,
+  });
+
   const toggleProduct = (productId: number) => {
     setForm((prev) => ({
       ...prev,
@@ -134,11 +138,11 @@ const Collections = () => {
   };
 
   const handleDelete = async (id: number) => {
-    if (!confirm('Delete this collection?')) return;
+    if (!can('catalog.delete') || !confirm('Delete this collection?')) return;
     try {
       await apiDelete(`/collections/${id}/`);
       toast.success('Collection deleted');
-      await loadCollections();
+      await invalidate('collections');
     } catch {
       toast.error('Failed to delete collection');
     }
@@ -151,94 +155,102 @@ const Collections = () => {
         <p className="text-muted-foreground">Create and manage homepage collections.</p>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>{editingId ? 'Edit Collection' : 'New Collection'}</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid gap-2">
-            <label className="text-sm font-medium">Name *</label>
-            <Input
-              value={form.name}
-              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
-              placeholder="e.g. Signature Beds"
-            />
-          </div>
+      {can('catalog.edit') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Collection' : 'New Collection'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Name *</label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Signature Beds"
+              />
+              <FieldError errors={fieldErrors} name="name" />
+              <FieldError errors={fieldErrors} name="slug" />
+            </div>
 
-          <div className="grid gap-2">
-            <label className="text-sm font-medium">Description</label>
-            <textarea
-              className="flex min-h-[100px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
-              value={form.description}
-              onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
-              placeholder="Short collection description..."
-            />
-          </div>
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Description</label>
+              <textarea
+                className="flex min-h-[100px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={form.description}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+                placeholder="Short collection description..."
+              />
+              <FieldError errors={fieldErrors} name="description" />
+            </div>
 
-          <div className="grid gap-2">
-            <label className="text-sm font-medium">Collection Image *</label>
-            <Input
-              type="file"
-              accept="image/*"
-              onChange={(e) => {
-                const file = e.target.files?.[0];
-                if (file) {
-                  handleUpload(file);
-                }
-              }}
-            />
-            {isUploading && <p className="text-xs text-muted-foreground">Uploading...</p>}
-            {form.image && (
-              <img
-                src={form.image}
-                alt="Collection preview"
-                className="h-28 w-40 rounded-md border object-cover"
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Collection Image *</label>
+              <Input
+                type="file"
+                accept="image/*"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) {
+                    handleUpload(file);
+                  }
+                }}
               />
-            )}
-          </div>
+              {isUploading && <p className="text-xs text-muted-foreground">Uploading...</p>}
+              <FieldError errors={fieldErrors} name="image" />
+              {form.image && (
+                <img
+                  src={form.image}
+                  alt="Collection preview"
+                  className="h-28 w-40 rounded-md border object-cover"
+                />
+              )}
+            </div>
 
-          <div className="grid gap-2">
-            <label className="text-sm font-medium">Sort Order</label>
-            <Input
-              type="number"
-              value={form.sort_order}
-              onChange={(e) =>
-                setForm((prev) => ({ ...prev, sort_order: Number(e.target.value) }))
-              }
-            />
-          </div>
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Sort Order</label>
+              <Input
+                type="number"
+                value={form.sort_order}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, sort_order: Number(e.target.value) }))
+                }
+              />
+              <FieldError errors={fieldErrors} name="sort_order" />
+            </div>
 
-          <div className="grid gap-2">
-            <label className="text-sm font-medium">Products in Collection</label>
-            <div className="max-h-48 overflow-y-auto rounded-md border bg-white p-3">
-              {products.map((product) => (
-                <label key={product.id} className="flex items-center gap-2 py-1 text-sm">
-                  <input
-                    type="checkbox"
-                    checked={form.products.includes(product.id)}
-                    onChange={() => toggleProduct(product.id)}
-                  />
-                  <span>{product.name}</span>
-                </label>
-              ))}
-              {products.length === 0 && (
-                <p className="text-sm text-muted-foreground">No products available.</p>
-              )}
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Products in Collection</label>
+              <div className="max-h-48 overflow-y-auto rounded-md border bg-white p-3">
+                {products.map((product) => (
+                  <label key={product.id} className="flex items-center gap-2 py-1 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.products.includes(product.id)}
+                      onChange={() => toggleProduct(product.id)}
+                    />
+                    <span>{product.name}</span>
+                  </label>
+                ))}
+                {products.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No products available.</p>
+                )}
+              </div>
+              <FieldError errors={fieldErrors} name="products" />
             </div>
-          </div>
 
-          <div className="flex items-center gap-3">
-            <Button onClick={handleSave} disabled={isSaving || isUploading}>
-              {editingId ? 'Update Collection' : 'Create Collection'}
-            </Button>
-            {editingId && (
-              <Button variant="outline" onClick={resetForm}>
-                Cancel
+            <div className="flex items-center gap-3">
+              <Button onClick={handleSave} disabled={isSaving || isUploading}>
+                {editingId ? 'Update Collection' : 'Create Collection'}
               </Button>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+              {editingId && (
+                <Button variant="outline" onClick={() => confirmLeave(resetForm)}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       <Card>
         <CardHeader>
@@ -276,17 +288,21 @@ const Collections = () => {
                   <TableCell>{collection.sort_order}</TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end gap-2">
-                      <Button variant="ghost" size="sm" onClick={() => handleEdit(collection)}>
-                        Edit
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="text-destructive"
-                        onClick={() => handleDelete(collection.id)}
-                      >
-                        Delete
-                      </Button>
+                      {can('catalog.edit') && (
+                        <Button variant="ghost" size="sm" onClick={() => confirmLeave(() => handleEdit(collection))}>
+                          Edit
+                        </Button>
+                      )}
+                      {can('catalog.delete') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() => handleDelete(collection.id)}
+                        >
+                          Delete
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -0,0 +1,412 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import FieldError from '../components/FieldError';
+import DimensionRulesEditor from '../components/DimensionRulesEditor';
+import { apiDelete, apiPost, apiPut, getFieldErrors, type ApiFieldErrors } from '../lib/api';
+import { useAuth } from '../lib/auth';
+import {
+  DEFAULT_DIMENSION_TEMPLATE,
+  dimensionTemplatePayload,
+  emptyDimensionTemplateForm,
+  removeTemplateColumn,
+  renameTemplateColumn,
+  templateRows,
+  templateToForm,
+  type DimensionTemplateForm,
+} from '../lib/dimensionTemplates';
+import { useCategories, useDimensionTemplates, useInvalidate } from '../lib/queries';
+import { useUnsavedChanges } from '../lib/unsavedChanges';
+import type { DimensionTemplate } from '../lib/types';
+import { toast } from 'sonner';
+
+const DimensionTemplates = () => {
+  const { can } = useAuth();
+  const { data: templates = [], isLoading } = useDimensionTemplates();
+  const { data: categories = [] } = useCategories();
+  const [form, setForm] = useState<DimensionTemplateForm>(emptyDimensionTemplateForm);
+  // What the form held when it was opened, to tell real edits apart.
+  const [initialForm, setInitialForm] = useState<DimensionTemplateForm>(emptyDimensionTemplateForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<ApiFieldErrors>({});
+
+  const invalidate = useInvalidate();
+  const subcategories = categories.find((c) => c.id === form.category)?.subcategories || [];
+
+  const resetForm = () => {
+    setForm(emptyDimensionTemplateForm);
+    setInitialForm(emptyDimensionTemplateForm);
+    setEditingId(null);
+    setFieldErrors({});
+  };
+
+  const addColumn = () => {
+    setForm((prev) => {
+      let name = `Column ${prev.columns.length + 1}`;
+      for (let n = prev.columns.length + 2; prev.columns.includes(name); n += 1) name = `Column ${n}`;
+      return {
+        ...prev,
+        columns: [...prev.columns, name],
+        rows: prev.rows.map((row) => ({ ...row, values: { ...row.values, [name]: '' } })),
+      };
+    });
+  };
+
+  const updateRow = (index: number, measurement: string, values: Record<string, string>) => {
+    setForm((prev) => ({
+      ...prev,
+      rows: prev.rows.map((row, i) => (i === index ? { measurement, values } : row)),
+    }));
+  };
+
+  const handleSave = async (): Promise<boolean> => {
+    if (isSaving) return false;
+    const payload = dimensionTemplatePayload(form);
+    if (!payload.name) {
+      toast.error('Template name is required');
+      return false;
+    }
+    if (payload.columns.length === 0) {
+      toast.error('Add at least one column');
+      return false;
+    }
+    if (payload.columns.length !== form.columns.filter((column) => column.trim()).length) {
+      toast.error('Column names must be unique');
+      return false;
+    }
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await apiPut(`/dimension-templates/${editingId}/`, payload);
+        toast.success('Template updated');
+      } else {
+        await apiPost('/dimension-templates/', payload);
+        toast.success('Template created');
+      }
+      resetForm();
+      await invalidate('dimensionTemplates');
+      return true;
+    } catch (error) {
+      const errors = getFieldErrors(error);
+      setFieldErrors(errors);
+      toast.error(Object.keys(errors).length > 0 ? 'Please fix the highlighted fields' : 'Failed to save template');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (template: DimensionTemplate) => {
+    const next = templateToForm(template);
+    setEditingId(template.id);
+    setFieldErrors({});
+    setForm(next);
+    setInitialForm(next);
+  };
+
+  const confirmLeave = useUnsavedChanges({
+    isDirty: () => JSON.stringify(form) !== JSON.stringify(initialForm),
+    save: handleSave,
+  });
+
+  const handleDelete = async (template: DimensionTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template? Existing products keep their dimensions.`)) return;
+    try {
+      await apiDelete(`/dimension-templates/${template.id}/`);
+      toast.success('Template deleted');
+      if (editingId === template.id) resetForm();
+      await invalidate('dimensionTemplates');
+    } catch {
+      toast.error('Failed to delete template');
+    }
+  };
+
+  const assignedTo = (template: DimensionTemplate) => {
+    if (!template.category && !template.subcategory) return 'All categories';
+    const category = categories.find((c) => c.id === template.category);
+    const categoryName = template.category_name || category?.name || `Category #${template.category}`;
+    if (!template.subcategory) return categoryName;
+    const subcategoryName =
+      template.subcategory_name ||
+      category?.subcategories?.find((s) => s.id === template.subcategory)?.name ||
+      `#${template.subcategory}`;
+    return `${categoryName} › ${subcategoryName}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-serif font-bold text-espresso">Dimension Templates</h2>
+        <p className="text-muted-foreground">
+          Starting columns and measurements for the product dimensions table, per category.
+        </p>
+      </div>
+
+      {can('catalog.edit') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Template' : 'New Template'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="grid gap-2">
+                <label className="text-sm font-medium">Name *</label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. Corner sofas"
+                />
+                <FieldError errors={fieldErrors} name="name" />
+              </div>
+              <div className="grid gap-2">
+                <label className="text-sm font-medium">Category</label>
+                <select
+                  className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                  value={form.category ?? ''}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      category: e.target.value ? Number(e.target.value) : null,
+                      subcategory: null,
+                    }))
+                  }
+                >
+                  <option value="">All categories</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+                <FieldError errors={fieldErrors} name="category" />
+              </div>
+              <div className="grid gap-2">
+                <label className="text-sm font-medium">Subcategory</label>
+                <select
+                  className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                  value={form.subcategory ?? ''}
+                  disabled={subcategories.length === 0}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, subcategory: e.target.value ? Number(e.target.value) : null }))
+                  }
+                >
+                  <option value="">Whole category</option>
+                  {subcategories.map((subcategory) => (
+                    <option key={subcategory.id} value={subcategory.id}>
+                      {subcategory.name}
+                    </option>
+                  ))}
+                </select>
+                <FieldError errors={fieldErrors} name="subcategory" />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={addColumn}>
+                <Plus className="h-4 w-4 mr-2" /> Add Column
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setForm((prev) => ({
+                    ...prev,
+                    rows: [
+                      ...prev.rows,
+                      { measurement: '', values: Object.fromEntries(prev.columns.map((column) => [column, ''])) },
+                    ],
+                  }))
+                }
+              >
+                <Plus className="h-4 w-4 mr-2" /> Add Measurement
+              </Button>
+              {form.columns.length === 0 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setForm((prev) => ({
+                      ...prev,
+                      columns: [...DEFAULT_DIMENSION_TEMPLATE.columns],
+                      rows: templateRows(DEFAULT_DIMENSION_TEMPLATE),
+                      rules: [...(DEFAULT_DIMENSION_TEMPLATE.rules || [])],
+                    }))
+                  }
+                >
+                  Start from {DEFAULT_DIMENSION_TEMPLATE.name}
+                </Button>
+              )}
+            </div>
+
+            <div className="overflow-x-auto rounded-md border">
+              <table className="text-sm">
+                <thead className="bg-muted/60">
+                  <tr>
+                    <th className="p-2 text-left font-medium">Measurement</th>
+                    {form.columns.map((column, index) => (
+                      <th key={index} className="p-2 text-left font-medium">
+                        <div className="flex items-center gap-1">
+                          <Input
+                            value={column}
+                            onChange={(e) => setForm((prev) => renameTemplateColumn(prev, index, e.target.value))}
+                            className="h-8 min-w-[130px]"
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-destructive"
+                            onClick={() => setForm((prev) => removeTemplateColumn(prev, index))}
+                            title={`Remove ${column} column`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </th>
+                    ))}
+                    <th className="p-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {form.rows.map((row, rowIndex) => (
+                    <tr key={rowIndex} className="border-t">
+                      <td className="p-2">
+                        <Input
+                          value={row.measurement}
+                          onChange={(e) => updateRow(rowIndex, e.target.value, row.values)}
+                          placeholder="e.g. Seat Height"
+                          className="h-8 min-w-[140px]"
+                        />
+                      </td>
+                      {form.columns.map((column, index) => (
+                        <td key={index} className="p-2">
+                          <Input
+                            value={row.values[column] || ''}
+                            onChange={(e) => updateRow(rowIndex, row.measurement, { ...row.values, [column]: e.target.value })}
+                            placeholder="Default value"
+                            className="h-8"
+                          />
+                        </td>
+                      ))}
+                      <td className="p-2">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setForm((prev) => ({ ...prev, rows: prev.rows.filter((_, i) => i !== rowIndex) }))}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                  {form.rows.length === 0 && (
+                    <tr>
+                      <td colSpan={form.columns.length + 2} className="p-4 text-center text-muted-foreground">
+                        No measurements yet.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <FieldError errors={fieldErrors} name="columns" />
+            <FieldError errors={fieldErrors} name="rows" />
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Adjustment rules</label>
+              <p className="text-xs text-muted-foreground">
+                Applied when a product in this category builds its table from the template.
+              </p>
+              <DimensionRulesEditor
+                rules={form.rules}
+                onChange={(rules) => setForm((prev) => ({ ...prev, rules }))}
+                columns={form.columns.filter((column) => column.trim())}
+                measurements={form.rows.map((row) => row.measurement).filter(Boolean)}
+              />
+              <FieldError errors={fieldErrors} name="rules" />
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Button onClick={handleSave} disabled={isSaving}>
+                {editingId ? 'Update Template' : 'Create Template'}
+              </Button>
+              {editingId && (
+                <Button variant="outline" onClick={() => confirmLeave(resetForm)}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Templates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Used for</TableHead>
+                <TableHead>Columns</TableHead>
+                <TableHead>Measurements</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell className="font-medium">{template.name}</TableCell>
+                  <TableCell>{assignedTo(template)}</TableCell>
+                  <TableCell className="max-w-[280px] truncate">{(template.columns || []).join(', ')}</TableCell>
+                  <TableCell className="max-w-[220px] truncate">
+                    {(template.rows || []).map((row) => row.measurement).join(', ')}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      {can('catalog.edit') && (
+                        <Button variant="ghost" size="sm" onClick={() => confirmLeave(() => handleEdit(template))}>
+                          Edit
+                        </Button>
+                      )}
+                      {can('catalog.delete') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() => handleDelete(template)}
+                        >
+                          Delete
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {templates.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    {isLoading
+                      ? 'Loading templates...'
+                      : `No templates yet. Products use ${DEFAULT_DIMENSION_TEMPLATE.name} until one is added.`}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DimensionTemplates;
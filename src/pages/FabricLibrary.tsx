@@ -0,0 +1,431 @@
+import { useState } from 'react';
+import { Ban, Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import FieldError from '../components/FieldError';
+import { apiDelete, apiPatch, apiPost, apiPut, getFieldErrors, type ApiFieldErrors } from '../lib/api';
+import { describeOptimization } from '../lib/imageOptimization';
+import { useUploadQueue } from '../lib/uploadQueue';
+import { useAuth } from '../lib/auth';
+import { runBulk, type BulkProgress } from '../lib/bulkActions';
+import {
+  discontinueColorPatch,
+  emptyFabricColor,
+  emptyFabricLibraryForm,
+  fabricPayload,
+  fabricToForm,
+  productsUsingFabric,
+  productsUsingFabricColor,
+  type FabricColorForm,
+  type FabricLibraryForm,
+} from '../lib/fabricLibrary';
+import { useAllProducts, useFabricLibrary, useInvalidate } from '../lib/queries';
+import { useUnsavedChanges } from '../lib/unsavedChanges';
+import type { FabricLibraryColor, FabricLibraryItem } from '../lib/types';
+import { cn } from '../lib/utils';
+import { toast } from 'sonner';
+
+const FabricLibrary = () => {
+  const { can } = useAuth();
+  const { data: fabrics = [], isLoading } = useFabricLibrary();
+  const { data: products = [] } = useAllProducts();
+  const [form, setForm] = useState<FabricLibraryForm>(emptyFabricLibraryForm);
+  // What the form held when it was opened, to tell real edits apart.
+  const [initialForm, setInitialForm] = useState<FabricLibraryForm>(emptyFabricLibraryForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<ApiFieldErrors>({});
+  const [discontinuing, setDiscontinuing] = useState<{ fabricId: number; progress: BulkProgress } | null>(null);
+
+  const invalidate = useInvalidate();
+  const { enqueue } = useUploadQueue();
+
+  const resetForm = () => {
+    setForm(emptyFabricLibraryForm);
+    setInitialForm(emptyFabricLibraryForm);
+    setEditingId(null);
+    setFieldErrors({});
+  };
+
+  const updateColor = (index: number, changes: Partial<FabricColorForm>) => {
+    setForm((prev) => ({
+      ...prev,
+      colors: prev.colors.map((color, i) => (i === index ? { ...color, ...changes } : color)),
+    }));
+  };
+
+  const handleUpload = async (file: File, onSuccess: (url: string) => void) => {
+    setIsUploading(true);
+    try {
+      await enqueue([file], (res) => {
+        onSuccess(res.url);
+        toast.success(`Image uploaded (${describeOptimization(res)})`);
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSave = async (): Promise<boolean> => {
+    if (isSaving) return false;
+    if (!form.name.trim()) {
+      toast.error('Fabric name is required');
+      return false;
+    }
+    if (isUploading) {
+      toast.error('Please wait for the image upload to finish');
+      return false;
+    }
+    const payload = fabricPayload(form);
+    if (payload.colors.length === 0) {
+      toast.error('Add at least one colour with a name');
+      return false;
+    }
+    // Products drop fabric colours without an image on save, so the library holds the same rule.
+    if (payload.colors.some((color) => !color.image_url)) {
+      toast.error('Upload an image for every colour');
+      return false;
+    }
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await apiPut(`/fabric-library/${editingId}/`, payload);
+        toast.success('Fabric updated');
+      } else {
+        await apiPost('/fabric-library/', payload);
+        toast.success('Fabric created');
+      }
+      resetForm();
+      await invalidate('fabricLibrary');
+      return true;
+    } catch (error) {
+      const errors = getFieldErrors(error);
+      setFieldErrors(errors);
+      toast.error(Object.keys(errors).length > 0 ? 'Please fix the highlighted fields' : 'Failed to save fabric');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (fabric: FabricLibraryItem) => {
+    const next = fabricToForm(fabric);
+    setEditingId(fabric.id);
+    setFieldErrors({});
+    setForm(next);
+    setInitialForm(next);
+  };
+
+  const confirmLeave = useUnsavedChanges({
+    isDirty: () => JSON.stringify(form) !== JSON.stringify(initialForm),
+    save: handleSave,
+  });
+
+  const handleDelete = async (fabric: FabricLibraryItem) => {
+    const users = productsUsingFabric(fabric, products).length;
+    const note = users > 0 ? ` ${users} product${users === 1 ? '' : 's'} keep their current copy of it.` : '';
+    if (!confirm(`Delete "${fabric.name}" from the fabric library?${note}`)) return;
+    try {
+      await apiDelete(`/fabric-library/${fabric.id}/`);
+      toast.success('Fabric deleted');
+      if (editingId === fabric.id) resetForm();
+      await invalidate('fabricLibrary');
+    } catch {
+      toast.error('Failed to delete fabric');
+    }
+  };
+
+  const setColorDiscontinued = (fabric: FabricLibraryItem, color: FabricLibraryColor, isDiscontinued: boolean) =>
+    apiPatch(`/fabric-library/${fabric.id}/`, {
+      colors: fabric.colors.map((c) => (c === color ? { ...c, is_discontinued: isDiscontinued } : c)),
+    });
+
+  const handleDiscontinue = async (fabric: FabricLibraryItem, color: FabricLibraryColor) => {
+    const targets = productsUsingFabricColor(fabric, color, products);
+    const note =
+      targets.length > 0
+        ? ` It will be removed from ${targets.length} product${targets.length === 1 ? '' : 's'}; fabrics left without colours are removed too.`
+        : '';
+    if (!confirm(`Discontinue ${fabric.name} in ${color.name}?${note}`)) return;
+    try {
+      await setColorDiscontinued(fabric, color, true);
+    } catch {
+      toast.error('Failed to discontinue colour');
+      return;
+    }
+    const failures = await runBulk(
+      targets,
+      (product) => apiPatch(`/products/${product.id}/`, discontinueColorPatch(product, fabric, color)),
+      (progress) => setDiscontinuing({ fabricId: fabric.id, progress })
+    );
+    setDiscontinuing(null);
+    await invalidate('fabricLibrary');
+    if (failures.length === 0) {
+      toast.success(
+        targets.length > 0
+          ? `${color.name} discontinued and removed from ${targets.length} product${targets.length === 1 ? '' : 's'}`
+          : `${color.name} discontinued`
+      );
+    } else {
+      toast.error(`${failures.length} of ${targets.length} products failed: ${failures.map((f) => f.name).join(', ')}`);
+    }
+  };
+
+  const handleRestore = async (fabric: FabricLibraryItem, color: FabricLibraryColor) => {
+    try {
+      await setColorDiscontinued(fabric, color, false);
+      toast.success(`${color.name} is available again. Products that dropped it need it re-added.`);
+      await invalidate('fabricLibrary');
+    } catch {
+      toast.error('Failed to restore colour');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-serif font-bold text-espresso">Fabric Library</h2>
+        <p className="text-muted-foreground">Fabrics and colour ranges that products link instead of re-entering.</p>
+      </div>
+
+      {can('catalog.edit') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Fabric' : 'New Fabric'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="grid gap-2">
+                <label className="text-sm font-medium">Name *</label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. Plush Velvet"
+                />
+                <FieldError errors={fieldErrors} name="name" />
+              </div>
+              <div className="grid gap-2">
+                <label className="text-sm font-medium">Swatch image</label>
+                <div className="flex items-center gap-2">
+                  {form.image_url && <img src={form.image_url} alt="" className="h-10 w-10 rounded border object-cover" />}
+                  <Input
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleUpload(file, (url) => setForm((prev) => ({ ...prev, image_url: url })));
+                    }}
+                  />
+                </div>
+                <FieldError errors={fieldErrors} name="image_url" />
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Description</label>
+              <textarea
+                className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={form.description}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+                placeholder="Composition, care notes..."
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Colours</label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm((prev) => ({ ...prev, colors: [...prev.colors, emptyFabricColor] }))}
+                >
+                  <Plus className="h-4 w-4 mr-2" /> Add Colour
+                </Button>
+              </div>
+              {form.colors.length === 0 && <p className="text-sm text-muted-foreground">No colours yet.</p>}
+              {form.colors.map((color, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 rounded-md border p-2">
+                  <div className="h-10 w-10 overflow-hidden rounded-md border">
+                    {color.image_url ? (
+                      <img src={color.image_url} alt={color.name} className="h-full w-full object-cover" />
+                    ) : (
+                      <div className="h-full w-full" style={{ backgroundColor: color.hex_code }} />
+                    )}
+                  </div>
+                  <input
+                    type="color"
+                    value={color.hex_code || '#d1d5db'}
+                    onChange={(e) => updateColor(index, { hex_code: e.target.value })}
+                    className="h-10 w-12 rounded"
+                  />
+                  <Input
+                    value={color.name}
+                    onChange={(e) => updateColor(index, { name: e.target.value })}
+                    placeholder="Colour name"
+                    className="flex-1 min-w-[160px]"
+                  />
+                  <Input
+                    type="file"
+                    accept="image/*"
+                    className="max-w-[220px]"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleUpload(file, (url) => updateColor(index, { image_url: url }));
+                    }}
+                  />
+                  <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={color.is_discontinued}
+                      onChange={(e) => updateColor(index, { is_discontinued: e.target.checked })}
+                    />
+                    Discontinued
+                  </label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setForm((prev) => ({ ...prev, colors: prev.colors.filter((_, i) => i !== index) }))}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+              <FieldError errors={fieldErrors} name="colors" />
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Button onClick={handleSave} disabled={isSaving || isUploading}>
+                {editingId ? 'Update Fabric' : 'Create Fabric'}
+              </Button>
+              {editingId && (
+                <Button variant="outline" onClick={() => confirmLeave(resetForm)}>
+                  Cancel
+                </Button>
+              )}
+              {isUploading && <span className="text-xs text-muted-foreground">Uploading...</span>}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Fabrics</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Swatch</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Colours</TableHead>
+                <TableHead>Used by</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fabrics.map((fabric) => {
+                const users = productsUsingFabric(fabric, products);
+                const isBusy = discontinuing?.fabricId === fabric.id;
+                return (
+                  <TableRow key={fabric.id}>
+                    <TableCell>
+                      {fabric.image_url ? (
+                        <img src={fabric.image_url} alt={fabric.name} className="h-12 w-12 rounded-md object-cover" />
+                      ) : (
+                        <span className="text-xs text-muted-foreground">No image</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-medium">{fabric.name}</TableCell>
+                    <TableCell>
+                      <div className="flex max-w-[420px] flex-wrap gap-1">
+                        {(fabric.colors || []).map((color, index) => (
+                          <span
+                            key={`${color.name}-${index}`}
+                            className={cn(
+                              'flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs',
+                              color.is_discontinued && 'text-muted-foreground line-through'
+                            )}
+                          >
+                            <span
+                              className="h-3 w-3 rounded-full border"
+                              style={{ backgroundColor: color.hex_code || '#d1d5db' }}
+                            />
+                            {color.name}
+                            {can('catalog.edit') &&
+                              (color.is_discontinued ? (
+                                <button
+                                  type="button"
+                                  title="Offer this colour again"
+                                  disabled={discontinuing !== null}
+                                  onClick={() => handleRestore(fabric, color)}
+                                >
+                                  <RotateCcw className="h-3 w-3" />
+                                </button>
+                              ) : (
+                                <button
+                                  type="button"
+                                  title="Discontinue this colour everywhere"
+                                  className="text-destructive"
+                                  disabled={discontinuing !== null}
+                                  onClick={() => handleDiscontinue(fabric, color)}
+                                >
+                                  <Ban className="h-3 w-3" />
+                                </button>
+                              ))}
+                          </span>
+                        ))}
+                      </div>
+                      {isBusy && (
+                        <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          Updating {discontinuing.progress.done} of {discontinuing.progress.total} products
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell title={users.map((product) => product.name).join('\n')}>
+                      {users.length} product{users.length === 1 ? '' : 's'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {can('catalog.edit') && (
+                          <Button variant="ghost" size="sm" onClick={() => confirmLeave(() => handleEdit(fabric))}>
+                            Edit
+                          </Button>
+                        )}
+                        {can('catalog.delete') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => handleDelete(fabric)}
+                          >
+                            Delete
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {fabrics.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    {isLoading ? 'Loading fabrics...' : 'No fabrics yet.'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default FabricLibrary;
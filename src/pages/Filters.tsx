@@ -1,21 +1,27 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Edit, Trash2, Plus, X, ChevronDown, ChevronRight, ToggleLeft, ToggleRight } from 'lucide-react';
 import { toast } from 'sonner';
-import { apiDelete, apiGet, apiPatch, apiPost, apiPut } from '../lib/api';
-import type { Category, CategoryFilter, FilterType, SubCategory } from '../lib/types';
+import FieldError from '../components/FieldError';
+import { apiDelete, apiPatch, apiPost, apiPut, getFieldErrors, type ApiFieldErrors } from '../lib/api';
+import { useAuth } from '../lib/auth';
+import { useCategories, useCategoryFilters, useFilterTypes, useInvalidate, useSubcategories } from '../lib/queries';
+import type { CategoryFilter, FilterType } from '../lib/types';
 
 const Filters = () => {
-  const [filterTypes, setFilterTypes] = useState<FilterType[]>([]);
-  const [categoryFilters, setCategoryFilters] = useState<CategoryFilter[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [subcategories, setSubcategories] = useState<SubCategory[]>([]);
+  const { can } = useAuth();
+  const { data: filterTypes = [] } = useFilterTypes();
+  const { data: categoryFilters = [] } = useCategoryFilters();
+  const { data: categories = [] } = useCategories();
+  const { data: subcategories = [] } = useSubcategories();
   const [showModal, setShowModal] = useState(false);
   const [editingType, setEditingType] = useState<FilterType | null>(null);
-  const [expandedTypes, setExpandedTypes] = useState<Set<number>>(new Set());
+  // Types start expanded; only the ones the user folds away are tracked.
+  const [collapsedTypes, setCollapsedTypes] = useState<Set<number>>(new Set());
   const [isUploading, setIsUploading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<ApiFieldErrors>({});
 
   const [formData, setFormData] = useState({
     name: '',
@@ -46,36 +52,16 @@ const Filters = () => {
     return subcategories.filter((s) => s.category === catId);
   }, [categoryFilterForm.category, subcategories]);
 
-  const loadData = async () => {
-    try {
-      const [filters, cats, subs, catFilters] = await Promise.all([
-        apiGet<FilterType[]>('/filter-types/'),
-        apiGet<Category[]>('/categories/'),
-        apiGet<SubCategory[]>('/subcategories/'),
-        apiGet<CategoryFilter[]>('/category-filters/'),
-      ]);
-      setFilterTypes(filters);
-      setExpandedTypes(new Set(filters.map((ft) => ft.id)));
-      setCategories(cats);
-      setSubcategories(subs);
-      setCategoryFilters(catFilters);
-    } catch {
-      toast.error('Failed to load filters');
-    }
-  };
-
-  useEffect(() => {
-    loadData();
-  }, []);
+  const invalidate = useInvalidate();
 
   const toggleExpand = (id: number) => {
-    const newExpanded = new Set(expandedTypes);
-    if (newExpanded.has(id)) {
-      newExpanded.delete(id);
+    const newCollapsed = new Set(collapsedTypes);
+    if (newCollapsed.has(id)) {
+      newCollapsed.delete(id);
     } else {
-      newExpanded.add(id);
+      newCollapsed.add(id);
     }
-    setExpandedTypes(newExpanded);
+    setCollapsedTypes(newCollapsed);
   };
 
   const openModal = (type?: FilterType) => {
@@ -96,6 +82,7 @@ const Filters = () => {
         is_expanded_by_default: true,
       });
     }
+    setFieldErrors({});
     setShowModal(true);
   };
 
@@ -119,21 +106,23 @@ const Filters = () => {
         await apiPost('/filter-types/', formData);
         toast.success('Filter type created successfully');
       }
-      loadData();
+      await invalidate('filterTypes');
       closeModal();
     } catch (error) {
-      toast.error('Failed to save filter type');
+      const errors = getFieldErrors(error);
+      setFieldErrors(errors);
+      toast.error(Object.keys(errors).length > 0 ? 'Please fix the highlighted fields' : 'Failed to save filter type');
     } finally {
       setIsUploading(false);
     }
   };
 
   const handleDeleteType = async (id: number) => {
-    if (!confirm('Are you sure you want to delete this filter type?')) return;
+    if (!can('catalog.delete') || !confirm('Are you sure you want to delete this filter type?')) return;
     try {
       await apiDelete(`/filter-types/${id}/`);
       toast.success('Filter type deleted successfully');
-      loadData();
+      await invalidate('filterTypes');
     } catch {
       toast.error('Failed to delete filter type');
     }
@@ -156,7 +145,7 @@ const Filters = () => {
       await apiPost('/filter-options/', payload);
       toast.success('Filter option added successfully');
       setOptionFormData({ name: '', slug: '', color_code: '' });
-      loadData();
+      await invalidate('filterOptions');
     } catch (error) {
       toast.error('Failed to add filter option');
     } finally {
@@ -191,7 +180,7 @@ const Filters = () => {
       toast.success('Filter option updated successfully');
       setEditingOption(null);
       setOptionEditData({ name: '', slug: '', color_code: '' });
-      loadData();
+      await invalidate('filterOptions');
     } catch (error) {
       toast.error('Failed to update filter option');
     } finally {
@@ -200,11 +189,11 @@ const Filters = () => {
   };
 
   const handleDeleteOption = async (_typeId: number, optionId: number) => {
-    if (!confirm('Are you sure you want to delete this filter option?')) return;
+    if (!can('catalog.delete') || !confirm('Are you sure you want to delete this filter option?')) return;
     try {
       await apiDelete(`/filter-options/${optionId}/`);
       toast.success('Filter option deleted successfully');
-      loadData();
+      await invalidate('filterOptions');
     } catch {
       toast.error('Failed to delete filter option');
     }
@@ -244,7 +233,7 @@ const Filters = () => {
         display_order: 0,
         is_active: true,
       });
-      loadData();
+      await invalidate('categoryFilters');
     } catch {
       toast.error('Failed to assign filter');
     } finally {
@@ -253,11 +242,11 @@ const Filters = () => {
   };
 
   const handleDeleteCategoryFilter = async (id: number) => {
-    if (!confirm('Remove this assignment?')) return;
+    if (!can('catalog.delete') || !confirm('Remove this assignment?')) return;
     try {
       await apiDelete(`/category-filters/${id}/`);
       toast.success('Assignment removed');
-      loadData();
+      await invalidate('categoryFilters');
     } catch {
       toast.error('Failed to remove assignment');
     }
@@ -266,7 +255,7 @@ const Filters = () => {
   const handleUpdateCategoryFilter = async (id: number, updates: Partial<CategoryFilter>) => {
     try {
       await apiPatch(`/category-filters/${id}/`, updates);
-      loadData();
+      await invalidate('categoryFilters');
     } catch {
       toast.error('Update failed');
     }
@@ -289,9 +278,11 @@ const Filters = () => {
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold">Product Filters</h1>
-        <Button onClick={() => openModal()}>
-          <Plus className="h-4 w-4 mr-2" /> Create Filter Type
-        </Button>
+        {can('catalog.edit') && (
+          <Button onClick={() => openModal()}>
+            <Plus className="h-4 w-4 mr-2" /> Create Filter Type
+          </Button>
+        )}
       </div>
 
       {filterTypes.map((type) => (
@@ -301,7 +292,7 @@ const Filters = () => {
               className="flex items-center gap-2 flex-1"
               onClick={() => toggleExpand(type.id)}
             >
-              {expandedTypes.has(type.id) ? (
+              {!collapsedTypes.has(type.id) ? (
                 <ChevronDown className="h-4 w-4" />
               ) : (
                 <ChevronRight className="h-4 w-4" />
@@ -314,24 +305,28 @@ const Filters = () => {
               </div>
             </div>
             <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => openModal(type)}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleDeleteType(type.id)}
-              >
-                <Trash2 className="h-4 w-4 text-destructive" />
-              </Button>
+              {can('catalog.edit') && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openModal(type)}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
+              {can('catalog.delete') && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDeleteType(type.id)}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              )}
             </div>
           </CardHeader>
 
-          {expandedTypes.has(type.id) && (
+          {!collapsedTypes.has(type.id) && (
             <CardContent className="space-y-4 border-t pt-4">
               {type.options.length > 0 && (
                 <div className="space-y-2">
@@ -408,21 +403,25 @@ const Filters = () => {
                               </Button>
                             </>
                           ) : (
+                            can('catalog.edit') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => startEditingOption(type.id, option)}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )
+                          )}
+                          {can('catalog.delete') && (
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => startEditingOption(type.id, option)}
+                              onClick={() => handleDeleteOption(type.id, option.id)}
                             >
-                              <Edit className="h-4 w-4" />
+                              <Trash2 className="h-4 w-4 text-destructive" />
                             </Button>
                           )}
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDeleteOption(type.id, option.id)}
-                          >
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
                         </div>
                       </div>
                     ))}
@@ -430,45 +429,47 @@ const Filters = () => {
                 </div>
               )}
 
-              <div className="pt-4 border-t space-y-3">
-                <h3 className="font-semibold">Add New Option</h3>
-                <Input
-                  placeholder="Option name (e.g., Small Single)"
-                  value={optionFormData.name}
-                  onChange={(e) =>
-                    setOptionFormData({
-                      ...optionFormData,
-                      name: e.target.value,
-                      slug: e.target.value.toLowerCase().replace(/\s+/g, '-'),
-                    })
-                  }
-                />
-                <Input
-                  placeholder="Slug (e.g., small-single)"
-                  value={optionFormData.slug}
-                  onChange={(e) =>
-                    setOptionFormData({ ...optionFormData, slug: e.target.value })
-                  }
-                />
-                {type.display_type === 'color_swatch' && (
+              {can('catalog.edit') && (
+                <div className="pt-4 border-t space-y-3">
+                  <h3 className="font-semibold">Add New Option</h3>
                   <Input
-                    type="color"
-                    value={optionFormData.color_code || '#000000'}
+                    placeholder="Option name (e.g., Small Single)"
+                    value={optionFormData.name}
                     onChange={(e) =>
                       setOptionFormData({
                         ...optionFormData,
-                        color_code: e.target.value,
+                        name: e.target.value,
+                        slug: e.target.value.toLowerCase().replace(/\s+/g, '-'),
                       })
                     }
                   />
-                )}
-                <Button
-                  onClick={() => handleAddOption(type.id)}
-                  disabled={isUploading}
-                >
-                  <Plus className="h-4 w-4 mr-2" /> Add Option
-                </Button>
-              </div>
+                  <Input
+                    placeholder="Slug (e.g., small-single)"
+                    value={optionFormData.slug}
+                    onChange={(e) =>
+                      setOptionFormData({ ...optionFormData, slug: e.target.value })
+                    }
+                  />
+                  {type.display_type === 'color_swatch' && (
+                    <Input
+                      type="color"
+                      value={optionFormData.color_code || '#000000'}
+                      onChange={(e) =>
+                        setOptionFormData({
+                          ...optionFormData,
+                          color_code: e.target.value,
+                        })
+                      }
+                    />
+                  )}
+                  <Button
+                    onClick={() => handleAddOption(type.id)}
+                    disabled={isUploading}
+                  >
+                    <Plus className="h-4 w-4 mr-2" /> Add Option
+                  </Button>
+                </div>
+              )}
             </CardContent>
           )}
         </Card>
@@ -482,103 +483,107 @@ const Filters = () => {
           </p>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid gap-3 md:grid-cols-2">
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Category (optional)</label>
-              <select
-                className="w-full rounded-md border border-input px-3 py-2 text-sm bg-white"
-                value={categoryFilterForm.category}
-                onChange={(e) =>
-                  setCategoryFilterForm({
-                    ...categoryFilterForm,
-                    category: e.target.value,
-                    subcategory: '', // reset subcategory if category selected
-                  })
-                }
-              >
-                <option value="">Select a category</option>
-                {categories.map((c) => (
-                  <option key={c.id} value={c.id}>
-                    {c.name}
-                  </option>
-                ))}
-              </select>
-            </div>
+          {can('catalog.edit') && (
+            <>
+              <div className="grid gap-3 md:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Category (optional)</label>
+                  <select
+                    className="w-full rounded-md border border-input px-3 py-2 text-sm bg-white"
+                    value={categoryFilterForm.category}
+                    onChange={(e) =>
+                      setCategoryFilterForm({
+                        ...categoryFilterForm,
+                        category: e.target.value,
+                        subcategory: '', // reset subcategory if category selected
+                      })
+                    }
+                  >
+                    <option value="">Select a category</option>
+                    {categories.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
 
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Subcategory (optional)</label>
-              <select
-                className="w-full rounded-md border border-input px-3 py-2 text-sm bg-white"
-                value={categoryFilterForm.subcategory}
-                onChange={(e) =>
-                  setCategoryFilterForm({
-                    ...categoryFilterForm,
-                    subcategory: e.target.value,
-                    category: '', // prefer subcategory specificity
-                  })
-                }
-              >
-                <option value="">Select a subcategory</option>
-                {filteredSubcategories.map((s) => (
-                  <option key={s.id} value={s.id}>
-                    {s.name} ({categories.find((c) => c.id === s.category)?.name || 'No category'})
-                  </option>
-                ))}
-              </select>
-              <p className="text-xs text-gray-500">Pick a subcategory for more specific filters; leave empty to target the whole category.</p>
-            </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Subcategory (optional)</label>
+                  <select
+                    className="w-full rounded-md border border-input px-3 py-2 text-sm bg-white"
+                    value={categoryFilterForm.subcategory}
+                    onChange={(e) =>
+                      setCategoryFilterForm({
+                        ...categoryFilterForm,
+                        subcategory: e.target.value,
+                        category: '', // prefer subcategory specificity
+                      })
+                    }
+                  >
+                    <option value="">Select a subcategory</option>
+                    {filteredSubcategories.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.name} ({categories.find((c) => c.id === s.category)?.name || 'No category'})
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500">Pick a subcategory for more specific filters; leave empty to target the whole category.</p>
+                </div>
 
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Filter Type</label>
-              <select
-                className="w-full rounded-md border border-input px-3 py-2 text-sm bg-white"
-                value={categoryFilterForm.filter_type}
-                onChange={(e) =>
-                  setCategoryFilterForm({
-                    ...categoryFilterForm,
-                    filter_type: e.target.value,
-                  })
-                }
-              >
-                <option value="">Select a filter type</option>
-                {filterTypes.map((ft) => (
-                  <option key={ft.id} value={ft.id}>
-                    {ft.name}
-                  </option>
-                ))}
-              </select>
-            </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Filter Type</label>
+                  <select
+                    className="w-full rounded-md border border-input px-3 py-2 text-sm bg-white"
+                    value={categoryFilterForm.filter_type}
+                    onChange={(e) =>
+                      setCategoryFilterForm({
+                        ...categoryFilterForm,
+                        filter_type: e.target.value,
+                      })
+                    }
+                  >
+                    <option value="">Select a filter type</option>
+                    {filterTypes.map((ft) => (
+                      <option key={ft.id} value={ft.id}>
+                        {ft.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
 
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Display Order</label>
-              <Input
-                type="number"
-                value={categoryFilterForm.display_order}
-                onChange={(e) =>
-                  setCategoryFilterForm({
-                    ...categoryFilterForm,
-                    display_order: Number(e.target.value),
-                  })
-                }
-              />
-              <label className="flex items-center gap-2 text-sm">
-                <input
-                  type="checkbox"
-                  checked={categoryFilterForm.is_active}
-                  onChange={(e) =>
-                    setCategoryFilterForm({
-                      ...categoryFilterForm,
-                      is_active: e.target.checked,
-                    })
-                  }
-                />
-                Active
-              </label>
-            </div>
-          </div>
-          <Button onClick={handleSaveCategoryFilter} disabled={isUploading}>
-            <Plus className="h-4 w-4 mr-2" /> Assign Filter
-          </Button>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Display Order</label>
+                  <Input
+                    type="number"
+                    value={categoryFilterForm.display_order}
+                    onChange={(e) =>
+                      setCategoryFilterForm({
+                        ...categoryFilterForm,
+                        display_order: Number(e.target.value),
+                      })
+                    }
+                  />
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={categoryFilterForm.is_active}
+                      onChange={(e) =>
+                        setCategoryFilterForm({
+                          ...categoryFilterForm,
+                          is_active: e.target.checked,
+                        })
+                      }
+                    />
+                    Active
+                  </label>
+                </div>
+              </div>
+              <Button onClick={handleSaveCategoryFilter} disabled={isUploading}>
+                <Plus className="h-4 w-4 mr-2" /> Assign Filter
+              </Button>
+            </>
+          )}
 
           <div className="pt-4 border-t space-y-3">
             <div className="flex items-center justify-between">
@@ -611,6 +616,7 @@ const Filters = () => {
                             type="number"
                             defaultValue={cf.display_order}
                             className="h-9 w-24"
+                            disabled={!can('catalog.edit')}
                             onBlur={(e) =>
                               handleUpdateCategoryFilter(cf.id, { display_order: Number(e.target.value) || 0 })
                             }
@@ -621,6 +627,7 @@ const Filters = () => {
                             variant="ghost"
                             size="sm"
                             onClick={() => handleUpdateCategoryFilter(cf.id, { is_active: !cf.is_active })}
+                            disabled={!can('catalog.edit')}
                             title={cf.is_active ? 'Deactivate' : 'Activate'}
                           >
                             {cf.is_active ? (
@@ -631,13 +638,15 @@ const Filters = () => {
                           </Button>
                         </td>
                         <td className="px-3 py-2 text-right">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDeleteCategoryFilter(cf.id)}
-                          >
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
+                          {can('catalog.delete') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteCategoryFilter(cf.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -677,11 +686,13 @@ const Filters = () => {
                   })
                 }
               />
+              <FieldError errors={fieldErrors} name="name" />
               <Input
                 placeholder="Slug (e.g., bed-size)"
                 value={formData.slug}
                 onChange={(e) => setFormData({ ...formData, slug: e.target.value })}
               />
+              <FieldError errors={fieldErrors} name="slug" />
               <div>
                 <label className="block text-sm font-medium mb-1">
                   Display Type
@@ -701,6 +712,7 @@ const Filters = () => {
                   <option value="radio">Radio Buttons</option>
                   <option value="dropdown">Dropdown Select</option>
                 </select>
+                <FieldError errors={fieldErrors} name="display_type" />
               </div>
               <label className="flex items-center gap-2">
                 <input
@@ -1,10 +1,16 @@
-import { useEffect, useMemo, useState, type ChangeEvent } from 'react';
+import { useMemo, useState, type ChangeEvent } from 'react';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Input } from '../components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
-import { apiDelete, apiGet, apiPatch, apiPost, apiPut, apiUpload } from '../lib/api';
-import type { Category, SubCategory, HeroSlide } from '../lib/types';
+import FieldError from '../components/FieldError';
+import { apiDelete, apiPatch, apiPost, apiPut, getFieldErrors, type ApiFieldErrors } from '../lib/api';
+import { useAuth } from '../lib/auth';
+import { describeOptimization } from '../lib/imageOptimization';
+import { useUploadQueue } from '../lib/uploadQueue';
+import { useCategories, useHeroSlides, useInvalidate, useSubcategories } from '../lib/queries';
+import { useUnsavedChanges } from '../lib/unsavedChanges';
+import type { HeroSlide } from '../lib/types';
 import { toast } from 'sonner';
 
 type HeroSlideForm = {
@@ -32,76 +38,38 @@ const emptyForm: HeroSlideForm = {
 };
 
 const HeroSlides = () => {
-  const [slides, setSlides] = useState<HeroSlide[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [subcategories, setSubcategories] = useState<SubCategory[]>([]);
+  const { can } = useAuth();
+  const { data: slides = [], isLoading } = useHeroSlides();
+  const { data: categories = [] } = useCategories();
+  const { data: allSubcategories = [] } = useSubcategories();
   const [form, setForm] = useState<HeroSlideForm>(emptyForm);
+  // What the form held when it was opened, to tell real edits apart.
+  const [initialForm, setInitialForm] = useState<HeroSlideForm>(emptyForm);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
+  const [fieldErrors, setFieldErrors] = useState<ApiFieldErrors>({});
 
   const sortedSlides = useMemo(
     () => [...slides].sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0) || (b.updated_at || '').localeCompare(a.updated_at || '')),
     [slides]
   );
 
-  const loadSlides = async () => {
-    setIsLoading(true);
-    try {
-      const data = await apiGet<HeroSlide[]>('/hero-slides/');
-      setSlides(data);
-    } catch (error) {
-      setSlides([]);
-      toast.error('Failed to load hero slides');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadSlides();
-    const loadCategories = async () => {
-      try {
-        const data = await apiGet<Category[]>('/categories/');
-        setCategories(data);
-      } catch {
-        setCategories([]);
-      }
-    };
-    loadCategories();
-  }, []);
+  const subcategories = useMemo(
+    () => (form.category ? allSubcategories.filter((sub) => sub.category === form.category) : []),
+    [allSubcategories, form.category]
+  );
 
-  useEffect(() => {
-    const loadSubs = async () => {
-      if (!form.category) {
-        setSubcategories([]);
-        setForm((prev) => ({ ...prev, subcategory: null }));
-        return;
-      }
-      try {
-        const data = await apiGet<SubCategory[]>(`/subcategories/?category=${form.category}`);
-        setSubcategories(data);
-        // If the current subcategory isn't in this list, clear it
-        if (form.subcategory && !data.find((s) => s.id === form.subcategory)) {
-          setForm((prev) => ({ ...prev, subcategory: null }));
-        }
-      } catch {
-        setSubcategories([]);
-        setForm((prev) => ({ ...prev, subcategory: null }));
-      }
-    };
-    loadSubs();
-  }, [form.category]);
+  const invalidate = useInvalidate();
+  const { enqueue } = useUploadQueue();
 
   const handleUpload = async (file: File) => {
     setIsUploading(true);
     try {
-      const res = await apiUpload('/uploads/', file);
-      setForm((prev) => ({ ...prev, image: res.url }));
-      toast.success('Image uploaded');
-    } catch {
-      toast.error('Image upload failed - please try again');
+      await enqueue([file], (res) => {
+        setForm((prev) => ({ ...prev, image: res.url }));
+        toast.success(`Image uploaded (${describeOptimization(res)})`);
+      });
     } finally {
       setIsUploading(false);
     }
@@ -109,22 +77,24 @@ const HeroSlides = () => {
 
   const resetForm = () => {
     setForm(emptyForm);
+    setInitialForm(emptyForm);
     setEditingId(null);
+    setFieldErrors({});
   };
 
-  const handleSave = async () => {
-    if (isSaving) return;
+  const handleSave = async (): Promise<boolean> => {
+    if (isSaving) return false;
     if (!form.title.trim()) {
       toast.error('Title is required');
-      return;
+      return false;
     }
     if (!form.image.trim()) {
       toast.error('Hero image is required');
-      return;
+      return false;
     }
     if (isUploading) {
       toast.error('Please wait for the image upload to finish');
-      return;
+      return false;
     }
 
     setIsSaving(true);
@@ -149,9 +119,13 @@ const HeroSlides = () => {
         toast.success('Hero slide created');
       }
       resetForm();
-      await loadSlides();
+      await invalidate('heroSlides');
+      return true;
     } catch (error) {
-      toast.error('Failed to save hero slide');
+      const errors = getFieldErrors(error);
+      setFieldErrors(errors);
+      toast.error(Object.keys(errors).length > 0 ? 'Please fix the highlighted fields' : 'Failed to save hero slide');
+      return false;
     } finally {
       setIsSaving(false);
     }
@@ -159,7 +133,8 @@ const HeroSlides = () => {
 
   const handleEdit = (slide: HeroSlide) => {
     setEditingId(slide.id ?? null);
-    setForm({
+    setFieldErrors({});
+    const next: HeroSlideForm = {
       title: slide.title || '',
       subtitle: slide.subtitle || '',
       category: slide.category ?? null,
@@ -169,18 +144,25 @@ const HeroSlides = () => {
       image: slide.image || '',
       is_active: slide.is_active !== false,
       sort_order: slide.sort_order ?? 0,
-    });
+    };
+    setForm(next);
+    setInitialForm(next);
   };
 
+  const confirmLeave = useUnsavedChanges({
+    isDirty: () => JSON.stringify(form) !== JSON.stringify(initialForm),
+    save: handleSave,
+  });
+
   const handleDelete = async (id?: number) => {
-    if (!id) return;
+    if (!id || !can('catalog.delete')) return;
     try {
       await apiDelete(`/hero-slides/${id}/`);
       toast.success('Hero slide removed');
       if (editingId === id) {
         resetForm();
       }
-      await loadSlides();
+      await invalidate('heroSlides');
     } catch {
       toast.error('Failed to delete hero slide');
     }
@@ -191,7 +173,7 @@ const HeroSlides = () => {
     try {
       await apiPatch(`/hero-slides/${slide.id}/`, { is_active: !slide.is_active });
       toast.success(slide.is_active ? 'Slide deactivated' : 'Slide activated');
-      await loadSlides();
+      await invalidate('heroSlides');
     } catch {
       toast.error('Unable to change status right now');
     }
@@ -211,150 +193,162 @@ const HeroSlides = () => {
           <h1 className="text-2xl font-semibold text-espresso">Hero Slider</h1>
           <p className="text-sm text-muted-foreground">Control the homepage hero slides per category.</p>
         </div>
-        <div className="flex gap-2">
-          <Button variant="outline" onClick={resetForm}>
-            Clear form
-          </Button>
-          <Button onClick={handleSave} disabled={isSaving}>
-            {editingId ? 'Update Slide' : 'Create Slide'}
-          </Button>
-        </div>
+        {can('catalog.edit') && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => confirmLeave(resetForm)}>
+              Clear form
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {editingId ? 'Update Slide' : 'Create Slide'}
+            </Button>
+          </div>
+        )}
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>{editingId ? 'Edit hero slide' : 'New hero slide'}</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid gap-4 md:grid-cols-2">
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-espresso">Title</label>
-              <Input
-                value={form.title}
-                onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
-                placeholder="Beds that feel like home"
-              />
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-espresso">Subtitle</label>
-              <Input
-                value={form.subtitle}
-                onChange={(e) => setForm((prev) => ({ ...prev, subtitle: e.target.value }))}
-                placeholder="Curated comfort for every room"
-              />
+      {can('catalog.edit') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit hero slide' : 'New hero slide'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-espresso">Title</label>
+                <Input
+                  value={form.title}
+                  onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+                  placeholder="Beds that feel like home"
+                />
+                <FieldError errors={fieldErrors} name="title" />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-espresso">Subtitle</label>
+                <Input
+                  value={form.subtitle}
+                  onChange={(e) => setForm((prev) => ({ ...prev, subtitle: e.target.value }))}
+                  placeholder="Curated comfort for every room"
+                />
+                <FieldError errors={fieldErrors} name="subtitle" />
+              </div>
             </div>
-          </div>
 
-          <div className="grid gap-4 md:grid-cols-2">
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-espresso">Category</label>
-              <select
-                value={form.category ?? ''}
-                onChange={(e) =>
-                  setForm((prev) => ({ ...prev, category: e.target.value ? Number(e.target.value) : null }))
-                }
-                className="w-full rounded-md border border-input bg-white px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
-              >
-                <option value="">No category (manual link)</option>
-                {categories.map((category) => (
-                  <option key={category.id} value={category.id}>
-                    {category.name}
-                  </option>
-                ))}
-              </select>
-              <p className="text-xs text-muted-foreground">
-                If left blank, the CTA link defaults to the selected category slug.
-              </p>
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-espresso">Subcategory</label>
-              <select
-                value={form.subcategory ?? ''}
-                onChange={(e) =>
-                  setForm((prev) => ({ ...prev, subcategory: e.target.value ? Number(e.target.value) : null }))
-                }
-                className="w-full rounded-md border border-input bg-white px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
-                disabled={!form.category || subcategories.length === 0}
-              >
-                <option value="">No subcategory</option>
-                {subcategories.map((subcategory) => (
-                  <option key={subcategory.id} value={subcategory.id}>
-                    {subcategory.name}
-                  </option>
-                ))}
-              </select>
-              <p className="text-xs text-muted-foreground">Optional. CTA will use subcategory slug when set.</p>
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-espresso">CTA label</label>
-              <Input
-                value={form.cta_text}
-                onChange={(e) => setForm((prev) => ({ ...prev, cta_text: e.target.value }))}
-                placeholder="Shop Beds"
-              />
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-espresso">Category</label>
+                <select
+                  value={form.category ?? ''}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, category: e.target.value ? Number(e.target.value) : null, subcategory: null }))
+                  }
+                  className="w-full rounded-md border border-input bg-white px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                >
+                  <option value="">No category (manual link)</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  If left blank, the CTA link defaults to the selected category slug.
+                </p>
+                <FieldError errors={fieldErrors} name="category" />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-espresso">Subcategory</label>
+                <select
+                  value={form.subcategory ?? ''}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, subcategory: e.target.value ? Number(e.target.value) : null }))
+                  }
+                  className="w-full rounded-md border border-input bg-white px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  disabled={!form.category || subcategories.length === 0}
+                >
+                  <option value="">No subcategory</option>
+                  {subcategories.map((subcategory) => (
+                    <option key={subcategory.id} value={subcategory.id}>
+                      {subcategory.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">Optional. CTA will use subcategory slug when set.</p>
+                <FieldError errors={fieldErrors} name="subcategory" />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-espresso">CTA label</label>
+                <Input
+                  value={form.cta_text}
+                  onChange={(e) => setForm((prev) => ({ ...prev, cta_text: e.target.value }))}
+                  placeholder="Shop Beds"
+                />
+                <FieldError errors={fieldErrors} name="cta_text" />
+              </div>
             </div>
-          </div>
 
-          <div className="grid gap-4 md:grid-cols-2">
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-espresso">CTA link</label>
-              <Input
-                value={form.cta_link}
-                onChange={(e) => setForm((prev) => ({ ...prev, cta_link: e.target.value }))}
-                placeholder="/category/beds"
-              />
-              <p className="text-xs text-muted-foreground">
-                You can paste a full URL or a relative link. Leave empty to auto-use the category link.
-              </p>
-            </div>
-            <div className="grid gap-2 md:grid-cols-2 md:items-end">
+            <div className="grid gap-4 md:grid-cols-2">
               <div className="space-y-2">
-                <label className="text-sm font-medium text-espresso">Sort order</label>
+                <label className="text-sm font-medium text-espresso">CTA link</label>
                 <Input
-                  type="number"
-                  value={form.sort_order}
-                  onChange={(e) => setForm((prev) => ({ ...prev, sort_order: Number(e.target.value) }))}
+                  value={form.cta_link}
+                  onChange={(e) => setForm((prev) => ({ ...prev, cta_link: e.target.value }))}
+                  placeholder="/category/beds"
                 />
+                <p className="text-xs text-muted-foreground">
+                  You can paste a full URL or a relative link. Leave empty to auto-use the category link.
+                </p>
+                <FieldError errors={fieldErrors} name="cta_link" />
+              </div>
+              <div className="grid gap-2 md:grid-cols-2 md:items-end">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-espresso">Sort order</label>
+                  <Input
+                    type="number"
+                    value={form.sort_order}
+                    onChange={(e) => setForm((prev) => ({ ...prev, sort_order: Number(e.target.value) }))}
+                  />
+                  <FieldError errors={fieldErrors} name="sort_order" />
+                </div>
+                <label className="flex items-center gap-2 text-sm font-medium text-espresso">
+                  <input
+                    type="checkbox"
+                    checked={form.is_active}
+                    onChange={(e) => setForm((prev) => ({ ...prev, is_active: e.target.checked }))}
+                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  Active on site
+                </label>
               </div>
-              <label className="flex items-center gap-2 text-sm font-medium text-espresso">
-                <input
-                  type="checkbox"
-                  checked={form.is_active}
-                  onChange={(e) => setForm((prev) => ({ ...prev, is_active: e.target.checked }))}
-                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
-                />
-                Active on site
-              </label>
             </div>
-          </div>
 
-          <div className="grid gap-4 md:grid-cols-[2fr,1fr]">
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-espresso">Hero image</label>
-              <Input
-                value={form.image}
-                onChange={(e) => setForm((prev) => ({ ...prev, image: e.target.value }))}
-                placeholder="https://..."
-              />
-              <div className="flex items-center gap-3">
-                <input
-                  type="file"
-                  accept="image/*"
-                  onChange={onFileInputChange}
-                  disabled={isUploading}
-                  className="text-sm"
+            <div className="grid gap-4 md:grid-cols-[2fr,1fr]">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-espresso">Hero image</label>
+                <Input
+                  value={form.image}
+                  onChange={(e) => setForm((prev) => ({ ...prev, image: e.target.value }))}
+                  placeholder="https://..."
                 />
-                {isUploading && <span className="text-xs text-muted-foreground">Uploading...</span>}
+                <div className="flex items-center gap-3">
+                  <input
+                    type="file"
+                    accept="image/*"
+                    onChange={onFileInputChange}
+                    disabled={isUploading}
+                    className="text-sm"
+                  />
+                  {isUploading && <span className="text-xs text-muted-foreground">Uploading...</span>}
+                </div>
+                <FieldError errors={fieldErrors} name="image" />
               </div>
+              {form.image && (
+                <div className="overflow-hidden rounded-lg border border-dashed">
+                  <img src={form.image} alt="Preview" className="h-40 w-full object-cover" />
+                </div>
+              )}
             </div>
-            {form.image && (
-              <div className="overflow-hidden rounded-lg border border-dashed">
-                <img src={form.image} alt="Preview" className="h-40 w-full object-cover" />
-              </div>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
 
       <Card>
         <CardHeader>
@@ -413,15 +407,21 @@ const HeroSlides = () => {
                       {slide.updated_at ? new Date(slide.updated_at).toLocaleString() : '—'}
                     </TableCell>
                     <TableCell className="space-x-2 text-right">
-                      <Button variant="ghost" size="sm" onClick={() => handleEdit(slide)}>
-                        Edit
-                      </Button>
-                      <Button variant="ghost" size="sm" onClick={() => handleToggleActive(slide)}>
-                        {slide.is_active ? 'Deactivate' : 'Activate'}
-                      </Button>
-                      <Button variant="ghost" size="sm" onClick={() => handleDelete(slide.id)}>
-                        Delete
-                      </Button>
+                      {can('catalog.edit') && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => confirmLeave(() => handleEdit(slide))}>
+                            Edit
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleToggleActive(slide)}>
+                            {slide.is_active ? 'Deactivate' : 'Activate'}
+                          </Button>
+                        </>
+                      )}
+                      {can('catalog.delete') && (
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(slide.id)}>
+                          Delete
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -1,23 +1,29 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Navigate, useLocation, type Location } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { LogIn } from 'lucide-react';
 import { toast } from 'sonner';
-import { apiPost } from '../lib/api';
+import { apiPost, clearSessionExpired, hasSessionExpired } from '../lib/api';
+import { useAuth, type AuthTokens } from '../lib/auth';
 
-interface LoginProps {
-  onLogin: () => void;
-}
-
-const Login = ({ onLogin }: LoginProps) => {
-  const navigate = useNavigate();
+const Login = () => {
+  const location = useLocation();
+  const { isAuthenticated, login } = useAuth();
   const [formData, setFormData] = useState({
     username: '',
     password: '',
+    remember: false,
   });
   const [isLoading, setIsLoading] = useState(false);
+  const [sessionExpired] = useState(hasSessionExpired);
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from && from.pathname !== '/login' ? `${from.pathname}${from.search}` : '/dashboard';
+
+  if (isAuthenticated) {
+    return <Navigate to={redirectTo} replace />;
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,16 +35,14 @@ const Login = ({ onLogin }: LoginProps) => {
 
     setIsLoading(true);
     try {
-      const res = await apiPost<{ access: string; refresh: string }>('/login/', {
+      const res = await apiPost<AuthTokens>('/login/', {
         username: formData.username,
         password: formData.password,
       });
-      localStorage.setItem('admin_token', res.access);
-      localStorage.setItem('admin_refresh', res.refresh);
-      localStorage.setItem('isLoggedIn', 'true');
+      login(res, formData.username, formData.remember);
+      clearSessionExpired();
+      // The auth state change re-renders this page into a redirect to `redirectTo`.
       toast.success('Login successful!');
-      onLogin();
-      navigate('/dashboard');
     } catch {
       toast.error('Login failed');
     } finally {
@@ -59,6 +63,11 @@ const Login = ({ onLogin }: LoginProps) => {
           <p className="text-muted-foreground">Sign in to manage your store</p>
         </CardHeader>
         <CardContent>
+          {sessionExpired && (
+            <div className="mb-5 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+              Your session has expired. Please sign in again to continue.
+            </div>
+          )}
           <form onSubmit={handleSubmit} className="space-y-5">
             <div className="space-y-2">
               <label className="text-sm font-medium text-gray-700">Username</label>
@@ -83,10 +92,17 @@ const Login = ({ onLogin }: LoginProps) => {
 
             <div className="flex items-center justify-between text-sm">
               <label className="flex items-center gap-2 cursor-pointer">
-                <input type="checkbox" className="h-4 w-4 rounded border-gray-300" />
+                <input
+                  type="checkbox"
+                  checked={formData.remember}
+                  onChange={(e) => setFormData({ ...formData, remember: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
                 <span className="text-gray-600">Remember me</span>
               </label>
-             
+              <span className="text-xs text-muted-foreground">
+                {formData.remember ? 'Stays signed in on this device' : 'Signs out when the tab closes or sits idle'}
+              </span>
             </div>
 
             <Button type="submit" className="w-full h-11 text-base font-medium" disabled={isLoading}>
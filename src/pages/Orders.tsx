@@ -4,10 +4,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '.
 import { Button } from '../components/ui/button';
 import { Eye, Truck, CheckCircle } from 'lucide-react';
 import { apiGet, apiPost } from '../lib/api';
+import { useAuth } from '../lib/auth';
 import type { Order, Product } from '../lib/types';
 import { toast } from 'sonner';
 
 const Orders = () => {
+  const { can } = useAuth();
   const [orders, setOrders] = useState<Order[]>([]);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isLoadingDetail, setIsLoadingDetail] = useState(false);
@@ -215,12 +217,16 @@ const Orders = () => {
                     >
                       <Eye className="h-4 w-4 mr-2" /> View
                     </Button>
-                    <Button variant="outline" size="sm" onClick={() => updateStatus(order.id, 'mark_paid')}>
-                      <CheckCircle className="h-4 w-4 mr-2" /> Paid
-                    </Button>
-                    <Button variant="outline" size="sm" onClick={() => updateStatus(order.id, 'mark_shipped')}>
-                      <Truck className="h-4 w-4 mr-2" /> Shipped
-                    </Button>
+                    {can('orders.update') && (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => updateStatus(order.id, 'mark_paid')}>
+                          <CheckCircle className="h-4 w-4 mr-2" /> Paid
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => updateStatus(order.id, 'mark_shipped')}>
+                          <Truck className="h-4 w-4 mr-2" /> Shipped
+                        </Button>
+                      </>
+                    )}
                   </TableCell>
                 </TableRow>
               ))}
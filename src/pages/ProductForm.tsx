@@ -1,65 +1,72 @@
 ﻿import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
-import { Plus, Trash2, ArrowLeft } from 'lucide-react';
-import { useNavigate, useParams, Link } from 'react-router-dom';
+import ImportSectionsDialog from '../components/ImportSectionsDialog';
+import ProductPreview, { type PreviewDevice } from '../components/ProductPreview';
+import PriceMatrix from '../components/PriceMatrix';
+import MattressPicker from '../components/MattressPicker';
+import DimensionRulesEditor from '../components/DimensionRulesEditor';
+import ImageGallery from '../components/ImageGallery';
+import { Plus, Trash2, ArrowLeft, Copy, Eye, Link2, RefreshCw } from 'lucide-react';
+import { useNavigate, useParams, useSearchParams, Link } from 'react-router-dom';
 import { toast } from 'sonner';
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useForm, useFieldArray, Controller } from 'react-hook-form';
-import type { FieldErrors } from 'react-hook-form';
-import { apiGet, apiPost, apiPut, apiUpload } from '../lib/api';
-import type { Category, Product, ProductDimensionRow, SubCategory, FilterType, FilterOption } from '../lib/types';
-
-const DIMENSION_SIZE_COLUMNS = [
-  '2ft6 Small Single',
-  '3ft Single',
-  '4ft Small Double',
-  '4ft6 Double',
-  '5ft King',
-  '6ft Super King',
-];
-
-const DEFAULT_DIMENSION_ROWS = [
-  {
-    measurement: 'Length',
-    values: {
-      '2ft6 Small Single': '190 cm (74.8")',
-      '3ft Single': '190 cm (74.8")',
-      '4ft Small Double': '190 cm (74.8")',
-      '4ft6 Double': '190 cm (74.8")',
-      '5ft King': '200 cm (78.7")',
-      '6ft Super King': '200 cm (78.7")',
-    },
-  },
-  {
-    measurement: 'Width',
-    values: {
-      '2ft6 Small Single': '75 cm (30.0")',
-      '3ft Single': '90 cm (35.4")',
-      '4ft Small Double': '120 cm (47.2")',
-      '4ft6 Double': '135 cm (53.1")',
-      '5ft King': '150 cm (59.1")',
-      '6ft Super King': '180 cm (70.9")',
-    },
-  },
-  {
-    measurement: 'Bed Height',
-    values: {
-      '2ft6 Small Single': '35 cm (13.8")',
-      '3ft Single': '35 cm (13.8")',
-      '4ft Small Double': '35 cm (13.8")',
-      '4ft6 Double': '35 cm (13.8")',
-      '5ft King': '35 cm (13.8")',
-      '6ft Super King': '35 cm (13.8")',
-    },
-  },
-];
-
+import type { FieldErrors, FieldPath } from 'react-hook-form';
+import { apiPatch, apiPost, apiPut, getFieldErrors } from '../lib/api';
+import { describeOptimization } from '../lib/imageOptimization';
+import { useUploadQueue, type UploadResult } from '../lib/uploadQueue';
+import { runBulk } from '../lib/bulkActions';
+import { deleteDraft, draftFingerprint, formatDraftAge, loadDraft, saveDraft, type Draft } from '../lib/drafts';
+import { useUnsavedChanges } from '../lib/unsavedChanges';
+import { cn } from '../lib/utils';
+import { buildPriceMatrix, hasPriceErrors } from '../lib/priceMatrix';
+import { createProductSchema, type ProductFormValues } from '../lib/productSchema';
+import { pickImportSections, type ImportSectionKey, type ImportSectionValues } from '../lib/productSections';
+import {
+  productDetailQuery,
+  useAllProducts,
+  useCategories,
+  useCategoryFilterSet,
+  useDimensionTemplates,
+  useFilterOptions,
+  useFilterTypes,
+  useFabricLibrary,
+  useInvalidate,
+  useStyleGroups,
+  useSubcategories,
+} from '../lib/queries';
+import { styleGroupToFormStyle } from '../lib/styleLibrary';
+import { activeColors, linkedFormFabric } from '../lib/fabricLibrary';
+import {
+  DEFAULT_DIMENSION_TEMPLATE,
+  matchDimensionTemplate,
+  sameColumns,
+  templateRows,
+  type DimensionTemplateDefinition,
+} from '../lib/dimensionTemplates';
+import {
+  DIMENSION_UNIT_LABELS,
+  convertDimensionRows,
+  detectDimensionUnitMode,
+  dimensionError,
+  findDimensionIssues,
+  formatDimension,
+  normalizeDimension,
+  type DimensionCmMemory,
+  type DimensionUnitMode,
+} from '../lib/dimensionUnits';
+import { activeDimensionRules, applyDimensionRules, cleanDimensionRules, describeDimensionRule } from '../lib/dimensionRules';
+import { mattressDrift, mattressFromProduct, mattressResyncPatch, productsOfferingMattress } from '../lib/mattresses';
+import type { ProductDimensionRow, FilterOption, Product } from '../lib/types';
+
+// Offered on top of whatever the category's template measures.
 const DIMENSION_MEASUREMENT_SUGGESTIONS = [
   'Length',
   'Width',
+  'Height',
   'Bed Height',
 ];
 
@@ -76,170 +83,12 @@ const COMMON_COLORS = [
   { name: 'Gold', hex: '#D97706' },
 ];
 
-const createProductSchema = (requireImages: boolean) =>
-  z.object({
-    name: z.string().min(1, 'Title is required'),
-    short_description: z.string().min(1, 'Short description is required'),
-    description: z.string().min(1, 'Long description is required'),
-    category: z.number().min(1, 'Category is required'),
-    subcategory: z.number().optional().nullable(),
-    price: z.number().min(0, 'Price must be 0 or more'),
-    original_price: z.number().nullable().optional(),
-    discount_percentage: z.number().min(0).max(100).optional().nullable(),
-    delivery_charges: z.number().min(0).optional().nullable(),
-    sort_order: z.number().optional(),
-    is_bestseller: z.boolean().optional(),
-    is_new: z.boolean().optional(),
-    show_size_icons: z.boolean().optional(),
-    images: z
-      .array(
-        z.object({
-          url: z.string().optional().nullable(),
-          color_name: z.string().optional().nullable(),
-        })
-      )
-      .optional(),
-    videos: z.array(z.object({ url: z.string().optional().nullable() })).optional(),
-    colors: z.array(z.object({ name: z.string().optional(), hex_code: z.string().optional(), image_url: z.string().optional() })).optional(),
-    sizes: z
-      .array(
-        z.object({
-          name: z.string().optional(),
-          description: z.string().optional(),
-          price_delta: z.number().optional(),
-        })
-      )
-      .optional(),
-    styles: z
-      .array(
-        z.object({
-          name: z.string().optional(),
-          icon_url: z.string().optional(),
-          size: z.string().optional(),
-          sizes: z.array(z.string()).optional(),
-          is_shared: z.boolean().optional(),
-          options: z
-            .array(
-              z.object({
-                label: z.string().optional(),
-                description: z.string().optional(),
-                icon_url: z.string().optional(),
-                price_delta: z.number().optional(),
-                size: z.string().optional(),
-                sizes: z.array(z.string()).optional(),
-              })
-            )
-            .optional(),
-        })
-      )
-      .optional(),
-    fabrics: z
-      .array(
-        z.object({
-          name: z.string().optional(),
-          image_url: z.string().optional(),
-          is_shared: z.boolean().optional(),
-          colors: z
-            .array(
-              z.object({
-                name: z.string().optional(),
-                hex_code: z.string().optional(),
-                image_url: z.string().optional(),
-              })
-            )
-            .optional(),
-        })
-      )
-      .optional(),
-    mattresses: z
-      .array(
-        z.object({
-          name: z.string().optional(),
-          description: z.string().optional(),
-          image_url: z.string().optional(),
-          price: z.number().nullable().optional(),
-          enable_bunk_positions: z.boolean().optional(),
-          price_top: z.number().nullable().optional(),
-          price_bottom: z.number().nullable().optional(),
-          price_both: z.number().nullable().optional(),
-          source_product: z.number().nullable().optional(),
-        })
-      )
-      .optional(),
-    features: z.array(z.string()).optional(),
-    dimensions: z
-      .array(
-        z.object({
-          measurement: z.string().optional(),
-          values: z.record(z.string(), z.string()).optional(),
-        })
-      )
-      .optional(),
-    dimension_images: z
-      .array(
-        z.object({
-          size: z.string().optional(),
-          url: z.string().optional(),
-        })
-      )
-      .optional(),
-    dimension_paragraph: z.string().optional(),
-    show_dimensions_table: z.boolean().optional(),
-    faqs: z
-      .array(
-        z.object({
-          question: z.string().optional(),
-          answer: z.string().optional(),
-        })
-      )
-      .optional(),
-    delivery_info: z.string().optional(),
-    returns_guarantee: z.string().optional(),
-    delivery_title: z.string().optional(),
-    returns_title: z.string().optional(),
-    custom_info_sections: z
-      .array(
-        z.object({
-          title: z.string().optional(),
-          content: z.string().optional(),
-        })
-      )
-      .optional(),
-    filter_values: z
-      .array(
-        z.object({
-          filter_option: z.number().optional().nullable(),
-        })
-      )
-      .optional(),
-  })
-  .superRefine((values, ctx) => {
-    if (!requireImages) return;
-    const images = (values.images || []).filter((img) => (img.url || '').trim().length > 0);
-    if (images.length === 0) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        path: ['images'],
-        message: 'At least one picture is required',
-      });
-    }
-  });
-
-type ProductFormValues = z.infer<ReturnType<typeof createProductSchema>>;
-
 type StyleOptionInput = { label: string; description: string; icon_url?: string; price_delta?: number; size?: string; sizes?: string[] };
-type StyleLibraryItem = {
-  id: number;
-  name: string;
-  icon_url?: string;
-  options: any[];
-  is_shared?: boolean;
-  product_id: number;
-  product_name: string;
-  product_slug: string;
-};
+// Field arrays whose rows take an uploaded file.
+type UploadTarget = 'images' | 'videos' | 'colors' | 'fabrics' | 'mattresses' | 'styles' | 'dimension_images';
 const MAX_INLINE_SVG_CHARS = 50000;
 const MAX_PRODUCT_PAYLOAD_BYTES = 2500000;
+const DRAFT_AUTOSAVE_MS = 10000;
 
 const readFileAsText = (file: File): Promise<string> =>
   new Promise((resolve, reject) => {
@@ -257,6 +106,16 @@ const minifySvgMarkup = (svg: string): string =>
     .replace(/>\s+</g, '><')
     .trim();
 
+// Flattens react-hook-form's nested error tree (e.g. sizes.2.name) into path/message pairs for the summary box.
+const collectErrorMessages = (node: unknown, path = ''): { path: string; message: string }[] => {
+  if (!node || typeof node !== 'object') return [];
+  const message = (node as { message?: unknown }).message;
+  if (typeof message === 'string' && message) return [{ path, message }];
+  return Object.entries(node as Record<string, unknown>)
+    .filter(([key]) => key !== 'ref' && key !== 'types')
+    .flatMap(([key, child]) => collectErrorMessages(child, path ? `${path}.${key}` : key));
+};
+
 const normalizeStyleOptions = (options: unknown, includeEmpty = false): StyleOptionInput[] => {
   if (!Array.isArray(options)) return [];
   return (
@@ -301,21 +160,44 @@ const ProductForm = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const isEditing = Boolean(id);
+  const [searchParams] = useSearchParams();
+  // "/products/new?duplicate=12" starts a new product pre-filled from product 12.
+  const duplicateId = isEditing ? null : searchParams.get('duplicate');
   const productSchema = createProductSchema(!isEditing);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [subcategories, setSubcategories] = useState<SubCategory[]>([]);
+  const queryClient = useQueryClient();
+  const invalidate = useInvalidate();
+  const { enqueue } = useUploadQueue();
+  const { data: categories = [] } = useCategories();
+  const { data: subcategories = [] } = useSubcategories();
+  const { data: filterTypes = [] } = useFilterTypes();
+  const { data: allFilterOptions = [] } = useFilterOptions();
+  // Mattress sources and the beds that offer them can be on any page of the product list.
+  const { data: allProducts = [], isLoading: isLoadingProducts } = useAllProducts();
+  const { data: dimensionTemplates = [] } = useDimensionTemplates();
   const [isUploading, setIsUploading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   // Track whether filter selections changed so we don't wipe them on save
   const [filterValuesDirty, setFilterValuesDirty] = useState(false);
-  const [mattressImportId, setMattressImportId] = useState('');
-  const [importProductOptions, setImportProductOptions] = useState<Product[]>([]);
-  const [selectedImportProductId, setSelectedImportProductId] = useState<number | null>(null);
-  const [filterOptions, setFilterOptions] = useState<FilterOption[]>([]);
-  const [categoryFilterOptions, setCategoryFilterOptions] = useState<FilterOption[]>([]);
-  const [dimensionColumns, setDimensionColumns] = useState<string[]>(() => [...DIMENSION_SIZE_COLUMNS]);
-
-  const { register, control, handleSubmit, formState: { errors }, setValue, watch } = useForm<ProductFormValues>({
+  // Sections to pre-tick in the import dialog; null while it is closed.
+  const [importSections, setImportSections] = useState<ImportSectionKey[] | null>(null);
+  // Width of the storefront preview pane; null while it is hidden.
+  const [previewDevice, setPreviewDevice] = useState<PreviewDevice | null>(null);
+  const [showPriceMatrix, setShowPriceMatrix] = useState(false);
+  const [showDimensionRules, setShowDimensionRules] = useState(false);
+  // Mattress row the picker links, 'new' to add a row; null while it is closed.
+  const [mattressPicker, setMattressPicker] = useState<number | 'new' | null>(null);
+  const [resyncingMattress, setResyncingMattress] = useState<number | null>(null);
+  const [dimensionColumns, setDimensionColumns] = useState<string[]>(() => [...DEFAULT_DIMENSION_TEMPLATE.columns]);
+  const dimensionCmMemory = useRef<DimensionCmMemory>(new Map());
+  // Duplicates get their own key so a copy never overwrites (or offers) the draft of a blank new product.
+  const draftKey = id ? `product:${id}` : duplicateId ? `product:duplicate:${duplicateId}` : 'product:new';
+  const [draft, setDraft] = useState<Draft<ProductFormValues> | null>(null);
+  const [loadedProductId, setLoadedProductId] = useState<string | null>(null);
+  // Fingerprints of the values as loaded and as last autosaved, so untouched forms never create drafts.
+  const draftBaseline = useRef<string | null>(null);
+  const lastSavedDraft = useRef<string | null>(null);
+
+  const { register, control, handleSubmit, formState: { errors }, setValue, setError, watch, getValues, reset } = useForm<ProductFormValues>({
     resolver: zodResolver(productSchema),
     defaultValues: {
       short_description: '',
@@ -338,6 +220,8 @@ const ProductForm = () => {
       dimension_images: [],
       dimension_paragraph: '',
       show_dimensions_table: true,
+      dimension_units: 'both',
+      dimension_rules: [],
       faqs: [],
       delivery_info: '',
       returns_guarantee: '',
@@ -351,18 +235,12 @@ const ProductForm = () => {
   // Define watched values early for use in effects
   const selectedCategory = watch('category');
   const selectedSubcategory = watch('subcategory');
+  const dimensionUnits: DimensionUnitMode = watch('dimension_units') || 'both';
   const featuresValue = (watch('features') || []).join('\n');
   const availableSubcategories = subcategories.filter((s) => s.category === selectedCategory);
   const watchPrice = watch('price');
   const watchDiscount = watch('discount_percentage');
   const watchedStyles = watch('styles') || [];
-  const hasWingbackHeadboard = watchedStyles.some((style) => {
-    const nameMatch = (style?.name || '').toLowerCase().includes('wingback');
-          const optionMatch = normalizeStyleOptions((style as { options?: unknown })?.options, false).some(
-            (option) => (option.label || '').toLowerCase().includes('wingback')
-          );
-    return nameMatch || optionMatch;
-  });
   const displayDiscountFactor =
     typeof watchDiscount === 'number' && !Number.isNaN(watchDiscount)
       ? 1 - watchDiscount / 100
@@ -372,50 +250,60 @@ const ProductForm = () => {
       ? (watchPrice / displayDiscountFactor).toFixed(2)
       : '';
 
+  const dimensionTemplate = matchDimensionTemplate(dimensionTemplates, selectedCategory, selectedSubcategory);
+  const productDimensionRules = watch('dimension_rules') || [];
+  const activeRules = activeDimensionRules([...(dimensionTemplate.rules || []), ...productDimensionRules], watchedStyles);
+  const measurementSuggestions = Array.from(
+    new Set([...dimensionTemplate.rows.map((row) => row.measurement), ...DIMENSION_MEASUREMENT_SUGGESTIONS])
+  );
+
+  // Saved products keep their own columns; only an empty table starts from the default sizes.
   const deriveDimensionColumnsFromRows = (rows: ProductDimensionRow[]) => {
-    const columnSet = new Set<string>(DIMENSION_SIZE_COLUMNS);
+    const columnSet = new Set<string>();
     rows.forEach((row) => Object.keys(row.values || {}).forEach((key) => columnSet.add(key)));
-    return Array.from(columnSet);
+    return columnSet.size > 0 ? Array.from(columnSet) : [...DEFAULT_DIMENSION_TEMPLATE.columns];
   };
 
-  const adjustWidthForWingback = (rows: ProductDimensionRow[]): ProductDimensionRow[] => {
-    if (!hasWingbackHeadboard) return rows;
-    return rows.map((row) => {
-      if ((row.measurement || '').toLowerCase() !== 'width') return row;
-      const adjustedValues: Record<string, string> = {};
-      Object.entries(row.values || {}).forEach(([size, rawValue]) => {
-        const value = String(rawValue || '');
-        const match = value.match(/(\d+(?:\.\d+)?)\s*cm\s*\((\d+(?:\.\d+)?)\s*\"?/i);
-        if (match) {
-          const cmValue = Number.parseFloat(match[1]);
-          const newCm = Number((cmValue + 4).toFixed(1));
-          const newInches = Number((newCm / 2.54).toFixed(1));
-          adjustedValues[size] = `${newCm} cm (${newInches}")`;
-        } else if (value.trim().length > 0) {
-          adjustedValues[size] = value;
-        } else {
-          adjustedValues[size] = '';
-        }
-      });
-      return { ...row, values: adjustedValues };
-    });
+  const handleDimensionUnitsChange = (mode: DimensionUnitMode) => {
+    const rows = convertDimensionRows(
+      (getValues('dimensions') || []).map((row) => ({ measurement: row.measurement || '', values: row.values || {} })),
+      dimensionUnits,
+      mode,
+      dimensionCmMemory.current
+    );
+    setValue('dimension_units', mode, { shouldDirty: true });
+    replaceDimensions(rows);
+    setValue('dimensions', rows, { shouldDirty: true });
+  };
+
+  const hasDimensionValues = (watch('dimensions') || []).some((row) =>
+    Object.values(row.values || {}).some((value) => String(value || '').trim())
+  );
+
+  const applyDimensionTemplate = (template: DimensionTemplateDefinition) => {
+    if (hasDimensionValues && !confirm(`Replace the dimensions table with the ${template.name} template?`)) return;
+    const rules = activeDimensionRules([...(template.rules || []), ...productDimensionRules], watchedStyles);
+    const rows = applyDimensionRules(convertDimensionRows(templateRows(template), 'cm', dimensionUnits), rules, dimensionUnits);
+    setDimensionColumns([...template.columns]);
+    replaceDimensions(rows);
+    setValue('dimensions', rows, { shouldDirty: true });
   };
 
   const handleUploadColorImage = async (file: File, index: number) => {
     if (!file) return;
     setIsUploading(true);
     try {
-      const res = await apiUpload('/uploads/', file);
-      setValue(`colors.${index}.image_url`, res.url);
-      toast.success('Color image uploaded');
-    } catch {
-      toast.error('Upload failed');
+      const applyUrl = atRow('colors', index, (row, url) => setValue(`colors.${row}.image_url`, url));
+      await enqueue([file], (res) => {
+        applyUrl(res.url);
+        toast.success(`Color image uploaded (${describeOptimization(res)})`);
+      });
     } finally {
       setIsUploading(false);
     }
   };
 
-  const { fields: imageFields, append: appendImage, remove: removeImage, replace: replaceImages } = useFieldArray({
+  const { fields: imageFields, append: appendImage, remove: removeImage, move: moveImage, replace: replaceImages } = useFieldArray({
     control,
     name: "images"
   });
@@ -430,8 +318,8 @@ const ProductForm = () => {
     name: "styles"
   });
   // legacy importProductId no longer used (kept for compatibility if needed)
-  const [styleLibrary, setStyleLibrary] = useState<StyleLibraryItem[]>([]);
-  const [isLoadingLibrary, setIsLoadingLibrary] = useState(false);
+  const { data: styleLibrary = [], isLoading: isLoadingLibrary } = useStyleGroups();
+  const { data: fabricLibrary = [], isLoading: isLoadingFabricLibrary } = useFabricLibrary();
 
   const { fields: sizeFields, append: appendSize, remove: removeSize, replace: replaceSizes } = useFieldArray({
     control,
@@ -496,100 +384,78 @@ const ProductForm = () => {
     name: "dimension_images",
   });
 
+  // Uploads can finish after rows are reordered or removed, so each result follows its row's field id, not its index.
+  const uploadRowIds = useRef<Record<UploadTarget, string[]>>({
+    images: [],
+    videos: [],
+    colors: [],
+    fabrics: [],
+    mattresses: [],
+    styles: [],
+    dimension_images: [],
+  });
+
   useEffect(() => {
-    const load = async () => {
-      try {
-        const [cats, subs, products, _filters, options] = await Promise.all([
-          apiGet<Category[]>('/categories/'),
-          apiGet<SubCategory[]>('/subcategories/'),
-          apiGet<Product[]>('/products/'),
-          apiGet<FilterType[]>('/filter-types/'),
-          apiGet<FilterOption[]>('/filter-options/'),
-        ]);
-        setCategories(cats);
-        setSubcategories(subs);
-        setImportProductOptions(Array.isArray(products) ? products : []);
-        setFilterOptions((options || []).filter((opt) => opt.is_active !== false));
-      } catch {
-        toast.error('Failed to load categories');
-      }
+    uploadRowIds.current = {
+      images: imageFields.map((field) => field.id),
+      videos: videoFields.map((field) => field.id),
+      colors: colorFields.map((field) => field.id),
+      fabrics: fabricFields.map((field) => field.id),
+      mattresses: mattressFields.map((field) => field.id),
+      styles: styleFields.map((field) => field.id),
+      dimension_images: dimensionImageFields.map((field) => field.id),
     };
-    load();
-  }, []);
+  });
 
-  // Load filter options tied to the selected category (and optional subcategory)
-  useEffect(() => {
-    const loadCategoryFilters = async () => {
-      const category = categories.find((c) => c.id === selectedCategory);
-      if (!category) {
-        setCategoryFilterOptions([]);
+  const atRow = (target: UploadTarget, index: number, apply: (row: number, url: string) => void) => {
+    const fieldId = uploadRowIds.current[target][index];
+    return (url: string) => {
+      const row = uploadRowIds.current[target].indexOf(fieldId);
+      if (row === -1) {
+        toast.error('An upload finished after its row was removed, so it was not added.');
         return;
       }
-      try {
-        const query = selectedSubcategory ? `?subcategory=${selectedSubcategory}` : '';
-        const [catRes, typesRes, optsRes] = await Promise.all([
-          apiGet<{ filters: FilterType[] }>(`/categories/${category.slug}/filters/${query}`),
-          apiGet<FilterType[]>('/filter-types/'),
-          apiGet<FilterOption[]>('/filter-options/'),
-        ]);
-
-        const activeTypes = (typesRes || []).filter((ft) => ft.is_active !== false);
-        const activeTypeIds = new Set(activeTypes.map((ft) => ft.id));
-
-        setFilterOptions(
-          (optsRes || []).filter(
-            (opt) => opt.is_active !== false && (!opt.filter_type || activeTypeIds.has(opt.filter_type))
-          )
-        );
-
-        const filters = Array.isArray(catRes?.filters) ? catRes.filters : [];
-
-        // Only show filters that are explicitly assigned to the selected subcategory.
-        const subId = selectedSubcategory ? Number(selectedSubcategory) : null;
-        // When a subcategory is selected, include both subcategory-specific filters
-        // and category-wide filters so shared filters (e.g., size) still show up.
-        const applicableFilters = subId
-          ? filters.filter(
-              (ft: any) => Number(ft.subcategory) === subId || !ft.subcategory
-            )
-          : filters.filter((ft: any) => !ft.subcategory);
-
-        const opts = applicableFilters.flatMap((ft) =>
-          (ft.options || []).map((opt) => ({
-            ...opt,
-            filter_type: ft.id,
-            filter_type_name: ft.name,
-          }))
-        );
-        setCategoryFilterOptions(opts);
-      } catch (err) {
-        console.error('Failed to load category filters', err);
-        setCategoryFilterOptions([]);
-      }
+      apply(row, url);
     };
-    loadCategoryFilters();
-  }, [categories, selectedCategory, selectedSubcategory]);
+  };
 
-  useEffect(() => {
-    const loadLibrary = async () => {
-      setIsLoadingLibrary(true);
-      try {
-        const styles = await apiGet<StyleLibraryItem[]>('/style-groups/');
-        setStyleLibrary(styles);
-      } catch {
-        setStyleLibrary([]);
-      } finally {
-        setIsLoadingLibrary(false);
-      }
-    };
-    loadLibrary();
-  }, []);
+  const filterOptions = useMemo(() => {
+    const activeTypeIds = new Set(filterTypes.filter((ft) => ft.is_active !== false).map((ft) => ft.id));
+    return allFilterOptions.filter(
+      (opt) => opt.is_active !== false && (!opt.filter_type || activeTypeIds.has(opt.filter_type))
+    );
+  }, [filterTypes, allFilterOptions]);
+
+  // Filter options tied to the selected category (and optional subcategory)
+  const selectedCategorySlug = categories.find((c) => c.id === selectedCategory)?.slug;
+  const { data: categoryFilterTypes = [] } = useCategoryFilterSet(
+    selectedCategorySlug,
+    selectedSubcategory ? Number(selectedSubcategory) : null
+  );
+  const categoryFilterOptions = useMemo<FilterOption[]>(() => {
+    if (!selectedCategorySlug) return [];
+    const subId = selectedSubcategory ? Number(selectedSubcategory) : null;
+    // When a subcategory is selected, include both subcategory-specific filters
+    // and category-wide filters so shared filters (e.g., size) still show up.
+    const applicableFilters = subId
+      ? categoryFilterTypes.filter((ft) => Number(ft.subcategory) === subId || !ft.subcategory)
+      : categoryFilterTypes.filter((ft) => !ft.subcategory);
+
+    return applicableFilters.flatMap((ft) =>
+      (ft.options || []).map((opt) => ({
+        ...opt,
+        filter_type: ft.id,
+        filter_type_name: ft.name,
+      }))
+    );
+  }, [categoryFilterTypes, selectedCategorySlug, selectedSubcategory]);
 
   useEffect(() => {
     const loadProduct = async () => {
-      if (!id) return;
+      const sourceId = id || duplicateId;
+      if (!sourceId) return;
       try {
-        const product = await apiGet<Product>(`/products/${id}/`);
+        const product = await queryClient.fetchQuery(productDetailQuery(sourceId));
         setValue('name', product.name);
         setValue('short_description', product.short_description || (product.description || '').split('. ')[0] || '');
         setValue('description', product.description);
@@ -645,6 +511,7 @@ const ProductForm = () => {
           name: f.name,
           image_url: f.image_url,
           is_shared: f.is_shared ?? false,
+          library_fabric: f.library_fabric ?? null,
           colors: f.colors || [],
         }));
         const mattresses = (product.mattresses || []).map((m) => ({
@@ -674,6 +541,8 @@ const ProductForm = () => {
         setValue('dimension_images', dimensionImages);
         replaceDimensionImages(dimensionImages);
         setValue('show_dimensions_table', product.show_dimensions_table !== false);
+        setValue('dimension_units', product.dimension_units || detectDimensionUnitMode(dimensions));
+        setValue('dimension_rules', product.dimension_rules || []);
         setDimensionColumns(deriveDimensionColumnsFromRows(dimensions));
         setValue('images', images);
         setValue('videos', videos);
@@ -716,12 +585,88 @@ const ProductForm = () => {
         setValue('features', product.features || []);
         setValue('delivery_info', product.delivery_info || '');
         setValue('returns_guarantee', product.returns_guarantee || '');
+        if (!id) {
+          // A fresh name gives the copy its own slug; everything else is saved as a new product.
+          setValue('name', `${product.name} (Copy)`);
+        }
+        draftBaseline.current = draftFingerprint(getValues());
+        setLoadedProductId(sourceId);
       } catch {
         toast.error('Failed to load product');
       }
     };
     loadProduct();
-  }, [id, setValue, replaceImages, replaceVideos, replaceColors, replaceSizes, replaceStyles, replaceFabrics, replaceMattresses, replaceFaqs, replaceDimensions, replaceInfoSections, replaceFilterValues]);
+  }, [id, duplicateId, queryClient, setValue, getValues, replaceImages, replaceVideos, replaceColors, replaceSizes, replaceStyles, replaceFabrics, replaceMattresses, replaceFaqs, replaceDimensions, replaceInfoSections, replaceFilterValues]);
+
+  useEffect(() => {
+    if (!id && !duplicateId) draftBaseline.current = draftFingerprint(getValues());
+  }, [id, duplicateId, getValues]);
+
+  useEffect(() => {
+    let cancelled = false;
+    lastSavedDraft.current = null;
+    loadDraft<ProductFormValues>(draftKey)
+      .then((saved) => {
+        if (!cancelled) setDraft(saved);
+      })
+      .catch(() => {
+        // No IndexedDB (e.g. some private windows): the form still works, just without drafts.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [draftKey]);
+
+  useEffect(() => {
+    const autosave = () => {
+      if (draftBaseline.current === null) return;
+      const values = getValues();
+      const fingerprint = draftFingerprint(values);
+      if (fingerprint === draftBaseline.current || fingerprint === lastSavedDraft.current) return;
+      lastSavedDraft.current = fingerprint;
+      saveDraft(draftKey, values).catch(() => {
+        lastSavedDraft.current = null;
+      });
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') autosave();
+    };
+    const timer = window.setInterval(autosave, DRAFT_AUTOSAVE_MS);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [draftKey, getValues]);
+
+  // Only offer the draft once the saved product (or the duplicate's source) has loaded, otherwise loading would overwrite the restore.
+  const draftSourceId = id || duplicateId;
+  const restorableDraft =
+    draft &&
+    draft.key === draftKey &&
+    (!draftSourceId || loadedProductId === draftSourceId) &&
+    draftFingerprint(draft.values) !== draftBaseline.current
+      ? draft
+      : null;
+
+  const handleRestoreDraft = () => {
+    if (!restorableDraft) return;
+    reset(restorableDraft.values);
+    const dimensions = (restorableDraft.values.dimensions || []).map((row) => ({
+      measurement: row.measurement || '',
+      values: row.values || {},
+    }));
+    setDimensionColumns(deriveDimensionColumnsFromRows(dimensions));
+    setFilterValuesDirty(true);
+    setDraft(null);
+    toast.success('Draft restored');
+  };
+
+  const handleDiscardDraft = () => {
+    setDraft(null);
+    lastSavedDraft.current = null;
+    deleteDraft(draftKey).catch(() => undefined);
+  };
 
   const handleUpload = async (file: File, onSuccess: (url: string) => void, inlineSvgPreferred = false) => {
     setIsUploading(true);
@@ -731,15 +676,18 @@ const ProductForm = () => {
         const minifiedSvg = minifySvgMarkup(svgText);
         const hasEmbeddedDataImage = /<image[\s\S]+?(href|xlink:href)\s*=\s*["']data:image\//i.test(minifiedSvg);
         if (minifiedSvg.length > MAX_INLINE_SVG_CHARS || hasEmbeddedDataImage) {
-          const res = await apiUpload('/uploads/', file);
-          onSuccess(res.url);
-          toast.info('Large SVG stored as uploaded file to keep product payload small.');
+          await enqueue([file], (res) => {
+            onSuccess(res.url);
+            toast.info('Large SVG stored as uploaded file to keep product payload small.');
+          });
         } else {
           onSuccess(minifiedSvg);
         }
       } else {
-        const res = await apiUpload('/uploads/', file);
-        onSuccess(res.url);
+        await enqueue([file], (res) => {
+          onSuccess(res.url);
+          if (res.optimized) toast.success(`Image uploaded (${describeOptimization(res)})`);
+        });
       }
     } catch {
       toast.error('Upload failed');
@@ -764,272 +712,123 @@ const ProductForm = () => {
     replaceDimensions(currentRows);
   };
 
-  const importStylesFromProduct = async () => {
-    if (!selectedImportProductId) {
-      toast.error('Select a product to import styles');
-      return;
-    }
-    try {
-      const product = await apiGet<Product>(`/products/${selectedImportProductId}/`);
-      const styles = (product.styles || []).map((s) => ({
-        name: (s.name || '').replace(/\s+/g, '-'),
-        icon_url: s.icon_url || '',
-        is_shared: s.is_shared ?? false,
-        options: (s.options || []).map((o: any) => ({
-          label: typeof o === 'string' ? o.replace(/\s+/g, '-') : (o.label || '').replace(/\s+/g, '-'),
-          description: o.description || '',
-          icon_url: o.icon_url || '',
-          price_delta: typeof o.price_delta === 'number' ? Number(o.price_delta) : 0,
-          sizes: Array.isArray(o.sizes)
-            ? o.sizes.map((s: any) => String(s || '').trim()).filter(Boolean)
-            : o.size
-            ? [String(o.size).trim()]
-            : [],
-        })),
-      }));
-      const merged = [...(watch('styles') || []), ...styles];
-      setValue('styles', merged);
-      replaceStyles(merged);
-      toast.success(`Imported ${styles.length} style groups from ${product.name}`);
-    } catch {
-      toast.error('Failed to import styles from that product');
-    }
-  };
-
-  const importSizesFromProduct = async () => {
-    if (!selectedImportProductId) {
-      toast.error('Select a product to import sizes');
-      return;
+  const applyImportedSections = (updates: Partial<ImportSectionValues>, sourceName: string) => {
+    if (updates.styles) {
+      setValue('styles', updates.styles);
+      replaceStyles(updates.styles);
     }
-    try {
-      const product = await apiGet<Product>(`/products/${selectedImportProductId}/`);
-      const sizes = (product.sizes || []).map((s) => ({
-        name: s.name || '',
-        description: s.description || '',
-        price_delta: Number.isFinite(Number(s.price_delta)) ? Number(s.price_delta) : 0,
-      }));
-      const merged = [...(watch('sizes') || []), ...sizes];
-      setValue('sizes', merged);
-      replaceSizes(merged);
-      toast.success(`Imported ${sizes.length} size${sizes.length === 1 ? '' : 's'} from ${product.name}`);
-    } catch {
-      toast.error('Failed to import sizes from that product');
+    if (updates.sizes) {
+      setValue('sizes', updates.sizes);
+      replaceSizes(updates.sizes);
     }
-  };
-
-  const importColorsFromProduct = async () => {
-    if (!selectedImportProductId) {
-      toast.error('Select a product to import colors');
-      return;
+    if (updates.colors) {
+      setValue('colors', updates.colors);
+      replaceColors(updates.colors);
     }
-    try {
-      const product = await apiGet<Product>(`/products/${selectedImportProductId}/`);
-      const colors = (product.colors || []).map((c) => ({
-        name: c.name || '',
-        hex_code: c.hex_code || '#000000',
-        image_url: c.image_url || '',
-      }));
-      const merged = [...(watch('colors') || []), ...colors];
-      setValue('colors', merged);
-      replaceColors(merged);
-      toast.success(`Imported ${colors.length} color${colors.length === 1 ? '' : 's'} from ${product.name}`);
-    } catch {
-      toast.error('Failed to import colors from that product');
+    if (updates.fabrics) {
+      setValue('fabrics', updates.fabrics);
+      replaceFabrics(updates.fabrics);
     }
-  };
-
-  const importFabricsFromProduct = async () => {
-    if (!selectedImportProductId) {
-      toast.error('Select a product to import fabrics');
-      return;
+    if (updates.mattresses) {
+      setValue('mattresses', updates.mattresses);
+      replaceMattresses(updates.mattresses);
     }
-    try {
-      const product = await apiGet<Product>(`/products/${selectedImportProductId}/`);
-      const fabrics = (product.fabrics || []).map((f) => ({
-        name: f.name || '',
-        image_url: f.image_url || '',
-        is_shared: f.is_shared ?? false,
-        colors: (f.colors || []).map((c) => ({
-          name: c.name || '',
-          hex_code: c.hex_code || '#000000',
-          image_url: c.image_url || '',
-        })),
-      }));
-      const merged = [...(watch('fabrics') || []), ...fabrics];
-      setValue('fabrics', merged);
-      replaceFabrics(merged);
-      toast.success(`Imported ${fabrics.length} fabric${fabrics.length === 1 ? '' : 's'} from ${product.name}`);
-    } catch {
-      toast.error('Failed to import fabrics from that product');
-    }
-  };
-
-  const importShortDescriptionFromProduct = async () => {
-    if (!selectedImportProductId) {
-      toast.error('Select a product to import the short description');
-      return;
-    }
-    try {
-      const product = await apiGet<Product>(`/products/${selectedImportProductId}/`);
-      const incoming = (product.short_description || '').trim();
-      if (!incoming) {
-        toast.error('Selected product has no short description to import');
-        return;
-      }
-      const current = (watch('short_description') || '').trim();
-      const merged = current ? `${current}\n\n${incoming}` : incoming;
-      setValue('short_description', merged);
-      toast.success(`Imported short description from ${product.name}`);
-    } catch {
-      toast.error('Failed to import short description from that product');
-    }
-  };
-
-  const importLongDescriptionFromProduct = async () => {
-    if (!selectedImportProductId) {
-      toast.error('Select a product to import the long description');
-      return;
-    }
-    try {
-      const product = await apiGet<Product>(`/products/${selectedImportProductId}/`);
-      const incoming = (product.description || '').trim();
-      if (!incoming) {
-        toast.error('Selected product has no long description to import');
-        return;
-      }
-      const current = (watch('description') || '').trim();
-      const merged = current ? `${current}\n\n${incoming}` : incoming;
-      setValue('description', merged);
-      toast.success(`Imported long description from ${product.name}`);
-    } catch {
-      toast.error('Failed to import long description from that product');
+    if (updates.faqs) {
+      setValue('faqs', updates.faqs);
+      replaceFaqs(updates.faqs);
     }
+    (['short_description', 'description', 'delivery_info', 'returns_guarantee'] as const).forEach((field) => {
+      const value = updates[field];
+      if (value !== undefined) setValue(field, value);
+    });
+    const count = Object.keys(updates).length;
+    toast.success(`Imported ${count} section${count === 1 ? '' : 's'} from ${sourceName}`);
+    setImportSections(null);
   };
 
-  const importFaqsFromProduct = async () => {
-    if (!selectedImportProductId) {
-      toast.error('Select a product to import FAQs');
-      return;
-    }
-    try {
-      const product = await apiGet<Product>(`/products/${selectedImportProductId}/`);
-      const faqs = Array.isArray(product.faqs)
-        ? product.faqs
-            .map((faq) => ({
-              question: (faq.question || '').trim(),
-              answer: (faq.answer || '').trim(),
-            }))
-            .filter((faq) => faq.question && faq.answer)
-        : [];
-
-      if (faqs.length === 0) {
-        toast.error('Selected product has no FAQs to import');
-        return;
-      }
-
-      const existing = (watch('faqs') || []).map((faq) => ({
-        question: (faq.question || '').trim(),
-        answer: (faq.answer || '').trim(),
-      }));
-
-      const deduped = faqs.filter(
-        (faq) =>
-          !existing.some(
-            (e) =>
-              e.question.toLowerCase() === faq.question.toLowerCase() &&
-              e.answer.toLowerCase() === faq.answer.toLowerCase()
-          )
+  const handleLinkMattress = (source: Product) => {
+    if (mattressPicker === 'new') {
+      appendMattress(mattressFromProduct(source));
+    } else if (mattressPicker !== null) {
+      const linked = mattressFromProduct(source);
+      const current = getValues(`mattresses.${mattressPicker}`) || linked;
+      // Keep what was typed in; only fill the gaps from the mattress product.
+      setValue(
+        `mattresses.${mattressPicker}`,
+        {
+          ...current,
+          name: current.name || linked.name,
+          description: current.description || linked.description,
+          image_url: current.image_url || linked.image_url,
+          price: current.price ?? linked.price,
+          source_product: source.id,
+        },
+        { shouldDirty: true }
       );
-
-      const merged = [...existing, ...deduped];
-      setValue('faqs', merged);
-      replaceFaqs(merged);
-      toast.success(`Imported ${deduped.length} FAQ${deduped.length === 1 ? '' : 's'} from ${product.name}`);
-    } catch {
-      toast.error('Failed to import FAQs from that product');
-    }
-  };
-
-  const importDeliveryInfoFromProduct = async () => {
-    if (!selectedImportProductId) {
-      toast.error('Select a product to import delivery info');
-      return;
-    }
-    try {
-      const product = await apiGet<Product>(`/products/${selectedImportProductId}/`);
-      const deliveryInfo = (product.delivery_info || '').trim();
-
-      if (!deliveryInfo) {
-        toast.error('Selected product has no delivery info to import');
-        return;
-      }
-
-      const current = (watch('delivery_info') || '').trim();
-      const merged = current ? `${current}\n\n${deliveryInfo}` : deliveryInfo;
-      setValue('delivery_info', merged);
-      toast.success(`Imported delivery info from ${product.name}`);
-    } catch {
-      toast.error('Failed to import delivery info from that product');
     }
+    setMattressPicker(null);
   };
 
-  const importReturnsInfoFromProduct = async () => {
-    if (!selectedImportProductId) {
-      toast.error('Select a product to import returns & guarantee info');
+  const handleResyncMattress = async (source: Product) => {
+    const targets = productsOfferingMattress(source.id, allProducts).filter((product) => String(product.id) !== id);
+    if (
+      !confirm(
+        `Set ${source.name} to £${Number(source.price).toFixed(2)} here${
+          targets.length > 0 ? ` and on ${targets.length} other bed${targets.length === 1 ? '' : 's'}` : ''
+        }?`
+      )
+    ) {
       return;
     }
-    try {
-      const product = await apiGet<Product>(`/products/${selectedImportProductId}/`);
-      const returnsInfo = (product.returns_guarantee || '').trim();
-
-      if (!returnsInfo) {
-        toast.error('Selected product has no returns/guarantee info to import');
-        return;
+    (getValues('mattresses') || []).forEach((mattress, index) => {
+      if (mattress.source_product === source.id && !mattress.enable_bunk_positions) {
+        setValue(`mattresses.${index}.price`, Number(source.price), { shouldDirty: true });
       }
-
-      const current = (watch('returns_guarantee') || '').trim();
-      const merged = current ? `${current}\n\n${returnsInfo}` : returnsInfo;
-      setValue('returns_guarantee', merged);
-      toast.success(`Imported returns & guarantee info from ${product.name}`);
-    } catch {
-      toast.error('Failed to import returns/guarantee info from that product');
+    });
+    if (targets.length === 0) return;
+    setResyncingMattress(source.id);
+    const failures = await runBulk(
+      targets,
+      (product) => apiPatch(`/products/${product.id}/`, mattressResyncPatch(product, source)),
+      () => undefined
+    );
+    setResyncingMattress(null);
+    await invalidate('products');
+    if (failures.length === 0) {
+      toast.success(`Updated ${targets.length} other bed${targets.length === 1 ? '' : 's'}. Save this product to keep its new price.`);
+    } else {
+      toast.error(`${failures.length} of ${targets.length} beds failed: ${failures.map((f) => f.name).join(', ')}`);
     }
   };
 
-  const importMattressesFromProduct = async () => {
-    const pid = mattressImportId.trim();
-    if (!pid) {
-      toast.error('Enter a product ID to import mattresses');
-      return;
-    }
-    try {
-      const product = await apiGet<Product>(`/products/${pid}/`);
-      const mattresses = (product.mattresses || []).map((m) => ({
-        name: m.name || '',
-        description: m.description || '',
-        image_url: m.image_url || '',
-        price: m.price !== undefined && m.price !== null ? Number(m.price) : null,
-        source_product: m.source_product || product.id,
-      }));
-      const merged = [...(watch('mattresses') || []), ...mattresses];
-      setValue('mattresses', merged);
-      replaceMattresses(merged);
-      toast.success(`Imported ${mattresses.length} mattress option${mattresses.length === 1 ? '' : 's'} from product #${pid}`);
-    } catch {
-      toast.error('Failed to import mattresses from that product');
-    }
-  };
+  // Images can be bound to a swatch colour or any fabric colour; the gallery groups by these.
+  const imageColorOptions = Array.from(
+    new Set([
+      ...(watch('colors') || []).map((c) => c.name || ''),
+      ...(watch('fabrics') || []).flatMap((f) => (f?.colors || []).map((c) => c?.name || '')),
+    ])
+  ).filter(Boolean);
 
-  const handleMultiImageUpload = async (fileList: FileList) => {
+  // Files dropped on a colour group in the gallery arrive with that colour.
+  const handleMultiImageUpload = async (fileList: FileList, colorName?: string) => {
     const files = Array.from(fileList);
     if (files.length === 0) return;
     setIsUploading(true);
     try {
-      const uploaded = await Promise.all(files.map((file) => apiUpload('/uploads/', file)));
-      uploaded.forEach((res) => appendImage({ url: res.url }));
-      toast.success(`${uploaded.length} image${uploaded.length > 1 ? 's' : ''} uploaded`);
-    } catch {
-      toast.error('Some images failed to upload');
+      // Images are appended as each one finishes, so a failure doesn't hold back the rest of the batch.
+      const uploaded: UploadResult[] = [];
+      await enqueue(files, (res) => {
+        uploaded.push(res);
+        appendImage({ url: res.url, color_name: colorName });
+      });
+      if (uploaded.length > 0) {
+        const totals = {
+          originalSize: uploaded.reduce((sum, res) => sum + res.originalSize, 0),
+          size: uploaded.reduce((sum, res) => sum + res.size, 0),
+          optimized: uploaded.some((res) => res.optimized),
+        };
+        toast.success(`${uploaded.length} image${uploaded.length > 1 ? 's' : ''} uploaded (${describeOptimization(totals)})`);
+      }
     } finally {
       setIsUploading(false);
     }
@@ -1046,8 +845,8 @@ const ProductForm = () => {
     toast.error(firstError ? String(firstError) : 'Please fix the highlighted fields.');
   };
 
-  const onSubmit = async (data: ProductFormValues) => {
-    if (isSaving) return;
+  const saveProduct = async (data: ProductFormValues): Promise<boolean> => {
+    if (isSaving) return false;
     setIsSaving(true);
     try {
       const discountPercentage =
@@ -1057,7 +856,7 @@ const ProductForm = () => {
       const discountFactor = 1 - discountPercentage / 100;
       if (discountPercentage >= 100 || discountFactor <= 0) {
         toast.error('Discount must be less than 100%');
-        return;
+        return false;
       }
       // Preserve existing original price while still supporting auto-compute when a discount is set
       const computedOriginalPriceRaw =
@@ -1132,10 +931,15 @@ const ProductForm = () => {
           })
           .filter((style) => style.name.length > 0),
         fabrics: (data.fabrics || [])
+          .map((fabric) => {
+            const linked = fabricLibrary.find((item) => item.id === fabric.library_fabric);
+            return linked ? linkedFormFabric(linked, fabric.is_shared) : fabric;
+          })
           .map((fabric) => ({
             name: (fabric.name || '').trim(),
             image_url: (fabric.image_url || '').trim(),
             is_shared: Boolean(fabric.is_shared),
+            library_fabric: fabric.library_fabric ?? null,
             colors: (fabric.colors || [])
               .map((c) => ({
                 name: (c.name || '').trim(),
@@ -1185,7 +989,7 @@ const ProductForm = () => {
             const values = Object.fromEntries(
               Object.entries(row.values || {})
                 .map(([key, value]) => {
-                  const str = (value ?? '').toString().trim();
+                  const str = normalizeDimension((value ?? '').toString(), data.dimension_units || 'both').trim();
                   return [key, str];
                 })
                 .filter(([, str]) => str.length > 0)
@@ -1205,6 +1009,8 @@ const ProductForm = () => {
           .filter((img) => img.size.length > 0 && img.url.length > 0),
         dimension_paragraph: (data.dimension_paragraph || '').trim(),
         show_dimensions_table: data.show_dimensions_table !== false,
+        dimension_units: data.dimension_units || 'both',
+        dimension_rules: cleanDimensionRules(data.dimension_rules || []),
         faqs: (data.faqs || [])
           .map((faq) => ({
             question: (faq.question || '').trim(),
@@ -1272,10 +1078,36 @@ const ProductForm = () => {
         delete (payload as Partial<ProductFormValues>).filter_values;
       }
 
+      // The matrix stops at MAX_MATRIX_ROWS, so it only supplies the count when it holds every combination.
+      const priceMatrix = buildPriceMatrix(data);
+      const brokenPrices = priceMatrix.rows.filter((row) => row.flags.some((flag) => flag.level === 'error'));
+      if (
+        hasPriceErrors(data) &&
+        !confirm(
+          `${priceMatrix.truncated ? 'Some' : brokenPrices.length} variant combination(s) would be free or negatively priced. Save anyway?`
+        )
+      ) {
+        setShowPriceMatrix(true);
+        return false;
+      }
+
+      const dimensionIssues = findDimensionIssues(
+        (data.dimensions || []).map((row) => ({ measurement: row.measurement || '', values: row.values || {} })),
+        data.dimension_units || 'both'
+      );
+      if (
+        dimensionIssues.length > 0 &&
+        !confirm(
+          `${dimensionIssues.length} dimension cell(s) can't be read as a measurement, e.g. ${dimensionIssues[0].measurement} / ${dimensionIssues[0].column}: ${dimensionIssues[0].message} Save anyway?`
+        )
+      ) {
+        return false;
+      }
+
       const payloadSize = new Blob([JSON.stringify(payload)]).size;
       if (payloadSize > MAX_PRODUCT_PAYLOAD_BYTES) {
         toast.error('Product data is too large. Please upload large icons/files instead of pasting huge SVG content.');
-        return;
+        return false;
       }
 
       if (id) {
@@ -1285,17 +1117,55 @@ const ProductForm = () => {
         await apiPost<{ id: number }>('/products/', payload);
         toast.success('Product created successfully');
       }
-
-      navigate('/products');
-    } catch {
-      toast.error('Failed to save product');
+      // Saved values match the form now, so neither autosave nor the leave guard sees it as dirty.
+      draftBaseline.current = draftFingerprint(getValues());
+      await deleteDraft(draftKey).catch(() => undefined);
+      await invalidate('products');
+      return true;
+    } catch (error) {
+      // Surface the backend's per-field messages on the matching inputs instead of one generic toast.
+      const fieldErrors = getFieldErrors(error);
+      const fields = Object.keys(fieldErrors);
+      fields.forEach((field) =>
+        setError(field as FieldPath<ProductFormValues>, { type: 'server', message: fieldErrors[field].join(' ') })
+      );
+      toast.error(fields.length > 0 ? 'The server rejected some fields. Please check the highlighted inputs.' : 'Failed to save product');
+      return false;
     } finally {
       setIsSaving(false);
     }
   };
 
+  const onSubmit = async (data: ProductFormValues) => {
+    if (await saveProduct(data)) navigate('/products');
+  };
+
+  useUnsavedChanges({
+    isDirty: () => draftBaseline.current !== null && draftFingerprint(getValues()) !== draftBaseline.current,
+    // Runs the same validation as the Save button; invalid fields stay highlighted and the user stays put.
+    save: () =>
+      new Promise<boolean>((resolve) => {
+        handleSubmit(
+          async (data) => resolve(await saveProduct(data)),
+          (formErrors) => {
+            onInvalid(formErrors);
+            resolve(false);
+          }
+        )();
+      }),
+    discard: () => {
+      deleteDraft(draftKey).catch(() => undefined);
+    },
+  });
+
   return (
-    <div className="space-y-6 max-w-5xl mx-auto">
+    <div
+      className={cn(
+        'space-y-6 max-w-5xl mx-auto',
+        previewDevice === 'mobile' && 'xl:mr-[440px]',
+        previewDevice === 'desktop' && 'xl:mr-[min(60vw,900px)]'
+      )}
+    >
       <div className="flex items-center space-x-4">
         <Link to="/products">
           <Button variant="ghost" size="icon">
@@ -1303,18 +1173,48 @@ const ProductForm = () => {
           </Button>
         </Link>
         <h2 className="text-3xl font-serif font-bold text-espresso">
-          {id ? 'Edit Product' : 'Add New Product'}
+          {id ? 'Edit Product' : duplicateId ? 'Duplicate Product' : 'Add New Product'}
         </h2>
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setPreviewDevice((current) => (current ? null : 'desktop'))}
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            {previewDevice ? 'Hide preview' : 'Preview'}
+          </Button>
+          {id && (
+            <Button type="button" variant="outline" onClick={() => navigate(`/products/new?duplicate=${id}`)}>
+              <Copy className="h-4 w-4 mr-2" />
+              Duplicate
+            </Button>
+          )}
+        </div>
       </div>
 
+      {restorableDraft && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+          <span>Restore your unsaved draft from {formatDraftAge(restorableDraft.savedAt)}?</span>
+          <div className="flex gap-2">
+            <Button type="button" size="sm" onClick={handleRestoreDraft}>
+              Restore draft
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={handleDiscardDraft}>
+              Discard
+            </Button>
+          </div>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit(onSubmit, onInvalid)} className="space-y-8">
         {Object.keys(errors).length > 0 && (
           <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
             <p className="font-medium">Please fix the highlighted fields:</p>
             <ul className="mt-2 list-disc pl-5">
-              {Object.entries(errors).map(([key, value]) => (
-                <li key={key}>
-                  {key}: {String((value as { message?: string })?.message || 'Invalid')}
+              {collectErrorMessages(errors).map(({ path, message }) => (
+                <li key={path}>
+                  {path}: {message}
                 </li>
               ))}
             </ul>
@@ -1380,6 +1280,7 @@ const ProductForm = () => {
                     <option key={sub.id} value={sub.id}>{sub.name}</option>
                   ))}
                 </select>
+                {errors.subcategory && <p className="text-xs text-destructive">{errors.subcategory.message}</p>}
               </div>
             </div>
 
@@ -1398,6 +1299,7 @@ const ProductForm = () => {
                   min="0"
                   max="99"
                 />
+                {errors.discount_percentage && <p className="text-xs text-destructive">{errors.discount_percentage.message}</p>}
               </div>
               <div className="grid gap-2">
                 <label className="text-sm font-medium">Display Order</label>
@@ -1412,6 +1314,7 @@ const ProductForm = () => {
                   placeholder="0 (lower shows first)"
                 />
                 <p className="text-[11px] text-muted-foreground">Lower numbers appear first in listings.</p>
+                {errors.sort_order && <p className="text-xs text-destructive">{errors.sort_order.message}</p>}
               </div>
             </div>
 
@@ -1454,6 +1357,7 @@ const ProductForm = () => {
               <div className="grid gap-2">
                 <label className="text-sm font-medium">Delivery Charges (Â£)</label>
                 <Input type="number" {...register('delivery_charges', { valueAsNumber: true })} />
+                {errors.delivery_charges && <p className="text-xs text-destructive">{errors.delivery_charges.message}</p>}
               </div>
               <div className="grid gap-2">
                 <label className="text-sm font-medium">Original Price (auto)</label>
@@ -1494,52 +1398,19 @@ const ProductForm = () => {
           <CardContent className="space-y-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">Product Images *</label>
-              {imageFields.map((field, index) => {
-                const swatchColors = (watch('colors') || []).map((c) => c.name).filter(Boolean);
-                const fabricColors = (watch('fabrics') || [])
-                  .flatMap((f) => (f?.colors || []).map((c: any) => c?.name).filter(Boolean));
-                const colorOptions = Array.from(new Set([...swatchColors, ...fabricColors]));
-                return (
-                <div key={field.id} className="space-y-2">
-                  <div className="flex gap-2">
-                    <Input 
-                      type="file"
-                      accept="image/*"
-                      onChange={(e) => {
-                        const file = e.target.files?.[0];
-                        if (file) {
-                          handleUpload(file, (url) => setValue(`images.${index}.url`, url));
-                        }
-                      }}
-                      className="cursor-pointer bg-black/5"
-                    />
-                    {index > 0 && (
-                      <Button type="button" variant="ghost" size="icon" onClick={() => removeImage(index)}>
-                        <Trash2 className="h-4 w-4 text-destructive" />
-                      </Button>
-                    )}
-                  </div>
-                  {watch(`images.${index}.url`) && (
-                    <img src={watch(`images.${index}.url`) || undefined} alt={`Preview ${index + 1}`} className="w-32 h-32 object-cover rounded-md border" />
-                  )}
-                  <div className="grid gap-1">
-                    <label className="text-xs text-muted-foreground">Optional: bind to color</label>
-                    <select
-                      className="w-56 rounded-md border border-input bg-white px-2 py-1 text-sm"
-                      value={watch(`images.${index}.color_name`) || ''}
-                      onChange={(e) => setValue(`images.${index}.color_name`, e.target.value)}
-                    >
-                      <option value="">No color binding</option>
-                      {colorOptions.map((name) => (
-                        <option key={name} value={name}>
-                          {name}
-                        </option>
-                      ))}
-                    </select>
-                    <p className="text-[11px] text-muted-foreground">If set, this image shows when that color is selected on the storefront.</p>
-                  </div>
-                </div>
-              )})}
+              <ImageGallery
+                images={imageFields.map((field, index) => ({
+                  id: field.id,
+                  url: watch(`images.${index}.url`) || '',
+                  color_name: watch(`images.${index}.color_name`) || '',
+                }))}
+                colorOptions={imageColorOptions}
+                onMove={moveImage}
+                onRemove={removeImage}
+                onSetColor={(index, colorName) => setValue(`images.${index}.color_name`, colorName)}
+                onReplace={(index, file) => handleUpload(file, atRow('images', index, (row, url) => setValue(`images.${row}.url`, url)))}
+                onDropFiles={handleMultiImageUpload}
+              />
               {errors.images && <p className="text-xs text-destructive">{errors.images.message}</p>}
               {isUploading && <p className="text-xs text-muted-foreground">Uploading...</p>}
             </div>
@@ -1555,7 +1426,7 @@ const ProductForm = () => {
                       onChange={(e) => {
                         const file = e.target.files?.[0];
                         if (file) {
-                          handleUpload(file, (url) => setValue(`videos.${index}.url`, url));
+                          handleUpload(file, atRow('videos', index, (row, url) => setValue(`videos.${row}.url`, url)));
                         }
                       }}
                       className="cursor-pointer"
@@ -1586,23 +1457,7 @@ const ProductForm = () => {
                     if (!styleId) return;
                     const found = styleLibrary.find((s) => s.id === styleId);
                     if (!found) return;
-                    const newStyle = {
-                      name: (found.name || '').replace(/\s+/g, '-'),
-                      icon_url: found.icon_url || '',
-                      is_shared: found.is_shared ?? false,
-                      options: (found.options || []).map((o: any) => ({
-                        label: typeof o === 'string' ? o.replace(/\s+/g, '-') : (o.label || '').replace(/\s+/g, '-'),
-                        description: o.description || '',
-                        icon_url: o.icon_url || '',
-                        price_delta: typeof o.price_delta === 'number' ? Number(o.price_delta) : 0,
-                        sizes: Array.isArray(o.sizes)
-                          ? o.sizes.map((s: any) => String(s || '').trim()).filter(Boolean)
-                          : o.size
-                          ? [String(o.size).trim()]
-                          : [],
-                      })),
-                    };
-                    const merged = [...(watch('styles') || []), newStyle];
+                    const merged = [...(watch('styles') || []), styleGroupToFormStyle(found)];
                     setValue('styles', merged);
                     replaceStyles(merged);
                     e.target.value = '';
@@ -1612,48 +1467,13 @@ const ProductForm = () => {
                   <option value="">{isLoadingLibrary ? 'Loading styles...' : 'Add from library'}</option>
                   {styleLibrary.map((s) => (
                     <option key={s.id} value={s.id}>
-                      {s.name} (#{s.product_id} - {s.product_name})
-                    </option>
-                  ))}
-                </select>
-                <select
-                  className="h-10 min-w-[220px] rounded-md border border-input bg-background px-3 text-sm"
-                  value={selectedImportProductId ?? ''}
-                  onChange={(e) => setSelectedImportProductId(e.target.value ? Number(e.target.value) : null)}
-                >
-                  <option value="">Select product to import from</option>
-                  {importProductOptions.map((p) => (
-                    <option key={p.id} value={p.id}>
-                      {p.name} (#{p.id})
+                      {s.name}
+                      {s.product_id ? ` (#${s.product_id} - ${s.product_name})` : ''}
                     </option>
                   ))}
                 </select>
-                <Button type="button" variant="outline" size="sm" onClick={importStylesFromProduct}>
-                  Import styles
-                </Button>
-                <Button type="button" variant="outline" size="sm" onClick={importSizesFromProduct}>
-                  Import sizes
-                </Button>
-                <Button type="button" variant="outline" size="sm" onClick={importColorsFromProduct}>
-                  Import colors
-                </Button>
-                <Button type="button" variant="outline" size="sm" onClick={importFabricsFromProduct}>
-                  Import fabrics
-                </Button>
-                <Button type="button" variant="outline" size="sm" onClick={importShortDescriptionFromProduct}>
-                  Import short desc
-                </Button>
-                <Button type="button" variant="outline" size="sm" onClick={importLongDescriptionFromProduct}>
-                  Import long desc
-                </Button>
-                <Button type="button" variant="outline" size="sm" onClick={importFaqsFromProduct}>
-                  Import FAQs
-                </Button>
-                <Button type="button" variant="outline" size="sm" onClick={importDeliveryInfoFromProduct}>
-                  Import delivery info
-                </Button>
-                <Button type="button" variant="outline" size="sm" onClick={importReturnsInfoFromProduct}>
-                  Import returns/guarantee
+                <Button type="button" variant="outline" size="sm" onClick={() => setImportSections([])}>
+                  Import from product
                 </Button>
                 <Button type="button" variant="outline" size="sm" onClick={() => appendStyle({ name: '', options: [] })}>
                   <Plus className="h-4 w-4 mr-2" /> Add Style Group
@@ -1812,6 +1632,28 @@ const ProductForm = () => {
             <div className="grid gap-2">
               <div className="flex items-center justify-between">
                 <label className="text-sm font-medium">Fabrics</label>
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    disabled={isLoadingFabricLibrary}
+                    onChange={(e) => {
+                      const found = fabricLibrary.find((item) => item.id === Number(e.target.value || 0));
+                      e.target.value = '';
+                      if (!found) return;
+                      if ((watch('fabrics') || []).some((fabric) => fabric.library_fabric === found.id)) {
+                        toast.info(`${found.name} is already linked`);
+                        return;
+                      }
+                      appendFabric(linkedFormFabric(found));
+                    }}
+                  >
+                    <option value="">{isLoadingFabricLibrary ? 'Loading fabrics...' : 'Link from library'}</option>
+                    {fabricLibrary.map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.name} ({activeColors(item).length} colours)
+                      </option>
+                    ))}
+                  </select>
                   <Button
                     type="button"
                     variant="outline"
@@ -1820,163 +1662,233 @@ const ProductForm = () => {
                       appendFabric({
                         name: '',
                         is_shared: false,
+                        library_fabric: null,
                         colors: [{ name: '', hex_code: '', image_url: '' }],
                       })
                     }
                   >
-                  <Plus className="h-4 w-4 mr-2" /> Add Fabric
-                </Button>
+                    <Plus className="h-4 w-4 mr-2" /> Add Fabric
+                  </Button>
+                </div>
               </div>
-              {fabricFields.map((field, index) => (
-                <div key={field.id} className="space-y-2 rounded-md border p-3">
-                  <div className="flex gap-2">
-                    <Input
-                      {...register(`fabrics.${index}.name` as const)}
-                      placeholder="Fabric name (e.g. Plush Velvet)"
-                      className="flex-1"
-                    />
-                    <Button type="button" variant="ghost" size="icon" onClick={() => removeFabric(index)}>
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
-                  </div>
-                  <label className="flex items-center gap-2 text-sm">
-                    <input
-                      type="checkbox"
-                      {...register(`fabrics.${index}.is_shared` as const)}
-                      className="h-4 w-4"
-                    />
-                    Shared across sizes
-                  </label>
-                  <div className="space-y-2 rounded-md border border-dashed p-3">
-                    <div className="flex items-center justify-between">
-                      <p className="text-sm font-medium">Fabric colours</p>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          const current = (watch(`fabrics.${index}.colors`) || []) as any[];
-                          setValue(`fabrics.${index}.colors`, [
-                            ...current,
-                            { name: '', hex_code: '', image_url: '' },
-                          ]);
-                        }}
-                      >
-                        <Plus className="h-4 w-4 mr-1" /> Add colour
+              {fabricFields.map((field, index) => {
+                const libraryId = watch(`fabrics.${index}.library_fabric`);
+                const linked = libraryId ? fabricLibrary.find((item) => item.id === libraryId) : undefined;
+                if (libraryId) {
+                  const colors = linked ? activeColors(linked) : watch(`fabrics.${index}.colors`) || [];
+                  return (
+                    <div key={field.id} className="space-y-2 rounded-md border border-primary/30 bg-primary/5 p-3">
+                      <div className="flex items-center gap-2">
+                        {(linked?.image_url || watch(`fabrics.${index}.image_url`)) && (
+                          <img
+                            src={linked?.image_url || watch(`fabrics.${index}.image_url`)}
+                            alt=""
+                            className="h-10 w-10 rounded-md border object-cover"
+                          />
+                        )}
+                        <div className="flex-1">
+                          <p className="text-sm font-medium">{linked?.name || watch(`fabrics.${index}.name`)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {linked
+                              ? 'Linked to the fabric library. Colours follow the library when you save.'
+                              : 'Linked to a library fabric that no longer exists. Unlink to keep editing it here.'}
+                          </p>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            // Keep an editable copy of the library's current colours.
+                            const copy = linked
+                              ? linkedFormFabric(linked, watch(`fabrics.${index}.is_shared`))
+                              : watch(`fabrics.${index}`);
+                            setValue(`fabrics.${index}`, { ...copy, library_fabric: null }, { shouldDirty: true });
+                          }}
+                        >
+                          Unlink
+                        </Button>
+                        <Button type="button" variant="ghost" size="icon" onClick={() => removeFabric(index)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          {...register(`fabrics.${index}.is_shared` as const)}
+                          className="h-4 w-4"
+                        />
+                        Shared across sizes
+                      </label>
+                      <div className="flex flex-wrap gap-1">
+                        {colors.map((color, colorIdx) => (
+                          <span
+                            key={`${field.id}-color-${colorIdx}`}
+                            className="flex items-center gap-1 rounded-full border bg-white px-2 py-0.5 text-xs"
+                          >
+                            <span
+                              className="h-3 w-3 rounded-full border"
+                              style={{ backgroundColor: color.hex_code || '#d1d5db' }}
+                            />
+                            {color.name}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                }
+                return (
+                  <div key={field.id} className="space-y-2 rounded-md border p-3">
+                    <div className="flex gap-2">
+                      <Input
+                        {...register(`fabrics.${index}.name` as const)}
+                        placeholder="Fabric name (e.g. Plush Velvet)"
+                        className="flex-1"
+                      />
+                      <Button type="button" variant="ghost" size="icon" onClick={() => removeFabric(index)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
                       </Button>
                     </div>
-                    <p className="text-xs text-muted-foreground">
-                      Add one or more colours for this fabric. Upload the image against each colour (fabric image not required).
-                    </p>
-                    <div className="space-y-2">
-                      {((watch(`fabrics.${index}.colors`) || []) as any[]).map((color, colorIdx) => (
-                        <div
-                          key={`${field.id}-color-${colorIdx}`}
-                          className="space-y-2 rounded-md border border-muted/60 p-2"
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        {...register(`fabrics.${index}.is_shared` as const)}
+                        className="h-4 w-4"
+                      />
+                      Shared across sizes
+                    </label>
+                    <div className="space-y-2 rounded-md border border-dashed p-3">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium">Fabric colours</p>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            const current = (watch(`fabrics.${index}.colors`) || []) as any[];
+                            setValue(`fabrics.${index}.colors`, [
+                              ...current,
+                              { name: '', hex_code: '', image_url: '' },
+                            ]);
+                          }}
                         >
-                          <div className="flex items-center gap-3">
-                            <div className="relative h-12 w-12 overflow-hidden rounded-md border">
-                              {color.image_url ? (
-                                <img
-                                  src={color.image_url}
-                                  alt={color.name || 'Colour preview'}
-                                  className="h-full w-full object-cover"
-                                />
-                              ) : (
-                                <div
-                                  className="h-full w-full"
-                                  style={{ backgroundColor: color.hex_code || '#000000' }}
-                                />
-                              )}
-                              {color.name && (
-                                <span className="absolute inset-0 flex items-center justify-center text-[10px] font-semibold text-white drop-shadow-sm text-center px-1">
-                                  {color.name}
-                                </span>
-                              )}
-                            </div>
-                          <input
-                            type="color"
-                            value={color.hex_code || '#d1d5db'}
-                            onChange={(e) => {
-                              const current = (watch(`fabrics.${index}.colors`) || []) as any[];
-                              current[colorIdx] = { ...current[colorIdx], hex_code: e.target.value };
-                              setValue(`fabrics.${index}.colors`, current);
-                            }}
-                            className="h-10 w-12 rounded"
-                          />
-                            <Input
-                              value={color.name || ''}
-                              onChange={(e) => {
-                                const current = (watch(`fabrics.${index}.colors`) || []) as any[];
-                                current[colorIdx] = { ...current[colorIdx], name: e.target.value };
-                                setValue(`fabrics.${index}.colors`, current);
-                              }}
-                              placeholder="Colour name"
-                              className="flex-1"
-                            />
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => {
-                                const current = (watch(`fabrics.${index}.colors`) || []) as any[];
-                                setValue(
-                                  `fabrics.${index}.colors`,
-                                  current.filter((_, idx) => idx !== colorIdx)
-                                );
-                              }}
-                            >
-                              <Trash2 className="h-4 w-4 text-destructive" />
-                            </Button>
-                          </div>
-                          <div className="flex flex-col gap-2 md:flex-row">
-                            <Input
-                              type="file"
-                              accept="image/*"
-                              onChange={(e) => {
-                                const file = e.target.files?.[0];
-                                if (file) {
-                                  handleUpload(file, (url) => {
-                                    const current = (watch(`fabrics.${index}.colors`) || []) as any[];
-                                    current[colorIdx] = { ...current[colorIdx], image_url: url };
-                                    setValue(`fabrics.${index}.colors`, current);
-                                  });
-                                }
-                              }}
-                              className="cursor-pointer bg-black/5 md:flex-1"
-                            />
-                            <Input
-                              value={color.image_url || ''}
+                          <Plus className="h-4 w-4 mr-1" /> Add colour
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Add one or more colours for this fabric. Upload the image against each colour (fabric image not required).
+                      </p>
+                      <div className="space-y-2">
+                        {((watch(`fabrics.${index}.colors`) || []) as any[]).map((color, colorIdx) => (
+                          <div
+                            key={`${field.id}-color-${colorIdx}`}
+                            className="space-y-2 rounded-md border border-muted/60 p-2"
+                          >
+                            <div className="flex items-center gap-3">
+                              <div className="relative h-12 w-12 overflow-hidden rounded-md border">
+                                {color.image_url ? (
+                                  <img
+                                    src={color.image_url}
+                                    alt={color.name || 'Colour preview'}
+                                    className="h-full w-full object-cover"
+                                  />
+                                ) : (
+                                  <div
+                                    className="h-full w-full"
+                                    style={{ backgroundColor: color.hex_code || '#000000' }}
+                                  />
+                                )}
+                                {color.name && (
+                                  <span className="absolute inset-0 flex items-center justify-center text-[10px] font-semibold text-white drop-shadow-sm text-center px-1">
+                                    {color.name}
+                                  </span>
+                                )}
+                              </div>
+                            <input
+                              type="color"
+                              value={color.hex_code || '#d1d5db'}
                               onChange={(e) => {
                                 const current = (watch(`fabrics.${index}.colors`) || []) as any[];
-                                current[colorIdx] = { ...current[colorIdx], image_url: e.target.value };
+                                current[colorIdx] = { ...current[colorIdx], hex_code: e.target.value };
                                 setValue(`fabrics.${index}.colors`, current);
                               }}
-                              placeholder="Image URL for this colour"
-                              className="md:flex-1"
+                              className="h-10 w-12 rounded"
                             />
+                              <Input
+                                value={color.name || ''}
+                                onChange={(e) => {
+                                  const current = (watch(`fabrics.${index}.colors`) || []) as any[];
+                                  current[colorIdx] = { ...current[colorIdx], name: e.target.value };
+                                  setValue(`fabrics.${index}.colors`, current);
+                                }}
+                                placeholder="Colour name"
+                                className="flex-1"
+                              />
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => {
+                                  const current = (watch(`fabrics.${index}.colors`) || []) as any[];
+                                  setValue(
+                                    `fabrics.${index}.colors`,
+                                    current.filter((_, idx) => idx !== colorIdx)
+                                  );
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                            <div className="flex flex-col gap-2 md:flex-row">
+                              <Input
+                                type="file"
+                                accept="image/*"
+                                onChange={(e) => {
+                                  const file = e.target.files?.[0];
+                                  if (file) {
+                                    handleUpload(
+                                      file,
+                                      atRow('fabrics', index, (row, url) => {
+                                        const current = [...((getValues(`fabrics.${row}.colors`) || []) as any[])];
+                                        if (!current[colorIdx]) return;
+                                        current[colorIdx] = { ...current[colorIdx], image_url: url };
+                                        setValue(`fabrics.${row}.colors`, current);
+                                      })
+                                    );
+                                  }
+                                }}
+                                className="cursor-pointer bg-black/5 md:flex-1"
+                              />
+                              <Input
+                                value={color.image_url || ''}
+                                onChange={(e) => {
+                                  const current = (watch(`fabrics.${index}.colors`) || []) as any[];
+                                  current[colorIdx] = { ...current[colorIdx], image_url: e.target.value };
+                                  setValue(`fabrics.${index}.colors`, current);
+                                }}
+                                placeholder="Image URL for this colour"
+                                className="md:flex-1"
+                              />
+                            </div>
                           </div>
-                        </div>
-                      ))}
+                        ))}
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
 
             <div className="space-y-3">
               <div className="flex flex-wrap items-center justify-between gap-2">
                 <label className="text-sm font-medium">Mattress options</label>
                 <div className="flex flex-wrap items-center gap-2">
-                  <Input
-                    value={mattressImportId}
-                    onChange={(e) => setMattressImportId(e.target.value)}
-                    placeholder="Import from product ID"
-                    className="w-44"
-                  />
-                  <Button type="button" variant="outline" size="sm" onClick={importMattressesFromProduct}>
+                  <Button type="button" variant="outline" size="sm" onClick={() => setImportSections(['mattresses'])}>
                     Import
                   </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => setMattressPicker('new')}>
+                    <Link2 className="h-4 w-4 mr-2" /> Link Mattress
+                  </Button>
                   <Button
                     type="button"
                     variant="outline"
@@ -2003,105 +1915,160 @@ const ProductForm = () => {
                 <p className="text-xs text-muted-foreground">Optional: add mattresses that can be reused by other products.</p>
               )}
               <div className="space-y-3">
-                {mattressFields.map((field, index) => (
-                  <div key={field.id} className="space-y-3 rounded-md border p-3 relative">
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      className="absolute right-2 top-2"
-                      onClick={() => removeMattress(index)}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
-                    <div className="grid grid-cols-2 gap-2">
-                      <Input
-                        {...register(`mattresses.${index}.name` as const)}
-                        placeholder="Mattress name (e.g. Winwood Mattress)"
-                        className="col-span-1"
-                      />
-                      <Input
-                        type="number"
-                        step="0.01"
-                        {...register(`mattresses.${index}.price` as const, {
-                          setValueAs: (val) => (val === '' || val === null || val === undefined ? null : Number(val)),
-                        })}
-                        placeholder="Price (optional)"
-                        className="col-span-1"
-                      />
-                      <Input
-                        {...register(`mattresses.${index}.source_product` as const, {
-                          setValueAs: (val) => (val === '' || val === null || val === undefined ? null : Number(val)),
-                        })}
-                        placeholder="Source product ID (optional)"
-                        className="col-span-1"
-                      />
-                      <Input
-                        type="file"
-                        accept="image/*"
-                        onChange={(e) => {
-                          const file = e.target.files?.[0];
-                          if (file) {
-                            handleUpload(file, (url) => setValue(`mattresses.${index}.image_url`, url));
-                          }
-                        }}
-                        className="col-span-1 cursor-pointer bg-black/5"
-                      />
-                      <label className="col-span-2 flex items-center gap-2 text-sm">
-                        <input
-                          type="checkbox"
-                          checked={Boolean(watch(`mattresses.${index}.enable_bunk_positions`))}
-                          onChange={(e) => setValue(`mattresses.${index}.enable_bunk_positions`, e.target.checked)}
+                {mattressFields.map((field, index) => {
+                  const sourceId = watch(`mattresses.${index}.source_product`);
+                  const source = sourceId ? allProducts.find((product) => product.id === sourceId) : undefined;
+                  const drift = mattressDrift(
+                    {
+                      price: watch(`mattresses.${index}.price`),
+                      enable_bunk_positions: watch(`mattresses.${index}.enable_bunk_positions`),
+                    },
+                    source
+                  );
+                  return (
+                    <div key={field.id} className="space-y-3 rounded-md border p-3 relative">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="absolute right-2 top-2"
+                        onClick={() => removeMattress(index)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          {...register(`mattresses.${index}.name` as const)}
+                          placeholder="Mattress name (e.g. Winwood Mattress)"
+                          className="col-span-1"
                         />
-                        Allow bunk selection (Top / Bottom / Both) for this mattress; “Both” charges 2× price.
-                      </label>
-                      {watch(`mattresses.${index}.enable_bunk_positions`) && (
-                        <div className="col-span-2 grid grid-cols-3 gap-2">
-                          <Input
-                            type="number"
-                            step="0.01"
-                            {...register(`mattresses.${index}.price_top` as const, {
-                              setValueAs: (val) => (val === '' || val === null || val === undefined ? null : Number(val)),
-                            })}
-                            placeholder="Top price (£)"
-                          />
-                          <Input
-                            type="number"
-                            step="0.01"
-                            {...register(`mattresses.${index}.price_bottom` as const, {
-                              setValueAs: (val) => (val === '' || val === null || val === undefined ? null : Number(val)),
-                            })}
-                            placeholder="Bottom price (£)"
-                          />
-                          <Input
-                            type="number"
-                            step="0.01"
-                            {...register(`mattresses.${index}.price_both` as const, {
-                              setValueAs: (val) => (val === '' || val === null || val === undefined ? null : Number(val)),
-                            })}
-                            placeholder="Both price (£)"
+                        <Input
+                          type="number"
+                          step="0.01"
+                          {...register(`mattresses.${index}.price` as const, {
+                            setValueAs: (val) => (val === '' || val === null || val === undefined ? null : Number(val)),
+                          })}
+                          placeholder="Price (optional)"
+                          className="col-span-1"
+                        />
+                        <div className="col-span-1 flex items-center gap-2 text-sm">
+                          {sourceId ? (
+                            <>
+                              <Link2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                              <Link to={`/products/edit/${sourceId}`} className="truncate text-primary hover:underline">
+                                {source?.name || `Product #${sourceId}`}
+                              </Link>
+                              <Button type="button" variant="ghost" size="sm" onClick={() => setMattressPicker(index)}>
+                                Change
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setValue(`mattresses.${index}.source_product`, null, { shouldDirty: true })}
+                              >
+                                Unlink
+                              </Button>
+                            </>
+                          ) : (
+                            <Button type="button" variant="outline" size="sm" onClick={() => setMattressPicker(index)}>
+                              <Link2 className="h-4 w-4 mr-2" /> Link to mattress product
+                            </Button>
+                          )}
+                        </div>
+                        <Input
+                          type="file"
+                          accept="image/*"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) {
+                              handleUpload(file, atRow('mattresses', index, (row, url) => setValue(`mattresses.${row}.image_url`, url)));
+                            }
+                          }}
+                          className="col-span-1 cursor-pointer bg-black/5"
+                        />
+                        <label className="col-span-2 flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={Boolean(watch(`mattresses.${index}.enable_bunk_positions`))}
+                            onChange={(e) => setValue(`mattresses.${index}.enable_bunk_positions`, e.target.checked)}
                           />
+                          Allow bunk selection (Top / Bottom / Both) for this mattress; “Both” charges 2× price.
+                        </label>
+                        {watch(`mattresses.${index}.enable_bunk_positions`) && (
+                          <div className="col-span-2 grid grid-cols-3 gap-2">
+                            <Input
+                              type="number"
+                              step="0.01"
+                              {...register(`mattresses.${index}.price_top` as const, {
+                                setValueAs: (val) => (val === '' || val === null || val === undefined ? null : Number(val)),
+                              })}
+                              placeholder="Top price (£)"
+                            />
+                            <Input
+                              type="number"
+                              step="0.01"
+                              {...register(`mattresses.${index}.price_bottom` as const, {
+                                setValueAs: (val) => (val === '' || val === null || val === undefined ? null : Number(val)),
+                              })}
+                              placeholder="Bottom price (£)"
+                            />
+                            <Input
+                              type="number"
+                              step="0.01"
+                              {...register(`mattresses.${index}.price_both` as const, {
+                                setValueAs: (val) => (val === '' || val === null || val === undefined ? null : Number(val)),
+                              })}
+                              placeholder="Both price (£)"
+                            />
+                          </div>
+                        )}
+                      </div>
+                      {drift && source && (
+                        <div className="flex flex-wrap items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-sm text-amber-900">
+                          <span className="flex-1">
+                            {source.name} now sells for £{drift.sourcePrice.toFixed(2)}; this bed offers it at £
+                            {drift.linkedPrice.toFixed(2)}.
+                          </span>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setValue(`mattresses.${index}.price`, drift.sourcePrice, { shouldDirty: true })}
+                          >
+                            Use new price
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={resyncingMattress !== null}
+                            onClick={() => handleResyncMattress(source)}
+                          >
+                            <RefreshCw className={cn('h-4 w-4 mr-2', resyncingMattress === source.id && 'animate-spin')} />
+                            Resync all beds
+                          </Button>
                         </div>
                       )}
-                    </div>
-                    {watch(`mattresses.${index}.image_url`) && (
-                      <img
-                        src={watch(`mattresses.${index}.image_url`) || undefined}
-                        alt={watch(`mattresses.${index}.name`) || `Mattress ${index + 1}`}
-                        className="h-24 w-24 rounded-md border object-cover"
+                      {watch(`mattresses.${index}.image_url`) && (
+                        <img
+                          src={watch(`mattresses.${index}.image_url`) || undefined}
+                          alt={watch(`mattresses.${index}.name`) || `Mattress ${index + 1}`}
+                          className="h-24 w-24 rounded-md border object-cover"
+                        />
+                      )}
+                      <textarea
+                        {...register(`mattresses.${index}.description` as const)}
+                        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                        placeholder="Description / tension / springs (optional)"
                       />
-                    )}
-                    <textarea
-                      {...register(`mattresses.${index}.description` as const)}
-                      className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
-                      placeholder="Description / tension / springs (optional)"
-                    />
-                    <Input
-                      {...register(`mattresses.${index}.image_url` as const)}
-                      placeholder="Image URL (optional)"
-                    />
-                  </div>
-                ))}
+                      <Input
+                        {...register(`mattresses.${index}.image_url` as const)}
+                        placeholder="Image URL (optional)"
+                      />
+                    </div>
+                  );
+                })}
               </div>
             </div>
 
@@ -2142,7 +2109,7 @@ const ProductForm = () => {
                         fileInput.onchange = async () => {
                           const file = fileInput.files?.[0];
                           if (!file) return;
-                          await handleUpload(file, (url) => setValue(`styles.${index}.icon_url`, url), true);
+                          await handleUpload(file, atRow('styles', index, (row, url) => setValue(`styles.${row}.icon_url`, url)), true);
                         };
                         fileInput.click();
                       }}
@@ -2255,11 +2222,17 @@ const ProductForm = () => {
                             fileInput.onchange = async () => {
                               const file = fileInput.files?.[0];
                               if (!file) return;
-                              const current = normalizeStyleOptions(watch(`styles.${index}.options`), true);
-                              await handleUpload(file, (url) => {
-                                current[optionIndex] = { ...current[optionIndex], icon_url: url };
-                                setValue(`styles.${index}.options`, current);
-                              }, true);
+                              await handleUpload(
+                                file,
+                                atRow('styles', index, (row, url) => {
+                                  // Read the options when the upload lands, not when it started, so edits made meanwhile survive.
+                                  const current = normalizeStyleOptions(getValues(`styles.${row}.options`), true);
+                                  if (!current[optionIndex]) return;
+                                  current[optionIndex] = { ...current[optionIndex], icon_url: url };
+                                  setValue(`styles.${row}.options`, current);
+                                }),
+                                true
+                              );
                             };
                             fileInput.click();
                           }}
@@ -2290,6 +2263,25 @@ const ProductForm = () => {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle>Price Matrix</CardTitle>
+              <Button type="button" variant="outline" size="sm" onClick={() => setShowPriceMatrix((show) => !show)}>
+                {showPriceMatrix ? 'Hide' : 'Show'} combinations
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Every size, style option and mattress combination with the price a customer would pay.
+            </p>
+          </CardHeader>
+          {showPriceMatrix && (
+            <CardContent>
+              <PriceMatrix control={control} />
+            </CardContent>
+          )}
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Product Details</CardTitle>
@@ -2324,23 +2316,40 @@ const ProductForm = () => {
                     />
                     Show table
                   </label>
+                  <select
+                    className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                    value={dimensionUnits}
+                    onChange={(e) => handleDimensionUnitsChange(e.target.value as DimensionUnitMode)}
+                    title="How sizes are shown on the storefront"
+                  >
+                    {(Object.keys(DIMENSION_UNIT_LABELS) as DimensionUnitMode[]).map((mode) => (
+                      <option key={mode} value={mode}>
+                        {DIMENSION_UNIT_LABELS[mode]}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                    value=""
+                    onChange={(e) => {
+                      const template = dimensionTemplates.find((t) => t.id === Number(e.target.value));
+                      if (template) applyDimensionTemplate(template);
+                    }}
+                  >
+                    <option value="">Other template...</option>
+                    {dimensionTemplates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
                   <Button
                     type="button"
                     variant="outline"
                     size="sm"
-                    onClick={() => {
-                      const defaultRows = adjustWidthForWingback(
-                        DEFAULT_DIMENSION_ROWS.map((row) => ({
-                          measurement: row.measurement,
-                          values: { ...row.values },
-                        }))
-                      );
-                      setDimensionColumns([...DIMENSION_SIZE_COLUMNS]);
-                      replaceDimensions(defaultRows);
-                      setValue('dimensions', defaultRows);
-                    }}
+                    onClick={() => applyDimensionTemplate(dimensionTemplate)}
                   >
-                    Apply Default Dimensions
+                    Apply {dimensionTemplate.name}
                   </Button>
                   <Button
                     type="button"
@@ -2357,9 +2366,50 @@ const ProductForm = () => {
                   </Button>
                 </div>
               </div>
-              {hasWingbackHeadboard && (
+              {!hasDimensionValues && !sameColumns(dimensionColumns, dimensionTemplate.columns) && (
+                <div className="flex flex-wrap items-center gap-2 rounded-md border border-blue-200 bg-blue-50 px-3 py-2 text-sm text-blue-900">
+                  <span className="flex-1">
+                    The {dimensionTemplate.name} template matches this category ({dimensionTemplate.columns.join(', ')}).
+                  </span>
+                  <Button type="button" variant="outline" size="sm" onClick={() => applyDimensionTemplate(dimensionTemplate)}>
+                    Use template
+                  </Button>
+                </div>
+              )}
+              {activeRules.length > 0 && (
                 <div className="rounded-md border border-amber-200 bg-amber-50 text-amber-900 px-3 py-2 text-sm">
-                  Wingback headboard detected: overall bed width increases by ~4 cm to accommodate the winged sides. Length and heights stay the same. Default width values below include this adjustment.
+                  <p>Applied when a template fills the table, for the styles this product offers:</p>
+                  <ul className="list-disc pl-5">
+                    {activeRules.map((rule, index) => (
+                      <li key={index}>{describeDimensionRule(rule)}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <div>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setShowDimensionRules((show) => !show)}>
+                  {showDimensionRules ? 'Hide' : 'Edit'} adjustment rules ({productDimensionRules.length})
+                </Button>
+              </div>
+              {showDimensionRules && (
+                <div className="space-y-2 rounded-md border border-dashed p-3">
+                  {(dimensionTemplate.rules || []).length > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      <p>From the {dimensionTemplate.name} template:</p>
+                      <ul className="list-disc pl-5">
+                        {(dimensionTemplate.rules || []).map((rule, index) => (
+                          <li key={index}>{describeDimensionRule(rule)}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  <DimensionRulesEditor
+                    rules={productDimensionRules}
+                    onChange={(rules) => setValue('dimension_rules', rules, { shouldDirty: true })}
+                    columns={dimensionColumns}
+                    measurements={measurementSuggestions}
+                    activeRules={activeRules}
+                  />
                 </div>
               )}
               <div className="overflow-x-auto rounded-md border">
@@ -2403,14 +2453,24 @@ const ProductForm = () => {
                             <Controller
                               control={control}
                               name={`dimensions.${index}.values.${size}` as any}
-                              render={({ field: dimensionField }) => (
-                                <Input
-                                  value={dimensionField.value || ''}
-                                  onChange={dimensionField.onChange}
-                                  placeholder='e.g. 193 cm (76.0")'
-                                  className="whitespace-nowrap text-xs sm:text-sm"
-                                />
-                              )}
+                              render={({ field: dimensionField }) => {
+                                const cellError = dimensionError(dimensionField.value || '', dimensionUnits);
+                                return (
+                                  <Input
+                                    value={dimensionField.value || ''}
+                                    onChange={dimensionField.onChange}
+                                    // Typed in either unit; the other is filled in once the editor moves on.
+                                    onBlur={(e) => dimensionField.onChange(normalizeDimension(e.target.value, dimensionUnits))}
+                                    placeholder={`e.g. ${formatDimension(193, dimensionUnits)}`}
+                                    title={cellError || undefined}
+                                    aria-invalid={Boolean(cellError)}
+                                    className={cn(
+                                      'whitespace-nowrap text-xs sm:text-sm',
+                                      cellError && 'border-destructive focus-visible:ring-destructive'
+                                    )}
+                                  />
+                                );
+                              }}
                             />
                           </td>
                         ))}
@@ -2429,7 +2489,7 @@ const ProductForm = () => {
                     {dimensionFields.length === 0 && (
                       <tr>
                         <td colSpan={dimensionColumns.length + 2} className="p-4 text-center text-muted-foreground">
-                          No dimensions added yet. Click "Apply Default Dimensions" or add rows manually.
+                          No dimensions added yet. Apply the {dimensionTemplate.name} template or add rows manually.
                         </td>
                       </tr>
                     )}
@@ -2437,7 +2497,7 @@ const ProductForm = () => {
                 </table>
               </div>
               <datalist id="dimension-measurements">
-                {DIMENSION_MEASUREMENT_SUGGESTIONS.map((measurement) => (
+                {measurementSuggestions.map((measurement) => (
                   <option key={measurement} value={measurement} />
                 ))}
               </datalist>
@@ -2487,7 +2547,7 @@ const ProductForm = () => {
                         onChange={(e) => {
                           const file = e.target.files?.[0];
                           if (file) {
-                            handleUpload(file, (url) => setValue(`dimension_images.${index}.url`, url));
+                            handleUpload(file, atRow('dimension_images', index, (row, url) => setValue(`dimension_images.${row}.url`, url)));
                           }
                         }}
                         className="flex-1 cursor-pointer bg-black/5"
@@ -2515,7 +2575,7 @@ const ProductForm = () => {
               <div className="flex flex-wrap items-center justify-between gap-2">
                 <label className="text-sm font-medium">FAQs</label>
                 <div className="flex flex-wrap items-center gap-2">
-                  <Button type="button" variant="outline" size="sm" onClick={importFaqsFromProduct}>
+                  <Button type="button" variant="outline" size="sm" onClick={() => setImportSections(['faqs'])}>
                     Import FAQs
                   </Button>
                   <Button type="button" variant="outline" size="sm" onClick={() => appendFaq({ question: '', answer: '' })}>
@@ -2559,7 +2619,7 @@ const ProductForm = () => {
                     {...register('delivery_title')}
                   />
                 </div>
-                <Button type="button" variant="outline" size="sm" onClick={importDeliveryInfoFromProduct}>
+                <Button type="button" variant="outline" size="sm" onClick={() => setImportSections(['delivery_info'])}>
                   Import delivery
                 </Button>
               </div>
@@ -2583,7 +2643,7 @@ const ProductForm = () => {
                     {...register('returns_title')}
                   />
                 </div>
-                <Button type="button" variant="outline" size="sm" onClick={importReturnsInfoFromProduct}>
+                <Button type="button" variant="outline" size="sm" onClick={() => setImportSections(['returns_guarantee'])}>
                   Import returns/guarantee
                 </Button>
               </div>
@@ -2724,6 +2784,45 @@ const ProductForm = () => {
           </Button>
         </div>
       </form>
+
+      {/* Docked beside the form rather than in it, so the preview stays visible while scrolling long sections. */}
+      {previewDevice && (
+        <aside
+          className={cn(
+            'fixed inset-y-0 right-0 z-40 border-l bg-white shadow-xl',
+            previewDevice === 'mobile' ? 'w-[420px]' : 'w-[min(60vw,880px)]'
+          )}
+        >
+          <ProductPreview
+            control={control}
+            dimensionColumns={dimensionColumns}
+            categoryName={categories.find((c) => c.id === selectedCategory)?.name}
+            device={previewDevice}
+            onDeviceChange={setPreviewDevice}
+            onClose={() => setPreviewDevice(null)}
+          />
+        </aside>
+      )}
+
+      {importSections && (
+        <ImportSectionsDialog
+          current={pickImportSections(getValues())}
+          initialSections={importSections}
+          excludeProductId={id ? Number(id) : undefined}
+          onApply={applyImportedSections}
+          onClose={() => setImportSections(null)}
+        />
+      )}
+      {mattressPicker !== null && (
+        <MattressPicker
+          products={allProducts}
+          isLoading={isLoadingProducts}
+          linkedIds={(watch('mattresses') || []).map((mattress) => mattress.source_product || 0).filter(Boolean)}
+          excludeProductId={id ? Number(id) : undefined}
+          onSelect={handleLinkMattress}
+          onClose={() => setMattressPicker(null)}
+        />
+      )}
     </div>
   );
 };
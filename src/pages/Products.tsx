@@ -1,84 +1,173 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Card, CardContent } from '../components/ui/card';
 import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
-import { Edit, Trash2 } from 'lucide-react';
-import { Link } from 'react-router-dom';
-import { apiDelete, apiGet } from '../lib/api';
-import type { Product, Category } from '../lib/types';
+import { ArrowDown, ArrowUp, ArrowUpDown, Copy, Download, Edit, Loader2, Trash2, Upload } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { apiDelete } from '../lib/api';
+import { useAuth } from '../lib/auth';
+import { fetchAllProducts, useCategories, useInvalidate, useProductPage } from '../lib/queries';
+import { exportProducts, type ExportFormat } from '../lib/productExport';
+import type { Product } from '../lib/types';
+import ProductBulkActions from '../components/ProductBulkActions';
+import ProductImportDialog from '../components/ProductImportDialog';
 import { toast } from 'sonner';
 
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+const DEFAULT_PAGE_SIZE = 25;
+// Matches the old in-memory order: display order first, newest first within the same slot.
+const DEFAULT_ORDERING = 'sort_order,-id';
+const SEARCH_DEBOUNCE_MS = 350;
+
+type SortField = 'name' | 'price' | 'sort_order' | 'in_stock';
+
 const Products = () => {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [selectedCategory, setSelectedCategory] = useState<string | 'all'>('all');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: categories = [] } = useCategories();
+  const { can } = useAuth();
+  const invalidate = useInvalidate();
 
-  const loadData = async () => {
-    try {
-      const [productsData, categoriesData] = await Promise.all([
-        apiGet<Product[] | { results?: Product[] }>('/products/'),
-        apiGet<Category[] | { results?: Category[] }>('/categories/'),
-      ]);
-
-      const normalizeList = <T,>(data: T[] | { results?: T[] }): T[] => {
-        if (Array.isArray(data)) return data;
-        if (Array.isArray((data as { results?: T[] }).results)) return (data as { results: T[] }).results;
-        return [];
-      };
-
-      const normalizedProducts = normalizeList(productsData).sort((a, b) => {
-        const aOrder = Number.isFinite(Number(a.sort_order)) ? Number(a.sort_order) : 0;
-        const bOrder = Number.isFinite(Number(b.sort_order)) ? Number(b.sort_order) : 0;
-        if (aOrder !== bOrder) return aOrder - bOrder;
-        return (b.id || 0) - (a.id || 0);
-      });
-      setProducts(normalizedProducts);
-      setCategories(normalizeList(categoriesData));
-    } catch {
-      toast.error('Failed to load products');
-    }
+  const page = Math.max(Number(searchParams.get('page')) || 1, 1);
+  const pageSizeParam = Number(searchParams.get('page_size'));
+  const pageSize = PAGE_SIZE_OPTIONS.includes(pageSizeParam) ? pageSizeParam : DEFAULT_PAGE_SIZE;
+  const search = searchParams.get('search') || '';
+  const ordering = searchParams.get('ordering') || '';
+  const selectedCategory = searchParams.get('category') || '';
+
+  const [searchInput, setSearchInput] = useState(search);
+  // Keyed by id and kept across pages so a selection can be built up while paging or searching.
+  const [selected, setSelected] = useState<Map<number, Product>>(new Map());
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const searchTimer = useRef<number | undefined>(undefined);
+
+  useEffect(() => () => window.clearTimeout(searchTimer.current), []);
+
+  const { data, isLoading, isFetching } = useProductPage({
+    page,
+    pageSize,
+    search,
+    ordering: ordering || DEFAULT_ORDERING,
+    category: selectedCategory,
+  });
+  const products = data?.results || [];
+  const totalCount = data?.count ?? 0;
+  const totalPages = Math.max(Math.ceil(totalCount / pageSize), 1);
+
+  // Empty values are dropped so the default view keeps a clean URL.
+  const updateParams = (updates: Record<string, string | number | null>) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        Object.entries(updates).forEach(([key, value]) => {
+          if (value === null || value === '') {
+            next.delete(key);
+          } else {
+            next.set(key, String(value));
+          }
+        });
+        return next;
+      },
+      { replace: true }
+    );
   };
 
-  useEffect(() => {
-    loadData();
-  }, []);
+  const handleSearchChange = (value: string) => {
+    setSearchInput(value);
+    window.clearTimeout(searchTimer.current);
+    searchTimer.current = window.setTimeout(() => {
+      updateParams({ search: value.trim() || null, page: null });
+    }, SEARCH_DEBOUNCE_MS);
+  };
+
+  const handleSort = (field: SortField) => {
+    const nextOrdering = ordering === field ? `-${field}` : field;
+    updateParams({ ordering: nextOrdering, page: null });
+  };
 
   const handleDelete = async (id: number) => {
     if (!confirm('Delete this product?')) return;
     try {
       await apiDelete(`/products/${id}/`);
       toast.success('Product deleted');
-      await loadData();
+      // Step back if that was the last row on the final page.
+      if (products.length === 1 && page > 1) {
+        updateParams({ page: page - 1 });
+      }
+      await invalidate('products');
     } catch {
       toast.error('Delete failed');
     }
   };
 
-  const filteredProducts = useMemo(() => {
-    if (selectedCategory === 'all') return products;
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format);
+    try {
+      const all = await fetchAllProducts({ search, ordering: ordering || DEFAULT_ORDERING, category: selectedCategory });
+      if (all.length === 0) {
+        toast.error('No products match these filters');
+        return;
+      }
+      await exportProducts(all, categories, format);
+      toast.success(`Exported ${all.length} product${all.length === 1 ? '' : 's'}`);
+    } catch {
+      toast.error('Export failed');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
 
-    const targetCategory = categories.find(
-      (c) => c.slug === selectedCategory || String(c.id) === selectedCategory
+  const renderSortHeader = (label: string, field: SortField) => {
+    const Icon = ordering === field ? ArrowUp : ordering === `-${field}` ? ArrowDown : ArrowUpDown;
+    return (
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 hover:text-foreground"
+        onClick={() => handleSort(field)}
+      >
+        {label}
+        <Icon className="h-3.5 w-3.5" />
+      </button>
     );
+  };
 
-    const targetSlug = (targetCategory?.slug || '').toLowerCase();
-    const targetId = targetCategory?.id;
-    const targetName = (targetCategory?.name || '').toLowerCase();
-
-    return products.filter((product) => {
-      const productSlug = (product.category_slug || '').toLowerCase();
-      const productCategoryId = Number(product.category);
-      const productCategoryName = (product.category_name || '').toLowerCase();
+  const canBulkEdit = can('catalog.edit');
+  const allOnPageSelected = products.length > 0 && products.every((product) => selected.has(product.id));
 
-      const matchesSlug = targetSlug ? productSlug === targetSlug : false;
-      const matchesId = targetId != null && Number.isFinite(productCategoryId)
-        ? productCategoryId === targetId
-        : false;
-      const matchesName = targetName ? productCategoryName === targetName : false;
+  const toggleSelected = (product: Product) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (next.has(product.id)) {
+        next.delete(product.id);
+      } else {
+        next.set(product.id, product);
+      }
+      return next;
+    });
+  };
 
-      return matchesSlug || matchesId || matchesName;
+  const toggleSelectPage = () => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      products.forEach((product) => {
+        if (allOnPageSelected) {
+          next.delete(product.id);
+        } else {
+          next.set(product.id, product);
+        }
+      });
+      return next;
     });
-  }, [products, categories, selectedCategory]);
+  };
+
+  const keepOnlySelected = (ids: number[]) => {
+    setSelected((prev) => new Map(ids.filter((id) => prev.has(id)).map((id) => [id, prev.get(id)!])));
+  };
+
+  const hasFilters = Boolean(search || selectedCategory || ordering);
+  const firstRow = totalCount === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastRow = Math.min(page * pageSize, totalCount);
 
   return (
     <div className="space-y-6">
@@ -87,22 +176,50 @@ const Products = () => {
           <h2 className="text-3xl font-serif font-bold text-espresso">Products</h2>
           <p className="text-muted-foreground">Manage your product catalog.</p>
         </div>
-        <Link to="/products/new">
-          <Button className="bg-primary text-white hover:bg-primary/90">
-            Add Product
-          </Button>
-        </Link>
+        <div className="flex items-center gap-2">
+          {(['csv', 'xlsx'] as const).map((format) => (
+            <Button
+              key={format}
+              variant="outline"
+              onClick={() => handleExport(format)}
+              disabled={exportingFormat !== null || totalCount === 0}
+            >
+              {exportingFormat === format ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-2" />
+              )}
+              Export {format.toUpperCase()}
+            </Button>
+          ))}
+          {can('catalog.edit') && (
+            <Button variant="outline" onClick={() => setShowImport(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import CSV
+            </Button>
+          )}
+          {can('catalog.edit') && (
+            <Link to="/products/new">
+              <Button className="bg-primary text-white hover:bg-primary/90">
+                Add Product
+              </Button>
+            </Link>
+          )}
+        </div>
       </div>
 
       <div className="flex flex-wrap items-center gap-3">
+        <Input
+          className="max-w-xs bg-white"
+          placeholder="Search by name or slug"
+          value={searchInput}
+          onChange={(e) => handleSearchChange(e.target.value)}
+        />
         <label className="text-sm font-medium text-muted-foreground">Filter by category</label>
         <select
           className="min-w-[220px] rounded-md border border-input bg-white px-3 py-2 text-sm"
-          value={selectedCategory === 'all' ? '' : selectedCategory}
-          onChange={(e) => {
-            const val = e.target.value;
-            setSelectedCategory(val === '' ? 'all' : val);
-          }}
+          value={selectedCategory}
+          onChange={(e) => updateParams({ category: e.target.value || null, page: null })}
         >
           <option value="">All categories</option>
           {categories.map((cat) => (
@@ -111,29 +228,70 @@ const Products = () => {
             </option>
           ))}
         </select>
-        {selectedCategory !== 'all' && (
-          <Button variant="outline" size="sm" onClick={() => setSelectedCategory('all')}>
+        {hasFilters && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              window.clearTimeout(searchTimer.current);
+              setSearchInput('');
+              updateParams({ search: null, category: null, ordering: null, page: null });
+            }}
+          >
             Clear
           </Button>
         )}
+        {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
       </div>
 
+      {canBulkEdit && (
+        <ProductBulkActions
+          selected={Array.from(selected.values())}
+          onClearSelection={() => setSelected(new Map())}
+          onComplete={keepOnlySelected}
+        />
+      )}
+
       <Card>
         <CardContent className="p-0">
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Name</TableHead>
-                <TableHead>Display Order</TableHead>
+                {canBulkEdit && (
+                  <TableHead className="w-10">
+                    <input
+                      type="checkbox"
+                      role="checkbox"
+                      aria-label="Select all products on this page"
+                      className="h-4 w-4 rounded border-gray-300"
+                      checked={allOnPageSelected}
+                      onChange={toggleSelectPage}
+                    />
+                  </TableHead>
+                )}
+                <TableHead>{renderSortHeader('Name', 'name')}</TableHead>
+                <TableHead>{renderSortHeader('Display Order', 'sort_order')}</TableHead>
                 <TableHead>Category</TableHead>
-                <TableHead>Price</TableHead>
-                <TableHead>Stock</TableHead>
+                <TableHead>{renderSortHeader('Price', 'price')}</TableHead>
+                <TableHead>{renderSortHeader('Stock', 'in_stock')}</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredProducts.map((product) => (
-                <TableRow key={product.id}>
+              {products.map((product) => (
+                <TableRow key={product.id} data-state={selected.has(product.id) ? 'selected' : undefined}>
+                  {canBulkEdit && (
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        role="checkbox"
+                        aria-label={`Select ${product.name}`}
+                        className="h-4 w-4 rounded border-gray-300"
+                        checked={selected.has(product.id)}
+                        onChange={() => toggleSelected(product)}
+                      />
+                    </TableCell>
+                  )}
                   <TableCell className="font-medium">{product.name}</TableCell>
                   <TableCell>{Number.isFinite(Number(product.sort_order)) ? product.sort_order : 0}</TableCell>
                   <TableCell>{product.category_name || product.category_slug || product.category}</TableCell>
@@ -148,26 +306,37 @@ const Products = () => {
                     </span>
                   </TableCell>
                   <TableCell className="text-right space-x-2">
-                    <Link to={`/products/edit/${product.id}`}>
-                      <Button variant="ghost" size="icon">
-                        <Edit className="h-4 w-4" />
+                    {can('catalog.edit') && (
+                      <Link to={`/products/edit/${product.id}`}>
+                        <Button variant="ghost" size="icon">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </Link>
+                    )}
+                    {can('catalog.edit') && (
+                      <Link to={`/products/new?duplicate=${product.id}`} title="Duplicate">
+                        <Button variant="ghost" size="icon">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </Link>
+                    )}
+                    {can('catalog.delete') && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive"
+                        onClick={() => handleDelete(product.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
                       </Button>
-                    </Link>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="text-destructive"
-                      onClick={() => handleDelete(product.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    )}
                   </TableCell>
                 </TableRow>
               ))}
-              {filteredProducts.length === 0 && (
+              {products.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-sm text-muted-foreground py-6">
-                    No products found for this category.
+                  <TableCell colSpan={canBulkEdit ? 7 : 6} className="text-center text-sm text-muted-foreground py-6">
+                    {isLoading ? 'Loading products...' : 'No products match these filters.'}
                   </TableCell>
                 </TableRow>
               )}
@@ -175,6 +344,49 @@ const Products = () => {
           </Table>
         </CardContent>
       </Card>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-muted-foreground">
+        <div className="flex items-center gap-2">
+          <span>Rows per page</span>
+          <select
+            className="rounded-md border border-input bg-white px-2 py-1 text-sm"
+            value={pageSize}
+            onChange={(e) => updateParams({ page_size: Number(e.target.value), page: null })}
+          >
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-3">
+          <span>
+            {firstRow}–{lastRow} of {totalCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => updateParams({ page: page - 1 > 1 ? page - 1 : null })}
+          >
+            Previous
+          </Button>
+          <span>
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= totalPages}
+            onClick={() => updateParams({ page: page + 1 })}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+
+      {showImport && <ProductImportDialog onClose={() => setShowImport(false)} />}
     </div>
   );
 };
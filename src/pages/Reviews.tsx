@@ -1,20 +1,24 @@
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Button } from "../components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../components/ui/table";
 import { Input } from "../components/ui/input";
 import { Eye, EyeOff, Trash2, Star, PlusCircle, Loader2 } from "lucide-react";
 import { toast } from "sonner";
-import { apiDelete, apiGet, apiPost } from "../lib/api";
-import type { Product, Review } from "../lib/types";
+import { apiDelete, apiPost } from "../lib/api";
+import { useAuth } from "../lib/auth";
+import { queryKeys, useProducts, useReviews } from "../lib/queries";
+import type { Review } from "../lib/types";
 
 type StatusFilter = "all" | "visible" | "hidden";
 
 const Reviews = () => {
-  const [reviews, setReviews] = useState<Review[]>([]);
-  const [products, setProducts] = useState<Product[]>([]);
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: reviews = [], isLoading, isFetching, refetch } = useReviews();
+  const { data: products = [] } = useProducts();
   const [filter, setFilter] = useState<StatusFilter>("all");
-  const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [form, setForm] = useState({
     product: "",
@@ -24,25 +28,8 @@ const Reviews = () => {
     is_visible: true,
   });
 
-  const loadData = async () => {
-    setIsLoading(true);
-    try {
-      const [reviewsRes, productsRes] = await Promise.all([
-        apiGet<Review[]>("/reviews/"),
-        apiGet<Product[]>("/products/"),
-      ]);
-      setReviews(reviewsRes);
-      setProducts(productsRes);
-    } catch (error) {
-      toast.error("Failed to load reviews");
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadData();
-  }, []);
+  const setReviews = (update: (prev: Review[]) => Review[]) =>
+    queryClient.setQueryData<Review[]>(queryKeys.reviews, (prev) => update(prev || []));
 
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -129,8 +116,8 @@ const Reviews = () => {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h2 className="text-3xl font-serif font-bold text-espresso">Customer Reviews</h2>
-        <Button variant="outline" size="sm" onClick={loadData} disabled={isLoading}>
-          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Refresh"}
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          {isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : "Refresh"}
         </Button>
       </div>
 
@@ -155,78 +142,80 @@ const Reviews = () => {
         </Card>
       </div>
 
-      <Card>
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <CardTitle className="flex items-center gap-2">
-              <PlusCircle className="h-5 w-5" />
-              Add Review
-            </CardTitle>
-          </div>
-        </CardHeader>
-        <CardContent>
-          <form className="grid grid-cols-1 md:grid-cols-2 gap-4" onSubmit={handleCreate}>
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-gray-700">Product</label>
-              <select
-                className="w-full rounded-md border border-input bg-background px-3 py-2"
-                value={form.product}
-                onChange={(e) => setForm({ ...form, product: e.target.value })}
-              >
-                <option value="">Select product</option>
-                {products.map((p) => (
-                  <option key={p.id} value={p.id}>
-                    {p.name}
-                  </option>
-                ))}
-              </select>
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-gray-700">Customer name</label>
-              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+      {can("reviews.moderate") && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <PlusCircle className="h-5 w-5" />
+                Add Review
+              </CardTitle>
             </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-gray-700">Rating</label>
-              <div className="flex items-center gap-3">
-                <input
-                  type="number"
-                  min={1}
-                  max={5}
-                  className="w-24 rounded-md border border-input px-3 py-2"
-                  value={form.rating}
-                  onChange={(e) => setForm({ ...form, rating: Number(e.target.value) || 0 })}
+          </CardHeader>
+          <CardContent>
+            <form className="grid grid-cols-1 md:grid-cols-2 gap-4" onSubmit={handleCreate}>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Product</label>
+                <select
+                  className="w-full rounded-md border border-input bg-background px-3 py-2"
+                  value={form.product}
+                  onChange={(e) => setForm({ ...form, product: e.target.value })}
+                >
+                  <option value="">Select product</option>
+                  {products.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Customer name</label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Rating</label>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="number"
+                    min={1}
+                    max={5}
+                    className="w-24 rounded-md border border-input px-3 py-2"
+                    value={form.rating}
+                    onChange={(e) => setForm({ ...form, rating: Number(e.target.value) || 0 })}
+                  />
+                  {renderStars(form.rating)}
+                </div>
+              </div>
+              <div className="space-y-2 md:col-span-1">
+                <label className="text-sm font-medium text-gray-700">Visibility</label>
+                <div className="flex items-center gap-3">
+                  <Button
+                    type="button"
+                    variant={form.is_visible ? "default" : "outline"}
+                    onClick={() => setForm({ ...form, is_visible: !form.is_visible })}
+                  >
+                    {form.is_visible ? "Visible" : "Hidden"}
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <label className="text-sm font-medium text-gray-700">Review</label>
+                <textarea
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 min-h-[120px]"
+                  value={form.comment}
+                  onChange={(e) => setForm({ ...form, comment: e.target.value })}
                 />
-                {renderStars(form.rating)}
               </div>
-            </div>
-            <div className="space-y-2 md:col-span-1">
-              <label className="text-sm font-medium text-gray-700">Visibility</label>
-              <div className="flex items-center gap-3">
-                <Button
-                  type="button"
-                  variant={form.is_visible ? "default" : "outline"}
-                  onClick={() => setForm({ ...form, is_visible: !form.is_visible })}
-                >
-                  {form.is_visible ? "Visible" : "Hidden"}
+              <div className="md:col-span-2 flex justify-end">
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? "Saving..." : "Save Review"}
                 </Button>
               </div>
-            </div>
-            <div className="space-y-2 md:col-span-2">
-              <label className="text-sm font-medium text-gray-700">Review</label>
-              <textarea
-                className="w-full rounded-md border border-input bg-background px-3 py-2 min-h-[120px]"
-                value={form.comment}
-                onChange={(e) => setForm({ ...form, comment: e.target.value })}
-              />
-            </div>
-            <div className="md:col-span-2 flex justify-end">
-              <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? "Saving..." : "Save Review"}
-              </Button>
-            </div>
-          </form>
-        </CardContent>
-      </Card>
+            </form>
+          </CardContent>
+        </Card>
+      )}
 
       <Card>
         <CardHeader>
@@ -295,21 +284,25 @@ const Reviews = () => {
                       </TableCell>
                       <TableCell>
                         <div className="flex justify-end gap-2">
-                          <Button variant="ghost" size="icon" onClick={() => handleToggle(review)} title="Toggle">
-                            {review.is_visible ? (
-                              <EyeOff className="h-4 w-4 text-gray-600" />
-                            ) : (
-                              <Eye className="h-4 w-4 text-gray-600" />
-                            )}
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleDelete(review.id)}
-                            title="Delete review"
-                          >
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
+                          {can("reviews.moderate") && (
+                            <Button variant="ghost" size="icon" onClick={() => handleToggle(review)} title="Toggle">
+                              {review.is_visible ? (
+                                <EyeOff className="h-4 w-4 text-gray-600" />
+                              ) : (
+                                <Eye className="h-4 w-4 text-gray-600" />
+                              )}
+                            </Button>
+                          )}
+                          {can("reviews.delete") && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDelete(review.id)}
+                              title="Delete review"
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -3,14 +3,36 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../co
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { toast } from 'sonner';
+import {
+  DEFAULT_IMAGE_UPLOAD_SETTINGS,
+  IMAGE_FORMAT_LABELS,
+  loadImageUploadSettings,
+  saveImageUploadSettings,
+  type ImageFormat,
+} from '../lib/imageOptimization';
 
 const Settings = () => {
   const [isAdminActive, setIsAdminActive] = useState(true);
+  const [imageSettings, setImageSettings] = useState(loadImageUploadSettings);
 
   const handleSave = () => {
     toast.success('Settings saved successfully');
   };
 
+  const handleSaveImageSettings = () => {
+    const { maxWidth, maxHeight, quality } = imageSettings;
+    if (!(maxWidth >= 100 && maxHeight >= 100)) {
+      toast.error('Max width and height must be at least 100px');
+      return;
+    }
+    if (!(quality > 0 && quality <= 1)) {
+      toast.error('Quality must be between 1 and 100');
+      return;
+    }
+    saveImageUploadSettings(imageSettings);
+    toast.success('Image upload settings saved');
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -44,6 +66,68 @@ const Settings = () => {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Image Uploads</CardTitle>
+            <CardDescription>
+              Images are resized and converted in the browser before upload. Location and camera metadata is removed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="grid gap-2">
+                <label className="text-sm font-medium">Max Width (px)</label>
+                <Input
+                  type="number"
+                  min={100}
+                  value={imageSettings.maxWidth}
+                  onChange={(e) => setImageSettings((prev) => ({ ...prev, maxWidth: Number(e.target.value) }))}
+                />
+              </div>
+              <div className="grid gap-2">
+                <label className="text-sm font-medium">Max Height (px)</label>
+                <Input
+                  type="number"
+                  min={100}
+                  value={imageSettings.maxHeight}
+                  onChange={(e) => setImageSettings((prev) => ({ ...prev, maxHeight: Number(e.target.value) }))}
+                />
+              </div>
+              <div className="grid gap-2">
+                <label className="text-sm font-medium">Format</label>
+                <select
+                  className="h-10 rounded-md border border-input bg-white px-3 text-sm"
+                  value={imageSettings.format}
+                  onChange={(e) => setImageSettings((prev) => ({ ...prev, format: e.target.value as ImageFormat }))}
+                >
+                  {(Object.keys(IMAGE_FORMAT_LABELS) as ImageFormat[]).map((format) => (
+                    <option key={format} value={format}>
+                      {IMAGE_FORMAT_LABELS[format]}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">Browsers that can't encode the chosen format fall back to JPEG.</p>
+              </div>
+              <div className="grid gap-2">
+                <label className="text-sm font-medium">Quality (1-100)</label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={Math.round(imageSettings.quality * 100)}
+                  onChange={(e) => setImageSettings((prev) => ({ ...prev, quality: Number(e.target.value) / 100 }))}
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSaveImageSettings}>Save Upload Settings</Button>
+              <Button variant="outline" onClick={() => setImageSettings(DEFAULT_IMAGE_UPLOAD_SETTINGS)}>
+                Reset to Defaults
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Store Information</CardTitle>
@@ -0,0 +1,397 @@
+import { useState } from 'react';
+import { Loader2, Plus, Send, Trash2 } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import FieldError from '../components/FieldError';
+import { apiDelete, apiPatch, apiPost, apiPut, getFieldErrors, type ApiFieldErrors } from '../lib/api';
+import { describeOptimization } from '../lib/imageOptimization';
+import { useUploadQueue } from '../lib/uploadQueue';
+import { useAuth } from '../lib/auth';
+import { runBulk, type BulkProgress } from '../lib/bulkActions';
+import { useAllProducts, useInvalidate, useStyleGroups } from '../lib/queries';
+import {
+  emptyStyleGroupForm,
+  emptyStyleGroupOption,
+  productsUsingStyleGroup,
+  styleGroupPayload,
+  styleGroupPushPatch,
+  styleGroupToForm,
+  type StyleGroupForm,
+  type StyleGroupOptionForm,
+} from '../lib/styleLibrary';
+import { useUnsavedChanges } from '../lib/unsavedChanges';
+import type { StyleGroup } from '../lib/types';
+import { toast } from 'sonner';
+
+const StyleLibrary = () => {
+  const { can } = useAuth();
+  const { data: groups = [], isLoading } = useStyleGroups();
+  const { data: products = [] } = useAllProducts();
+  const [form, setForm] = useState<StyleGroupForm>(emptyStyleGroupForm);
+  // What the form held when it was opened, to tell real edits apart.
+  const [initialForm, setInitialForm] = useState<StyleGroupForm>(emptyStyleGroupForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<ApiFieldErrors>({});
+  const [pushing, setPushing] = useState<{ groupId: number; progress: BulkProgress } | null>(null);
+
+  const invalidate = useInvalidate();
+  const { enqueue } = useUploadQueue();
+
+  const resetForm = () => {
+    setForm(emptyStyleGroupForm);
+    setInitialForm(emptyStyleGroupForm);
+    setEditingId(null);
+    setFieldErrors({});
+  };
+
+  const updateOption = (index: number, changes: Partial<StyleGroupOptionForm>) => {
+    setForm((prev) => ({
+      ...prev,
+      options: prev.options.map((option, i) => (i === index ? { ...option, ...changes } : option)),
+    }));
+  };
+
+  const removeOption = (index: number) => {
+    setForm((prev) => ({ ...prev, options: prev.options.filter((_, i) => i !== index) }));
+  };
+
+  const handleUpload = async (file: File, onSuccess: (url: string) => void) => {
+    setIsUploading(true);
+    try {
+      await enqueue([file], (res) => {
+        onSuccess(res.url);
+        toast.success(`Icon uploaded (${describeOptimization(res)})`);
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSave = async (): Promise<boolean> => {
+    if (isSaving) return false;
+    if (!form.name.trim()) {
+      toast.error('Style group name is required');
+      return false;
+    }
+    if (isUploading) {
+      toast.error('Please wait for the icon upload to finish');
+      return false;
+    }
+    const payload = styleGroupPayload(form);
+    if (payload.options.length === 0) {
+      toast.error('Add at least one option with a label');
+      return false;
+    }
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await apiPut(`/style-groups/${editingId}/`, payload);
+        toast.success('Style group updated');
+      } else {
+        await apiPost('/style-groups/', payload);
+        toast.success('Style group created');
+      }
+      resetForm();
+      await invalidate('styleGroups');
+      return true;
+    } catch (error) {
+      const errors = getFieldErrors(error);
+      setFieldErrors(errors);
+      toast.error(Object.keys(errors).length > 0 ? 'Please fix the highlighted fields' : 'Failed to save style group');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (group: StyleGroup) => {
+    const next = styleGroupToForm(group);
+    setEditingId(group.id);
+    setFieldErrors({});
+    setForm(next);
+    setInitialForm(next);
+  };
+
+  const confirmLeave = useUnsavedChanges({
+    isDirty: () => JSON.stringify(form) !== JSON.stringify(initialForm),
+    save: handleSave,
+  });
+
+  const handleDelete = async (group: StyleGroup) => {
+    const users = productsUsingStyleGroup(group, products).length;
+    const note = users > 0 ? ` ${users} product${users === 1 ? '' : 's'} keep their own copy of it.` : '';
+    if (!confirm(`Delete the "${group.name}" style group from the library?${note}`)) return;
+    try {
+      await apiDelete(`/style-groups/${group.id}/`);
+      toast.success('Style group deleted');
+      if (editingId === group.id) resetForm();
+      await invalidate('styleGroups');
+    } catch {
+      toast.error('Failed to delete style group');
+    }
+  };
+
+  const handlePush = async (group: StyleGroup) => {
+    const targets = productsUsingStyleGroup(group, products);
+    if (targets.length === 0) return;
+    if (
+      !confirm(
+        `Replace the "${group.name}" options on ${targets.length} product${targets.length === 1 ? '' : 's'} with the library version?`
+      )
+    ) {
+      return;
+    }
+    const failures = await runBulk(
+      targets,
+      (product) => apiPatch(`/products/${product.id}/`, styleGroupPushPatch(product, group)),
+      (progress) => setPushing({ groupId: group.id, progress })
+    );
+    setPushing(null);
+    await invalidate('products');
+    if (failures.length === 0) {
+      toast.success(`Updated ${targets.length} product${targets.length === 1 ? '' : 's'}`);
+    } else {
+      toast.error(`${failures.length} of ${targets.length} failed: ${failures.map((f) => f.name).join(', ')}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-serif font-bold text-espresso">Style Library</h2>
+        <p className="text-muted-foreground">Reusable style groups that products can add from the editor.</p>
+      </div>
+
+      {can('catalog.edit') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Style Group' : 'New Style Group'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="grid gap-2">
+                <label className="text-sm font-medium">Name *</label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. Headboard"
+                />
+                <FieldError errors={fieldErrors} name="name" />
+              </div>
+              <div className="grid gap-2">
+                <label className="text-sm font-medium">Icon</label>
+                <div className="flex items-center gap-2">
+                  {form.icon_url && <img src={form.icon_url} alt="" className="h-10 w-10 rounded border object-contain" />}
+                  <Input
+                    value={form.icon_url}
+                    onChange={(e) => setForm((prev) => ({ ...prev, icon_url: e.target.value }))}
+                    placeholder="Icon URL"
+                  />
+                  <Input
+                    type="file"
+                    accept="image/*"
+                    className="max-w-[200px]"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleUpload(file, (url) => setForm((prev) => ({ ...prev, icon_url: url })));
+                    }}
+                  />
+                </div>
+                <FieldError errors={fieldErrors} name="icon_url" />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.is_shared}
+                onChange={(e) => setForm((prev) => ({ ...prev, is_shared: e.target.checked }))}
+              />
+              Shared across sizes
+            </label>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Options</label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm((prev) => ({ ...prev, options: [...prev.options, emptyStyleGroupOption] }))}
+                >
+                  <Plus className="h-4 w-4 mr-2" /> Add Option
+                </Button>
+              </div>
+              {form.options.length === 0 && <p className="text-sm text-muted-foreground">No options yet.</p>}
+              {form.options.map((option, index) => (
+                <div key={index} className="grid gap-2 rounded-md border p-3 md:grid-cols-[1fr_1.5fr_110px_1fr_auto]">
+                  <Input
+                    value={option.label}
+                    onChange={(e) => updateOption(index, { label: e.target.value })}
+                    placeholder="Label"
+                  />
+                  <Input
+                    value={option.description}
+                    onChange={(e) => updateOption(index, { description: e.target.value })}
+                    placeholder="Description"
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={option.price_delta}
+                    onChange={(e) => updateOption(index, { price_delta: Number(e.target.value) })}
+                    placeholder="Price +/-"
+                  />
+                  <Input
+                    value={option.sizes}
+                    onChange={(e) => updateOption(index, { sizes: e.target.value })}
+                    placeholder="Only for sizes (comma separated)"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive"
+                    onClick={() => removeOption(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                  <div className="flex items-center gap-2 md:col-span-5">
+                    {option.icon_url && (
+                      <img src={option.icon_url} alt="" className="h-8 w-8 rounded border object-contain" />
+                    )}
+                    <Input
+                      value={option.icon_url}
+                      onChange={(e) => updateOption(index, { icon_url: e.target.value })}
+                      placeholder="Option icon URL"
+                    />
+                    <Input
+                      type="file"
+                      accept="image/*"
+                      className="max-w-[200px]"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleUpload(file, (url) => updateOption(index, { icon_url: url }));
+                      }}
+                    />
+                  </div>
+                </div>
+              ))}
+              <FieldError errors={fieldErrors} name="options" />
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Button onClick={handleSave} disabled={isSaving || isUploading}>
+                {editingId ? 'Update Style Group' : 'Create Style Group'}
+              </Button>
+              {editingId && (
+                <Button variant="outline" onClick={() => confirmLeave(resetForm)}>
+                  Cancel
+                </Button>
+              )}
+              {isUploading && <span className="text-xs text-muted-foreground">Uploading...</span>}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Style Groups</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Icon</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Options</TableHead>
+                <TableHead>Saved from</TableHead>
+                <TableHead>Used by</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map((group) => {
+                const users = productsUsingStyleGroup(group, products);
+                const isPushing = pushing?.groupId === group.id;
+                return (
+                  <TableRow key={group.id}>
+                    <TableCell>
+                      {group.icon_url ? (
+                        <img src={group.icon_url} alt={group.name} className="h-10 w-10 rounded object-contain" />
+                      ) : (
+                        <span className="text-xs text-muted-foreground">No icon</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-medium">{group.name}</TableCell>
+                    <TableCell className="max-w-[280px] truncate">
+                      {(group.options || []).map((option) => (typeof option === 'string' ? option : option.label)).join(', ')}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {group.product_id ? `${group.product_name} (#${group.product_id})` : 'Library'}
+                    </TableCell>
+                    <TableCell title={users.map((product) => product.name).join('\n')}>
+                      {users.length} product{users.length === 1 ? '' : 's'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {can('catalog.edit') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={users.length === 0 || pushing !== null}
+                            onClick={() => handlePush(group)}
+                          >
+                            {isPushing ? (
+                              <>
+                                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                {pushing.progress.done}/{pushing.progress.total}
+                              </>
+                            ) : (
+                              <>
+                                <Send className="h-4 w-4 mr-1" /> Push
+                              </>
+                            )}
+                          </Button>
+                        )}
+                        {can('catalog.edit') && (
+                          <Button variant="ghost" size="sm" onClick={() => confirmLeave(() => handleEdit(group))}>
+                            Edit
+                          </Button>
+                        )}
+                        {can('catalog.delete') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => handleDelete(group)}
+                          >
+                            Delete
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {groups.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    {isLoading ? 'Loading style groups...' : 'No style groups yet.'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StyleLibrary;